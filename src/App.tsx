@@ -15,9 +15,15 @@ import DoctorSearch from "./pages/DoctorSearch";
 import BookAppointment from "./pages/BookAppointment";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
+import DoctorDashboard from "./pages/DoctorDashboard";
+import DoctorAppointments from "./pages/DoctorAppointments";
+import DoctorSchedule from "./pages/DoctorSchedule";
+import DoctorPractice from "./pages/DoctorPractice";
+import DoctorReviews from "./pages/DoctorReviews";
+import Messages from "./pages/Messages";
+import DoctorProfile from "./pages/DoctorProfile";
 import DashboardLayout from "./components/DashboardLayout";
 import Welcome from "./pages/Welcome";
-import { DoctorSearchProvider } from "./components/DoctorSearchContext";
 import AuthCallback from "./pages/AuthCallback"; // Import the new AuthCallback component
 import './App.css'; // Ensure CSS is imported
 
@@ -38,55 +44,93 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <DoctorSearchProvider>
-            <div className="responsive-container">
-              <Routes>
-                <Route path="/" element={<Welcome />} />
-                <Route path="/home" element={<Index />} />
-                
-                {/* Auth Callback Route */}
-                <Route path="/auth/callback" element={<AuthCallback />} />
-                
-                {/* Doctor Search and Booking Routes */}
-                <Route path="/doctor-search" element={<DoctorSearch />} />
-                <Route path="/book-appointment" element={<BookAppointment />} />
-                
-                {/* Dashboard Routes */}
-                <Route path="/dashboard" element={
-                  <DashboardLayout>
-                    <Dashboard />
-                  </DashboardLayout>
-                } />
-                <Route path="/metrics" element={
-                  <DashboardLayout>
-                    <HealthMetrics />
-                  </DashboardLayout>
-                } />
-                <Route path="/medications" element={
-                  <DashboardLayout>
-                    <Medications />
-                  </DashboardLayout>
-                } />
-                <Route path="/appointments" element={
-                  <DashboardLayout>
-                    <Appointments />
-                  </DashboardLayout>
-                } />
-                <Route path="/profile" element={
-                  <DashboardLayout>
-                    <Profile />
-                  </DashboardLayout>
-                } />
-                <Route path="/settings" element={
-                  <DashboardLayout>
-                    <Settings />
-                  </DashboardLayout>
-                } />
-                
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </div>
-          </DoctorSearchProvider>
+          <div className="responsive-container">
+            <Routes>
+              <Route path="/" element={<Welcome />} />
+              <Route path="/home" element={<Index />} />
+              
+              {/* Auth Callback Route */}
+              <Route path="/auth/callback" element={<AuthCallback />} />
+              
+              {/* Doctor Search and Booking Routes */}
+              <Route path="/doctor-search" element={<DoctorSearch />} />
+              <Route path="/doctors/:id" element={<DoctorProfile />} />
+              <Route path="/doctors/:id/book" element={<BookAppointment />} />
+              {/* Booking used to pass the doctor through localStorage; old links start a new search */}
+              <Route path="/book-appointment" element={<Navigate to="/doctor-search" replace />} />
+              
+              {/* Dashboard Routes */}
+              <Route path="/dashboard" element={
+                <DashboardLayout role="patient">
+                  <Dashboard />
+                </DashboardLayout>
+              } />
+              <Route path="/metrics" element={
+                <DashboardLayout role="patient">
+                  <HealthMetrics />
+                </DashboardLayout>
+              } />
+              <Route path="/medications" element={
+                <DashboardLayout role="patient">
+                  <Medications />
+                </DashboardLayout>
+              } />
+              <Route path="/appointments" element={
+                <DashboardLayout role="patient">
+                  <Appointments />
+                </DashboardLayout>
+              } />
+              <Route path="/messages" element={
+                <DashboardLayout role="patient">
+                  <Messages />
+                </DashboardLayout>
+              } />
+              <Route path="/profile" element={
+                <DashboardLayout role="patient">
+                  <Profile />
+                </DashboardLayout>
+              } />
+              <Route path="/settings" element={
+                <DashboardLayout>
+                  <Settings />
+                </DashboardLayout>
+              } />
+
+              {/* Doctor Routes */}
+              <Route path="/doctor" element={
+                <DashboardLayout role="doctor">
+                  <DoctorDashboard />
+                </DashboardLayout>
+              } />
+              <Route path="/doctor/appointments" element={
+                <DashboardLayout role="doctor">
+                  <DoctorAppointments />
+                </DashboardLayout>
+              } />
+              <Route path="/doctor/schedule" element={
+                <DashboardLayout role="doctor">
+                  <DoctorSchedule />
+                </DashboardLayout>
+              } />
+              <Route path="/doctor/practice" element={
+                <DashboardLayout role="doctor">
+                  <DoctorPractice />
+                </DashboardLayout>
+              } />
+              <Route path="/doctor/reviews" element={
+                <DashboardLayout role="doctor">
+                  <DoctorReviews />
+                </DashboardLayout>
+              } />
+              <Route path="/doctor/messages" element={
+                <DashboardLayout role="doctor">
+                  <Messages />
+                </DashboardLayout>
+              } />
+              
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </div>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
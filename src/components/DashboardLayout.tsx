@@ -1,12 +1,35 @@
 
 import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
 import Sidebar from './Sidebar';
+import { useMedicationReminders } from '@/hooks/use-medication-reminders';
+import { useUserRole } from '@/hooks/use-user-role';
+import type { UserRole } from '@/types/profile';
+import { ROLE_HOME_PATHS } from '@/utils/roles';
 
 interface DashboardLayoutProps {
   children: ReactNode;
+  // Restricts the page to one role; other signed-in users are sent to their own dashboard
+  role?: UserRole;
 }
 
-const DashboardLayout = ({ children }: DashboardLayoutProps) => {
+const DashboardLayout = ({ children, role }: DashboardLayoutProps) => {
+  useMedicationReminders();
+  const { data: userRole, isLoading } = useUserRole();
+
+  if (role && isLoading) {
+    return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
+  }
+
+  if (role && userRole && userRole.role !== role) {
+    return <Navigate to={ROLE_HOME_PATHS[userRole.role]} replace />;
+  }
+
+  // Patient pages prompt for sign-in themselves; the doctor area needs an account up front
+  if (role === 'doctor' && !userRole) {
+    return <Navigate to="/" replace />;
+  }
+
   return (
     <div className="flex flex-col md:flex-row min-h-screen bg-gray-50">
       <Sidebar />
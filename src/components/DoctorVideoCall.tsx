@@ -1,208 +1,446 @@
 
-import { useState, useEffect, useRef } from 'react';
-import { X, Mic, MicOff, Video, VideoOff, Phone } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Clock, MessageSquare, Mic, MicOff, MonitorOff, MonitorUp, Video, VideoOff, Phone, UserCheck } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import CallChatPanel from '@/components/consultation/CallChatPanel';
+import DeviceCheck from '@/components/consultation/DeviceCheck';
 import { useToast } from '@/hooks/use-toast';
+import {
+  useAdmitPatient,
+  useConsultationSession,
+  useEndConsultation,
+  useJoinConsultation,
+  useLeaveConsultation,
+  useLogConsultationMessage,
+} from '@/hooks/use-consultation-session';
+import { useVideoCall, type VideoCallStatus } from '@/hooks/use-video-call';
+import type { Appointment } from '@/types/appointment';
+import type { MediaDeviceSelection } from '@/types/consultation';
+import type { UserRole } from '@/types/profile';
+import { mergeChatMessages } from '@/utils/consultationChat';
+import { formatCallDuration, getJoinBlockReason, isPatientWaiting } from '@/utils/consultationWindow';
 
 interface DoctorVideoCallProps {
-  doctorName: string;
-  doctorImage: string;
+  appointment: Appointment;
+  // Which side of the appointment the current user is on
+  role: UserRole;
+  // The other participant: the doctor for a patient, the patient for a doctor
+  peerName: string;
+  peerImage?: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-const DoctorVideoCall = ({ doctorName, doctorImage, open, onOpenChange }: DoctorVideoCallProps) => {
+const getStatusMessage = (status: VideoCallStatus, peerName: string) => {
+  switch (status) {
+    case 'starting':
+      return 'Starting your camera...';
+    case 'waiting':
+      return `Waiting for ${peerName} to join...`;
+    case 'connecting':
+      return `Connecting to ${peerName}...`;
+    case 'reconnecting':
+      return 'Connection lost. Reconnecting...';
+    case 'peer-left':
+      return `${peerName} left the call. Waiting for them to rejoin...`;
+    default:
+      return null;
+  }
+};
+
+const DoctorVideoCall = ({ appointment, role, peerName, peerImage, open, onOpenChange }: DoctorVideoCallProps) => {
   const { toast } = useToast();
-  const [isConnecting, setIsConnecting] = useState(true);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isVideoOff, setIsVideoOff] = useState(false);
-  
+  // Set once the device check is done and the consultation has been joined
+  const [devices, setDevices] = useState<MediaDeviceSelection | null>(null);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  // How many chat messages the user has seen, to flag new ones while the chat is closed
+  const [seenMessageCount, setSeenMessageCount] = useState(0);
+  const { data: session } = useConsultationSession(open ? appointment.id : null);
+  const joinConsultation = useJoinConsultation();
+  const admitPatient = useAdmitPatient();
+  const leaveConsultation = useLeaveConsultation();
+  const endConsultation = useEndConsultation();
+  const logMessage = useLogConsultationMessage();
+
+  const isDoctor = role === 'doctor';
+  const hasJoined = !!devices && !!session;
+  const isEnded = session?.status === 'ended';
+  // The doctor is in the room as soon as they join; the patient only once admitted
+  const isInCall = hasJoined && (isDoctor ? !isEnded : session.status === 'in_progress');
+
+  const {
+    status,
+    error,
+    localStream,
+    remoteStream,
+    isMuted,
+    isVideoOff,
+    toggleMute,
+    toggleVideo,
+    isSharingScreen,
+    startScreenShare,
+    stopScreenShare,
+    messages,
+    isChatReady,
+    sendMessage,
+  } = useVideoCall(isInCall ? appointment.id : null, role, devices);
+
+  // The saved transcript covers messages from before a rejoin; live ones arrive first
+  const chatMessages = mergeChatMessages(session?.chatTranscript ?? [], messages);
+  const hasUnreadMessages = !isChatOpen && chatMessages.length > seenMessageCount;
+
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const localStreamRef = useRef<MediaStream | null>(null);
 
   useEffect(() => {
-    if (open) {
-      initializeCall();
-    } else {
-      endCall();
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = localStream;
     }
+  }, [localStream, isInCall]);
 
-    return () => {
-      endCall();
-    };
-  }, [open]);
+  useEffect(() => {
+    if (remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = remoteStream;
+    }
+  }, [remoteStream, isInCall]);
 
-  const initializeCall = async () => {
-    try {
-      // Get local media stream
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
-      localStreamRef.current = stream;
-      
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
+  // Toast once per status change, not again when the error text or peer name changes
+  const notifiedStatusRef = useRef<VideoCallStatus | null>(null);
 
-      // Create peer connection
-      const configuration = { iceServers: [{ urls: 'stun:stun.l.google.com:19302' }] };
-      peerConnectionRef.current = new RTCPeerConnection(configuration);
+  useEffect(() => {
+    if (status === notifiedStatusRef.current) return;
+    notifiedStatusRef.current = status;
 
-      // Add tracks to peer connection
-      stream.getTracks().forEach(track => {
-        if (peerConnectionRef.current && localStreamRef.current) {
-          peerConnectionRef.current.addTrack(track, localStreamRef.current);
-        }
+    if (status === 'connected') {
+      toast({
+        title: "Connected",
+        description: `You are now in a call with ${peerName}`,
+      });
+    } else if (status === 'failed') {
+      toast({
+        title: "Connection failed",
+        description: error || "An unexpected error occurred",
+        variant: "destructive",
       });
+    }
+  }, [status, error, peerName, toast]);
 
-      // Handle incoming tracks
-      peerConnectionRef.current.ontrack = (event) => {
-        if (remoteVideoRef.current && event.streams[0]) {
-          remoteVideoRef.current.srcObject = event.streams[0];
-        }
-      };
-
-      // In a real app, you would set up signaling here
-      // For demo purposes, we'll simulate a connection after a delay
-      setTimeout(() => {
-        setIsConnecting(false);
-        toast({
-          title: "Connected",
-          description: `You are now in a call with ${doctorName}`,
+  useEffect(() => {
+    if (isChatOpen) setSeenMessageCount(chatMessages.length);
+  }, [isChatOpen, chatMessages.length]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      if (hasJoined && !isEnded) {
+        leaveConsultation.mutate(session, {
+          onError: (leaveError) => console.error('Error leaving consultation:', leaveError),
         });
-      }, 2000);
+      }
+      setDevices(null);
+      setIsChatOpen(false);
+      setSeenMessageCount(0);
+    }
+    onOpenChange(nextOpen);
+  };
 
+  const handleJoin = async (selection: MediaDeviceSelection) => {
+    try {
+      await joinConsultation.mutateAsync(appointment.id);
+      setDevices(selection);
     } catch (error) {
-      console.error('Error accessing media devices:', error);
+      console.error('Error joining consultation:', error);
       toast({
-        title: "Connection failed",
-        description: "Could not access camera or microphone",
+        title: "Could not join the consultation",
+        description: error.message || "An unexpected error occurred",
         variant: "destructive",
       });
-      onOpenChange(false);
     }
   };
 
-  const endCall = () => {
-    // Stop all tracks
-    if (localStreamRef.current) {
-      localStreamRef.current.getTracks().forEach(track => track.stop());
-      localStreamRef.current = null;
-    }
-
-    // Close peer connection
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
+  const handleAdmit = async () => {
+    try {
+      await admitPatient.mutateAsync(session.id);
+    } catch (error) {
+      console.error('Error admitting patient:', error);
+      toast({
+        title: "Could not admit the patient",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
     }
+  };
 
-    // Reset video elements
-    if (localVideoRef.current) {
-      localVideoRef.current.srcObject = null;
-    }
-    if (remoteVideoRef.current) {
-      remoteVideoRef.current.srcObject = null;
+  const handleEndConsultation = async () => {
+    try {
+      const ended = await endConsultation.mutateAsync(session.id);
+      toast({
+        title: "Consultation ended",
+        description: `Call with ${peerName} lasted ${formatCallDuration(ended.durationSeconds ?? 0)}`,
+      });
+      setDevices(null);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error ending consultation:', error);
+      toast({
+        title: "Could not end the consultation",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
     }
   };
 
-  const toggleMute = () => {
-    if (localStreamRef.current) {
-      const audioTracks = localStreamRef.current.getAudioTracks();
-      audioTracks.forEach(track => {
-        track.enabled = !track.enabled;
+  const handleToggleScreenShare = async () => {
+    try {
+      if (isSharingScreen) {
+        await stopScreenShare();
+      } else {
+        await startScreenShare();
+      }
+    } catch (error) {
+      // Closing the browser's screen picker isn't an error
+      if (error.name === 'NotAllowedError') return;
+      console.error('Error sharing screen:', error);
+      toast({
+        title: "Could not share your screen",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
       });
-      setIsMuted(!isMuted);
     }
   };
 
-  const toggleVideo = () => {
-    if (localStreamRef.current) {
-      const videoTracks = localStreamRef.current.getVideoTracks();
-      videoTracks.forEach(track => {
-        track.enabled = !track.enabled;
+  const handleSendMessage = (text: string) => {
+    const message = sendMessage(text);
+    if (!message) {
+      toast({
+        title: "Message not sent",
+        description: "Chat reconnects with the call. Please try again in a moment.",
+        variant: "destructive",
       });
-      setIsVideoOff(!isVideoOff);
+      return false;
     }
+
+    logMessage.mutate({ sessionId: session.id, message }, {
+      onError: (logError) => {
+        console.error('Error saving chat message:', logError);
+        toast({
+          title: "Message not saved",
+          description: "It was delivered but won't appear in the consultation record",
+          variant: "destructive",
+        });
+      },
+    });
+    return true;
   };
 
-  const handleEndCall = () => {
+  const handleLeave = () => {
     toast({
       title: "Call ended",
-      description: `Call with ${doctorName} has ended`,
+      description: `You left the call with ${peerName}`,
     });
-    onOpenChange(false);
+    handleOpenChange(false);
   };
 
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[90vw] md:max-w-[800px] h-[80vh] flex flex-col">
-        <DialogHeader>
-          <DialogTitle>Call with {doctorName}</DialogTitle>
-        </DialogHeader>
-        
-        <div className="flex-1 relative bg-black rounded-md overflow-hidden">
-          {/* Remote video (doctor) - takes full space */}
-          <video 
-            ref={remoteVideoRef} 
-            autoPlay 
-            playsInline
-            className="w-full h-full object-cover"
+  const renderNotice = (message: string, detail?: string) => (
+    <div className="flex-1 flex flex-col items-center justify-center text-center gap-3 p-6">
+      <Clock className="h-10 w-10 text-gray-400" />
+      <p className="text-lg font-medium">{message}</p>
+      {detail && <p className="text-sm text-muted-foreground">{detail}</p>}
+      <Button variant="outline" onClick={() => handleOpenChange(false)}>Close</Button>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (!hasJoined) {
+      const blockReason = getJoinBlockReason(appointment);
+      if (blockReason) return renderNotice(blockReason);
+
+      return (
+        <DeviceCheck
+          joinLabel={isDoctor ? "Open consultation room" : "Join waiting room"}
+          isJoining={joinConsultation.isPending}
+          onJoin={handleJoin}
+        />
+      );
+    }
+
+    if (isEnded) {
+      return renderNotice(
+        'This consultation has ended',
+        session.durationSeconds ? `It lasted ${formatCallDuration(session.durationSeconds)}.` : undefined
+      );
+    }
+
+    if (!isInCall) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center text-center gap-3 p-6">
+          <img
+            src={peerImage || '/placeholder.svg'}
+            alt={peerName}
+            className="w-24 h-24 rounded-full object-cover"
           />
-          
-          {isConnecting && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
-              <img 
-                src={doctorImage} 
-                alt={doctorName} 
-                className="w-24 h-24 rounded-full object-cover border-2 border-white mb-4" 
-              />
-              <p className="text-lg">Connecting to {doctorName}...</p>
-              <div className="mt-3 h-2 w-40 bg-gray-700 rounded-full overflow-hidden">
-                <div className="h-full bg-health-primary animate-pulse"></div>
+          <p className="text-lg font-medium">You're in the waiting room</p>
+          <p className="text-sm text-muted-foreground">
+            {peerName} will let you in when they're ready. Please keep this window open.
+          </p>
+          <Button variant="outline" onClick={handleLeave}>Leave waiting room</Button>
+        </div>
+      );
+    }
+
+    const statusMessage = status === 'failed' ? error : getStatusMessage(status, peerName);
+
+    return (
+      <>
+        {isDoctor && isPatientWaiting(session) && (
+          <div className="flex items-center justify-between gap-4 rounded-md border border-health-primary/40 bg-health-primary/10 px-4 py-2">
+            <p className="text-sm">{peerName} is in the waiting room</p>
+            <Button
+              size="sm"
+              className="bg-health-primary hover:bg-health-primary/90"
+              onClick={handleAdmit}
+              disabled={admitPatient.isPending}
+            >
+              <UserCheck className="h-4 w-4 mr-1" />
+              {admitPatient.isPending ? "Admitting..." : "Admit"}
+            </Button>
+          </div>
+        )}
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="flex-1 relative bg-black rounded-md overflow-hidden">
+            {/* Remote video (the other participant) - contained so shared screens stay readable */}
+            <video
+              ref={remoteVideoRef}
+              autoPlay
+              playsInline
+              className="w-full h-full object-contain"
+            />
+
+            {isSharingScreen && (
+              <span className="absolute top-3 left-3 rounded-full bg-health-primary px-3 py-1 text-xs text-white">
+                You're sharing your screen
+              </span>
+            )}
+
+            {statusMessage && (
+              <div className={`absolute inset-0 flex flex-col items-center justify-center text-white ${status === 'reconnecting' ? 'bg-black/60' : ''}`}>
+                {status !== 'reconnecting' && (
+                  <img
+                    src={peerImage || '/placeholder.svg'}
+                    alt={peerName}
+                    className="w-24 h-24 rounded-full object-cover border-2 border-white mb-4"
+                  />
+                )}
+                <p className="text-lg text-center px-4">{statusMessage}</p>
+                {status !== 'failed' && (
+                  <div className="mt-3 h-2 w-40 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-health-primary animate-pulse"></div>
+                  </div>
+                )}
               </div>
+            )}
+
+            {/* Local video - small overlay */}
+            <div className="absolute bottom-4 right-4 w-32 h-24 rounded-md overflow-hidden border-2 border-white shadow-lg">
+              <video
+                ref={localVideoRef}
+                autoPlay
+                playsInline
+                muted
+                className="w-full h-full object-cover"
+              />
             </div>
-          )}
-          
-          {/* Local video (patient) - small overlay */}
-          <div className="absolute bottom-4 right-4 w-32 h-24 rounded-md overflow-hidden border-2 border-white shadow-lg">
-            <video 
-              ref={localVideoRef} 
-              autoPlay 
-              playsInline 
-              muted 
-              className="w-full h-full object-cover"
-            />
           </div>
+
+          {isChatOpen && (
+            <div className="w-72 flex-shrink-0">
+              <CallChatPanel
+                messages={chatMessages}
+                role={role}
+                peerName={peerName}
+                isReady={isChatReady}
+                onSend={handleSendMessage}
+              />
+            </div>
+          )}
         </div>
-        
+
         {/* Call controls */}
-        <div className="flex justify-center space-x-4 mt-4">
-          <Button 
-            variant="outline" 
-            size="icon" 
-            className={isMuted ? "bg-red-100 text-red-500" : ""} 
+        <div className="flex justify-center items-center space-x-4 mt-4">
+          <Button
+            variant="outline"
+            size="icon"
+            className={isMuted ? "bg-red-100 text-red-500" : ""}
             onClick={toggleMute}
+            disabled={!localStream}
           >
             {isMuted ? <MicOff /> : <Mic />}
           </Button>
-          <Button 
-            variant="destructive" 
-            size="icon" 
+          <Button
+            variant="destructive"
+            size="icon"
             className="rounded-full h-12 w-12"
-            onClick={handleEndCall}
+            onClick={handleLeave}
+            aria-label="Leave call"
           >
             <Phone className="transform rotate-135" />
           </Button>
-          <Button 
-            variant="outline" 
-            size="icon" 
-            className={isVideoOff ? "bg-red-100 text-red-500" : ""} 
+          <Button
+            variant="outline"
+            size="icon"
+            className={isVideoOff ? "bg-red-100 text-red-500" : ""}
             onClick={toggleVideo}
+            disabled={!localStream}
           >
             {isVideoOff ? <VideoOff /> : <Video />}
           </Button>
+          {isDoctor && (
+            <Button
+              variant="outline"
+              size="icon"
+              className={isSharingScreen ? "bg-health-primary/10 text-health-primary" : ""}
+              onClick={handleToggleScreenShare}
+              disabled={!localStream}
+              aria-label={isSharingScreen ? "Stop sharing screen" : "Share screen"}
+            >
+              {isSharingScreen ? <MonitorOff /> : <MonitorUp />}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            className={`relative ${isChatOpen ? "bg-health-primary/10 text-health-primary" : ""}`}
+            onClick={() => setIsChatOpen(!isChatOpen)}
+            aria-label={isChatOpen ? "Hide chat" : "Show chat"}
+          >
+            <MessageSquare />
+            {hasUnreadMessages && (
+              <span className="absolute -top-1 -right-1 h-3 w-3 rounded-full bg-red-500" />
+            )}
+          </Button>
+          {isDoctor && (
+            <Button
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50"
+              onClick={handleEndConsultation}
+              disabled={endConsultation.isPending}
+            >
+              {endConsultation.isPending ? "Ending..." : "End consultation"}
+            </Button>
+          )}
         </div>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[90vw] md:max-w-[800px] h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Call with {peerName}</DialogTitle>
+        </DialogHeader>
+        {renderContent()}
       </DialogContent>
     </Dialog>
   );
@@ -1,8 +1,11 @@
 
 import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Heart, Activity, Pill, User, Settings, Calendar, Menu, X } from 'lucide-react';
+import { Heart, Activity, Pill, User, Settings, Calendar, Clock, Stethoscope, Star, MessageSquare, Menu, X } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useUnreadMessageCount } from '@/hooks/use-conversations';
+import { useUserRole } from '@/hooks/use-user-role';
+import { formatUnreadCount } from '@/utils/messaging';
 
 const Sidebar = () => {
   const location = useLocation();
@@ -10,6 +13,8 @@ const Sidebar = () => {
   const [expanded, setExpanded] = useState(true);
   const isMobile = useIsMobile();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const { data: userRole } = useUserRole();
+  const { data: unreadMessages = 0 } = useUnreadMessageCount(!!userRole);
 
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -28,15 +33,28 @@ const Sidebar = () => {
     }
   };
 
-  const menuItems = [
+  const patientMenuItems = [
     { icon: Activity, label: 'Dashboard', path: '/dashboard' },
     { icon: Heart, label: 'Health Metrics', path: '/metrics' },
     { icon: Pill, label: 'Medications', path: '/medications' },
     { icon: Calendar, label: 'Appointments', path: '/appointments' },
+    { icon: MessageSquare, label: 'Messages', path: '/messages', badge: unreadMessages },
     { icon: User, label: 'Profile', path: '/profile' },
     { icon: Settings, label: 'Settings', path: '/settings' },
   ];
 
+  const doctorMenuItems = [
+    { icon: Activity, label: 'Dashboard', path: '/doctor' },
+    { icon: Calendar, label: 'Appointments', path: '/doctor/appointments' },
+    { icon: MessageSquare, label: 'Messages', path: '/doctor/messages', badge: unreadMessages },
+    { icon: Clock, label: 'Schedule', path: '/doctor/schedule' },
+    { icon: Stethoscope, label: 'Practice', path: '/doctor/practice' },
+    { icon: Star, label: 'Reviews', path: '/doctor/reviews' },
+    { icon: Settings, label: 'Settings', path: '/settings' },
+  ];
+
+  const menuItems = userRole?.role === 'doctor' ? doctorMenuItems : patientMenuItems;
+
   // Mobile sidebar
   if (isMobile) {
     return (
@@ -74,6 +92,11 @@ const Sidebar = () => {
                     >
                       <item.icon className="h-5 w-5" />
                       <span>{item.label}</span>
+                      {item.badge > 0 && (
+                        <span className="ml-auto rounded-full bg-health-primary px-2 py-0.5 text-xs text-white">
+                          {formatUnreadCount(item.badge)}
+                        </span>
+                      )}
                     </button>
                   </li>
                 ))}
@@ -123,8 +146,18 @@ const Sidebar = () => {
                     : 'text-gray-700 hover:text-health-primary hover:bg-gray-50'
                 }`}
               >
-                <item.icon className="h-5 w-5 shrink-0" />
+                <span className="relative shrink-0">
+                  <item.icon className="h-5 w-5" />
+                  {!expanded && item.badge > 0 && (
+                    <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-health-primary" />
+                  )}
+                </span>
                 {expanded && <span className="whitespace-nowrap">{item.label}</span>}
+                {expanded && item.badge > 0 && (
+                  <span className="ml-auto rounded-full bg-health-primary px-2 py-0.5 text-xs text-white">
+                    {formatUnreadCount(item.badge)}
+                  </span>
+                )}
               </Link>
             </li>
           ))}
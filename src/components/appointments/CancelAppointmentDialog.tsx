@@ -0,0 +1,78 @@
+import { format } from 'date-fns';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useCancelAppointment } from '@/hooks/use-appointments';
+import type { Appointment } from '@/types/appointment';
+import { calculateRefund } from '@/utils/refundPolicy';
+
+interface CancelAppointmentDialogProps {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CancelAppointmentDialog = ({ appointment, onOpenChange }: CancelAppointmentDialogProps) => {
+  const { toast } = useToast();
+  const cancelAppointment = useCancelAppointment();
+  const refund = appointment ? calculateRefund(appointment) : null;
+
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!appointment) return;
+
+    try {
+      const refundAmount = await cancelAppointment.mutateAsync({ appointment });
+      toast({
+        title: "Appointment cancelled",
+        description: refundAmount > 0
+          ? `A refund of ₹${refundAmount} has been requested to your original payment method`
+          : `Your appointment with ${appointment.doctorName} has been cancelled`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      toast({
+        title: "Could not cancel appointment",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AlertDialog open={!!appointment} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {appointment && `${appointment.doctorName} on ${format(new Date(appointment.appointmentDate), 'MMM d, yyyy')} at ${format(new Date(appointment.appointmentDate), 'h:mm a')}.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {refund && (
+          <div className="rounded-md border p-3 text-sm">
+            <p className="font-medium">
+              {refund.amount > 0 ? `Refund: ₹${refund.amount} (${refund.percent}%)` : 'No refund'}
+            </p>
+            <p className="text-muted-foreground">{refund.description}</p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={cancelAppointment.isPending}>Keep appointment</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleCancel}
+            className="bg-red-600 hover:bg-red-700"
+            disabled={cancelAppointment.isPending}
+          >
+            {cancelAppointment.isPending ? "Cancelling..." : "Cancel appointment"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CancelAppointmentDialog;
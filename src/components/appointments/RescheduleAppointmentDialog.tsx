@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { useBookedSlots, useRescheduleAppointment } from '@/hooks/use-appointments';
+import { useDoctorSchedule } from '@/hooks/use-doctor-schedule';
+import type { Appointment } from '@/types/appointment';
+import { generateDaySlots } from '@/utils/appointmentSlots';
+
+interface RescheduleAppointmentDialogProps {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RescheduleAppointmentDialog = ({ appointment, onOpenChange }: RescheduleAppointmentDialogProps) => {
+  const { toast } = useToast();
+  const rescheduleAppointment = useRescheduleAppointment();
+  const [day, setDay] = useState(startOfDay(new Date()));
+  const [selectedSlot, setSelectedSlot] = useState<Date | null>(null);
+  const { data: schedule, isLoading: isScheduleLoading } = useDoctorSchedule(appointment?.doctorName);
+  const { data: bookedSlots = [], isLoading: isBookedLoading } = useBookedSlots(appointment?.doctorName, day);
+  const isLoading = isScheduleLoading || isBookedLoading;
+
+  // Start from the current appointment day every time the dialog opens
+  useEffect(() => {
+    if (!appointment) return;
+
+    const current = startOfDay(new Date(appointment.appointmentDate));
+    const today = startOfDay(new Date());
+    setDay(current < today ? today : current);
+    setSelectedSlot(null);
+  }, [appointment]);
+
+  const currentStart = appointment ? new Date(appointment.appointmentDate) : null;
+  // The current slot comes back as booked, so it can't be picked again
+  const slots = schedule ? generateDaySlots(schedule, day, bookedSlots, new Date(), appointment?.consultationType) : [];
+
+  const changeDay = (days: number) => {
+    setDay(prev => addDays(prev, days));
+    setSelectedSlot(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!appointment || !selectedSlot) return;
+
+    try {
+      await rescheduleAppointment.mutateAsync({ appointment, newDate: selectedSlot });
+      toast({
+        title: "Appointment rescheduled",
+        description: `Your appointment with ${appointment.doctorName} is now on ${format(selectedSlot, 'MMM d')} at ${format(selectedSlot, 'h:mm a')}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error);
+      toast({
+        title: "Could not reschedule",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reschedule appointment</DialogTitle>
+          <DialogDescription>
+            {appointment && currentStart && `Currently with ${appointment.doctorName} on ${format(currentStart, 'MMM d')} at ${format(currentStart, 'h:mm a')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => changeDay(-1)}
+            disabled={isSameDay(day, new Date())}
+            aria-label="Previous day"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium">{format(day, 'EEEE, MMMM d')}</span>
+          <Button variant="outline" size="icon" onClick={() => changeDay(1)} aria-label="Next day">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : slots.some(slot => slot.available) ? (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {slots.map(slot => (
+              <Button
+                key={slot.start.toISOString()}
+                variant={selectedSlot?.getTime() === slot.start.getTime() ? 'default' : 'outline'}
+                size="sm"
+                disabled={!slot.available}
+                className={selectedSlot?.getTime() === slot.start.getTime() ? 'bg-health-primary hover:bg-health-primary/90' : ''}
+                onClick={() => setSelectedSlot(slot.start)}
+              >
+                {format(slot.start, 'h:mm a')}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No free slots on this day. Try another date.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={rescheduleAppointment.isPending}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-health-primary hover:bg-health-primary/90"
+            onClick={handleSubmit}
+            disabled={!selectedSlot || rescheduleAppointment.isPending}
+          >
+            {rescheduleAppointment.isPending ? "Saving..." : "Confirm new time"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RescheduleAppointmentDialog;
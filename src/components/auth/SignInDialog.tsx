@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Eye, EyeOff, Mail, Lock } from 'lucide-react';
 import ForgotPasswordDialog from './ForgotPasswordDialog';
 import { supabase } from '@/integrations/supabase/client';
+import { ROLE_HOME_PATHS } from '@/utils/roles';
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
 
@@ -68,7 +69,7 @@ const SignInDialog = ({ isOpen, onClose, onOpenSignUp, userType = 'patient' }: S
       if (userType === 'patient') {
         navigate("/home");
       } else {
-        navigate("/dashboard");
+        navigate(ROLE_HOME_PATHS.doctor);
       }
     } catch (error: any) {
       toast({
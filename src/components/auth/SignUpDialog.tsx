@@ -58,6 +58,7 @@ const SignUpDialog = ({ isOpen, onClose, onOpenSignIn, userType = 'patient' }: S
           data: {
             full_name: fullName,
             phone: phone,
+            // Only a request: doctor access is granted once an admin verifies the account
             role: userType,
             ...(userType === 'doctor' && {
               hospital: hospitalName,
@@ -73,15 +74,13 @@ const SignUpDialog = ({ isOpen, onClose, onOpenSignIn, userType = 'patient' }: S
       
       toast({
         title: "Account created successfully",
-        description: "Welcome to HealthHub! Please check your email to verify your account.",
+        description: userType === 'doctor'
+          ? "Please check your email to verify your account. We'll enable your doctor tools once we've verified your practice."
+          : "Welcome to HealthHub! Please check your email to verify your account.",
       });
       
       onClose();
-      if (userType === 'patient') {
-        navigate("/home");
-      } else {
-        navigate("/dashboard");
-      }
+      navigate("/home");
     } catch (error: any) {
       toast({
         title: "Sign up failed",
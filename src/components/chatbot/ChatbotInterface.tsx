@@ -1,10 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, X } from 'lucide-react';
+import { Send, Bot, User, X, Square, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useAssistantConsent, useSaveAssistantConsent } from '@/hooks/use-assistant-consent';
 import { v4 as uuidv4 } from 'uuid';
+import { streamHealthChat, type EmergencyAlert } from '@/utils/healthChatStream';
+import EmergencyCard from './EmergencyCard';
 
 // Message type
 type Message = {
@@ -12,6 +16,8 @@ type Message = {
   content: string;
   role: 'user' | 'bot';
   timestamp: Date;
+  // Set when triage flagged the question as a possible emergency
+  emergency?: EmergencyAlert;
 };
 
 // Props type
@@ -41,9 +47,13 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string>('');
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { data: shareHealthRecord } = useAssistantConsent();
+  const saveConsent = useSaveAssistantConsent();
   
   // Auto-adjust textarea height
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -98,6 +108,7 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
     // Clean up when component unmounts
     return () => {
       // We don't auto-delete the session here, as it will be handled by the endChat function
+      abortControllerRef.current?.abort();
     };
   }, []);
 
@@ -179,37 +190,52 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
     // Save user message to MongoDB
     await saveMessageToMongoDB(userMessage);
 
+    const botMessageId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let emergency: EmergencyAlert | undefined;
+
+    // Creates the bot message on the first event, then updates it in place
+    const updateBotMessage = (update: (message: Message) => Message) => {
+      setStreamingId(botMessageId);
+      setMessages((prev) =>
+        prev.some(msg => msg.id === botMessageId)
+          ? prev.map(msg => (msg.id === botMessageId ? update(msg) : msg))
+          : [...prev, update({ id: botMessageId, content: '', role: 'bot', timestamp: new Date() })]
+      );
+    };
+
     try {
       // Extract previous messages for context (limit to last 10 for performance)
       const previousMessages = messages.slice(-10).map(msg => ({
         role: msg.role,
         content: msg.content
       }));
-      
-      // Call to your Supabase Edge Function that connects to Gemini API
-      const { data, error } = await supabase.functions.invoke('gemini-health-chat', {
-        body: { 
-          prompt: input,
-          previousMessages 
-        }
+
+      // Show the answer as it's written instead of waiting for all of it
+      const generatedText = await streamHealthChat({
+        prompt: input,
+        previousMessages,
+        sessionId,
+        signal: abortController.signal,
+        onText: (text) => updateBotMessage(msg => ({ ...msg, content: msg.content + text })),
+        onEmergency: (alert) => {
+          emergency = alert;
+          updateBotMessage(msg => ({ ...msg, emergency: alert }));
+        },
       });
 
-      if (error) {
-        throw new Error('Failed to get response from Gemini API');
-      }
+      // Stopped before anything arrived
+      if (!generatedText) return;
 
-      // Add bot response
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.generatedText || "I'm sorry, I couldn't process your request.",
+      // Save bot message to MongoDB, including a partial answer if the user stopped it
+      await saveMessageToMongoDB({
+        id: botMessageId,
+        content: generatedText,
         role: 'bot',
         timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, botMessage]);
-      
-      // Save bot message to MongoDB
-      await saveMessageToMongoDB(botMessage);
+        emergency,
+      });
       
     } catch (error) {
       console.error('Error getting response:', error);
@@ -219,17 +245,19 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
         variant: "destructive",
       });
       
-      // Add error message from bot
+      // Add error message from bot, replacing any partial answer
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: botMessageId,
         content: "I'm having trouble connecting right now. Please try again later.",
         role: 'bot',
         timestamp: new Date(),
       };
       
-      setMessages((prev) => [...prev, errorMessage]);
+      setMessages((prev) => [...prev.filter(msg => msg.id !== botMessageId), errorMessage]);
       await saveMessageToMongoDB(errorMessage);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
       // Reset textarea height
       if (textareaRef.current) {
@@ -238,6 +266,23 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
     }
   };
 
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleShareHealthRecordChange = async (enabled: boolean) => {
+    try {
+      await saveConsent.mutateAsync(enabled);
+    } catch (error) {
+      console.error('Error saving MedAssist consent:', error);
+      toast({
+        title: "Error",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -285,10 +330,31 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
         </div>
         <p className="text-xs opacity-75 mt-1">Ask me about health concerns, symptoms, or medications available in India</p>
       </div>
+
+      {/* Signed-in users can let MedAssist read their health record */}
+      {typeof shareHealthRecord === 'boolean' && (
+        <label className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-white text-xs text-gray-600">
+          <span className="flex items-center">
+            <ShieldCheck size={14} className="mr-1.5 text-health-primary" />
+            Personalise answers using my health record
+          </span>
+          <Switch
+            checked={shareHealthRecord}
+            onCheckedChange={handleShareHealthRecordChange}
+            disabled={saveConsent.isPending}
+            aria-label="Share my health record with MedAssist"
+          />
+        </label>
+      )}
       
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-3 space-y-3 bg-gray-50">
-        {messages.map((msg) => (
+        {messages.map((msg) => msg.emergency ? (
+          // Emergencies get a full-width card with call buttons instead of a chat bubble
+          <div key={msg.id} className="animate-fade-in">
+            <EmergencyCard alert={msg.emergency} />
+          </div>
+        ) : (
           <div
             key={msg.id}
             className={`flex ${
@@ -312,7 +378,12 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
                   {msg.role === 'bot' ? 'MedAssist' : 'You'}
                 </span>
               </div>
-              <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+              <p className="text-sm whitespace-pre-wrap">
+                {msg.content}
+                {msg.id === streamingId && (
+                  <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-health-primary animate-pulse" />
+                )}
+              </p>
               <div className="text-right">
                 <span className="text-[10px] opacity-50">
                   {new Date(msg.timestamp).toLocaleTimeString([], { 
@@ -324,7 +395,8 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
             </div>
           </div>
         ))}
-        {isLoading && (
+        {/* Typing indicator until the first words of the answer arrive */}
+        {isLoading && !streamingId && (
           <div className="flex justify-start animate-fade-in">
             <div className="max-w-[85%] rounded-lg p-2.5 bg-white border border-gray-200 rounded-tl-none">
               <div className="flex items-center">
@@ -376,13 +448,24 @@ const ChatbotInterface = ({ closeChat }: ChatbotInterfaceProps) => {
             disabled={isLoading}
             style={{ maxHeight: '120px' }}
           />
-          <Button
-            onClick={handleSend}
-            className={`rounded-l-none ${isLoading ? 'opacity-50' : ''}`}
-            disabled={isLoading || !input.trim()}
-          >
-            <Send size={16} />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopGenerating}
+              className="rounded-l-none"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <Square size={16} />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              className="rounded-l-none"
+              disabled={!input.trim()}
+            >
+              <Send size={16} />
+            </Button>
+          )}
         </div>
         <p className="text-xs text-gray-500 mt-1">
           {isMobile ? 'Press Enter to send. For emergencies call 102 or 108.' : 'Press Enter to send, Shift+Enter for a new line. For emergencies call 102 or 108.'}
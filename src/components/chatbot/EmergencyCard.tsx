@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Hospital, Loader2, Phone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { EmergencyAlert } from '@/utils/healthChatStream';
+import { getNearbyHospitalsUrl } from '@/utils/geo';
+
+type EmergencyCardProps = {
+  alert: EmergencyAlert;
+};
+
+// Don't keep someone in an emergency waiting on a slow location fix
+const LOCATION_TIMEOUT_MS = 5000;
+
+const EmergencyCard = ({ alert }: EmergencyCardProps) => {
+  const [isLocating, setIsLocating] = useState(false);
+
+  const findNearestHospital = () => {
+    // Open the tab straight away so popup blockers allow it, then point it at the search
+    const tab = window.open('', '_blank');
+    const openSearch = (url: string) => {
+      if (tab) tab.location.href = url;
+      else window.location.href = url;
+      setIsLocating(false);
+    };
+
+    if (!navigator.geolocation) {
+      openSearch(getNearbyHospitalsUrl());
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => openSearch(getNearbyHospitalsUrl({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+      })),
+      (error) => {
+        console.error("Error getting location:", error);
+        openSearch(getNearbyHospitalsUrl());
+      },
+      { enableHighAccuracy: true, timeout: LOCATION_TIMEOUT_MS }
+    );
+  };
+
+  return (
+    <div
+      role="alert"
+      className="w-full rounded-lg border-2 border-red-500 bg-red-50 p-3 animate-fade-in"
+    >
+      <div className="flex items-center text-red-700">
+        <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+        <h3 className="text-sm font-semibold">{alert.title}</h3>
+      </div>
+      <p className="text-xs text-red-900 mt-1">{alert.advice}</p>
+
+      <div className="mt-3 grid gap-2">
+        {alert.contacts.map(contact => (
+          <Button key={contact.number} asChild className="bg-red-600 hover:bg-red-700 justify-start">
+            <a href={`tel:${contact.number}`}>
+              <Phone size={16} className="mr-2" />
+              Call {contact.number}
+              <span className="ml-1 font-normal opacity-90">· {contact.label}</span>
+            </a>
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          className="border-red-500 text-red-700 hover:bg-red-100 justify-start"
+          onClick={findNearestHospital}
+          disabled={isLocating}
+        >
+          {isLocating ? (
+            <Loader2 size={16} className="mr-2 animate-spin" />
+          ) : (
+            <Hospital size={16} className="mr-2" />
+          )}
+          Find the nearest hospital
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyCard;
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ConsultationChatMessage } from '@/types/consultation';
+import type { UserRole } from '@/types/profile';
+import { MAX_CHAT_MESSAGE_LENGTH, splitMessageLinks } from '@/utils/consultationChat';
+
+interface CallChatPanelProps {
+  messages: ConsultationChatMessage[];
+  // The current user's side, to tell their messages apart
+  role: UserRole;
+  peerName: string;
+  isReady: boolean;
+  // Returns false when the message couldn't be sent
+  onSend: (text: string) => boolean;
+}
+
+const CallChatPanel = ({ messages, role, peerName, isReady, onSend }: CallChatPanelProps) => {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+
+    if (onSend(text)) {
+      setDraft('');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full border rounded-md">
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Share links or spell out medicine names here. Messages are saved with the consultation.
+          </p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.sender === role;
+            return (
+              <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+                    isOwn ? 'bg-health-primary text-white' : 'bg-gray-100 text-gray-900'
+                  }`}
+                >
+                  {splitMessageLinks(message.text).map((part, index) =>
+                    part.href ? (
+                      <a key={index} href={part.href} target="_blank" rel="noopener noreferrer" className="underline">
+                        {part.text}
+                      </a>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground mt-1">
+                  {isOwn ? 'You' : peerName} · {format(new Date(message.sentAt), 'h:mm a')}
+                </span>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 border-t p-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={isReady ? 'Type a message' : 'Chat connects with the call...'}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          disabled={!isReady}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          className="bg-health-primary hover:bg-health-primary/90 flex-shrink-0"
+          disabled={!isReady || !draft.trim()}
+          aria-label="Send message"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default CallChatPanel;
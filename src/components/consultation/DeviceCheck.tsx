@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { MediaDeviceSelection } from '@/types/consultation';
+import { getAudioLevel, getMediaConstraints } from '@/utils/mediaDevices';
+
+interface DeviceCheckProps {
+  joinLabel: string;
+  isJoining: boolean;
+  onJoin: (selection: MediaDeviceSelection) => void;
+}
+
+const DeviceCheck = ({ joinLabel, isJoining, onJoin }: DeviceCheckProps) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selection, setSelection] = useState<MediaDeviceSelection>({ videoDeviceId: null, audioDeviceId: null });
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [micLevel, setMicLevel] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Restart the preview whenever a different camera or microphone is picked
+  useEffect(() => {
+    let cancelled = false;
+    let preview: MediaStream | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia(getMediaConstraints(selection))
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        preview = mediaStream;
+        setStream(mediaStream);
+        setError(null);
+        // Device labels are only filled in once the user has granted access
+        setDevices(await navigator.mediaDevices.enumerateDevices());
+      })
+      .catch((mediaError) => {
+        console.error('Error accessing media devices:', mediaError);
+        if (!cancelled) {
+          setStream(null);
+          setError('Could not access your camera or microphone. Check your browser permissions and try again.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      preview?.getTracks().forEach(track => track.stop());
+    };
+  }, [selection]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) return;
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame: number;
+
+    const measure = () => {
+      analyser.getByteTimeDomainData(samples);
+      setMicLevel(getAudioLevel(samples));
+      frame = requestAnimationFrame(measure);
+    };
+    measure();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audioContext.close();
+      setMicLevel(0);
+    };
+  }, [stream]);
+
+  const cameras = devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+  const microphones = devices.filter(device => device.kind === 'audioinput' && device.deviceId);
+  const currentVideoId = selection.videoDeviceId || stream?.getVideoTracks()[0]?.getSettings().deviceId || '';
+  const currentAudioId = selection.audioDeviceId || stream?.getAudioTracks()[0]?.getSettings().deviceId || '';
+
+  return (
+    <div className="flex flex-col gap-4 md:flex-row">
+      <div className="flex-1 relative bg-black rounded-md overflow-hidden min-h-[240px]">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-white">
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="w-full md:w-64 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="camera" className="flex items-center gap-1">
+            <Video className="h-4 w-4" /> Camera
+          </Label>
+          <Select
+            value={currentVideoId}
+            onValueChange={(value) => setSelection(prev => ({ ...prev, videoDeviceId: value }))}
+            disabled={cameras.length === 0}
+          >
+            <SelectTrigger id="camera">
+              <SelectValue placeholder="No camera found" />
+            </SelectTrigger>
+            <SelectContent>
+              {cameras.map((camera, index) => (
+                <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="microphone" className="flex items-center gap-1">
+            <Mic className="h-4 w-4" /> Microphone
+          </Label>
+          <Select
+            value={currentAudioId}
+            onValueChange={(value) => setSelection(prev => ({ ...prev, audioDeviceId: value }))}
+            disabled={microphones.length === 0}
+          >
+            <SelectTrigger id="microphone">
+              <SelectValue placeholder="No microphone found" />
+            </SelectTrigger>
+            <SelectContent>
+              {microphones.map((microphone, index) => (
+                <SelectItem key={microphone.deviceId} value={microphone.deviceId}>
+                  {microphone.label || `Microphone ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Progress value={micLevel} className="h-2" aria-label="Microphone level" />
+          <p className="text-xs text-muted-foreground">Speak to check the bar moves.</p>
+        </div>
+
+        <Button
+          className="w-full bg-health-primary hover:bg-health-primary/90"
+          onClick={() => onJoin({ videoDeviceId: currentVideoId || null, audioDeviceId: currentAudioId || null })}
+          disabled={!stream || isJoining}
+        >
+          {isJoining ? "Joining..." : joinLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceCheck;
@@ -0,0 +1,77 @@
+import { isBefore } from 'date-fns';
+import { Check, CheckCheck, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useUpdateAppointmentStatus } from '@/hooks/use-appointments';
+import type { Appointment, AppointmentStatus } from '@/types/appointment';
+import { APPOINTMENT_STATUS_DEFINITIONS, canTransition } from '@/utils/appointmentStatus';
+
+interface AppointmentStatusActionsProps {
+  appointment: Appointment;
+  now?: Date;
+}
+
+const AppointmentStatusActions = ({ appointment, now = new Date() }: AppointmentStatusActionsProps) => {
+  const { toast } = useToast();
+  const updateStatus = useUpdateAppointmentStatus();
+  // Completion and no-shows only make sense once the slot has started
+  const hasStarted = !isBefore(now, new Date(appointment.appointmentDate));
+
+  const handleUpdate = async (status: AppointmentStatus) => {
+    try {
+      await updateStatus.mutateAsync({ appointment, status });
+      toast({
+        title: "Appointment updated",
+        description: `${appointment.patientName || 'The appointment'} is now marked as ${APPOINTMENT_STATUS_DEFINITIONS[status].label.toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Error updating appointment status:', error);
+      toast({
+        title: "Could not update appointment",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {canTransition(appointment.status, 'confirmed') && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleUpdate('confirmed')}
+          disabled={updateStatus.isPending}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Confirm
+        </Button>
+      )}
+      {hasStarted && canTransition(appointment.status, 'completed') && (
+        <Button
+          size="sm"
+          className="bg-health-primary hover:bg-health-primary/90"
+          onClick={() => handleUpdate('completed')}
+          disabled={updateStatus.isPending}
+        >
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Complete
+        </Button>
+      )}
+      {hasStarted && canTransition(appointment.status, 'no_show') && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-500 hover:text-red-600"
+          onClick={() => handleUpdate('no_show')}
+          disabled={updateStatus.isPending}
+        >
+          <UserX className="h-4 w-4 mr-1" />
+          No-show
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AppointmentStatusActions;
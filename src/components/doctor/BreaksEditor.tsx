@@ -0,0 +1,87 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ScheduleBreak, Weekday } from '@/types/schedule';
+import { WEEKDAY_LABELS, WEEKDAYS } from '@/utils/appointmentSlots';
+
+const EVERY_DAY = 'every-day';
+
+interface BreaksEditorProps {
+  breaks: ScheduleBreak[];
+  onChange: (breaks: ScheduleBreak[]) => void;
+  disabled?: boolean;
+}
+
+const BreaksEditor = ({ breaks, onChange, disabled }: BreaksEditorProps) => {
+  const updateBreak = (index: number, changes: Partial<ScheduleBreak>) => {
+    onChange(breaks.map((scheduleBreak, i) => (i === index ? { ...scheduleBreak, ...changes } : scheduleBreak)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {breaks.length === 0 && (
+        <p className="text-sm text-muted-foreground">No breaks. Patients can book straight through your sessions.</p>
+      )}
+
+      {breaks.map((scheduleBreak, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-3">
+          <Select
+            value={scheduleBreak.weekday === null ? EVERY_DAY : scheduleBreak.weekday.toString()}
+            onValueChange={value => updateBreak(index, { weekday: value === EVERY_DAY ? null : Number(value) as Weekday })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={EVERY_DAY}>Every day</SelectItem>
+              {WEEKDAYS.map(weekday => (
+                <SelectItem key={weekday} value={weekday.toString()}>{WEEKDAY_LABELS[weekday]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="time"
+            className="w-32"
+            value={scheduleBreak.start}
+            onChange={event => updateBreak(index, { start: event.target.value })}
+            disabled={disabled}
+            aria-label="Break start"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="time"
+            className="w-32"
+            value={scheduleBreak.end}
+            onChange={event => updateBreak(index, { end: event.target.value })}
+            disabled={disabled}
+            aria-label="Break end"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 text-red-500 hover:text-red-600"
+            onClick={() => onChange(breaks.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label="Remove break"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...breaks, { weekday: null, start: '13:00', end: '14:00' }])}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add break
+      </Button>
+    </div>
+  );
+};
+
+export default BreaksEditor;
@@ -0,0 +1,59 @@
+import { format, isBefore, parseISO, startOfDay } from 'date-fns';
+import { X } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+
+interface LeaveDaysEditorProps {
+  // Dates in "yyyy-MM-dd" format
+  leaveDays: string[];
+  onChange: (leaveDays: string[]) => void;
+  disabled?: boolean;
+}
+
+const LeaveDaysEditor = ({ leaveDays, onChange, disabled }: LeaveDaysEditorProps) => {
+  const today = startOfDay(new Date());
+  // Past leave stays stored but isn't worth showing
+  const upcoming = leaveDays.filter(day => !isBefore(parseISO(day), today)).sort();
+  const past = leaveDays.filter(day => isBefore(parseISO(day), today));
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <Calendar
+        mode="multiple"
+        selected={upcoming.map(day => parseISO(day))}
+        onSelect={dates => onChange([...past, ...(dates || []).map(date => format(date, 'yyyy-MM-dd'))])}
+        disabled={disabled ? true : { before: today }}
+        className="rounded-md border self-start"
+      />
+
+      <div className="flex-1">
+        <h4 className="font-medium mb-2">Upcoming leave</h4>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No leave planned. Pick dates on the calendar to block them out.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {upcoming.map(day => (
+              <li key={day} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                {format(parseISO(day), 'EEEE, MMMM d, yyyy')}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => onChange(leaveDays.filter(leaveDay => leaveDay !== day))}
+                  disabled={disabled}
+                  aria-label="Remove leave day"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LeaveDaysEditor;
@@ -0,0 +1,140 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { DoctorSchedule, SessionConsultationType, Weekday, WorkingSession } from '@/types/schedule';
+import { SESSION_CONSULTATION_TYPES, WEEKDAY_LABELS, WEEKDAYS } from '@/utils/appointmentSlots';
+
+const TYPE_LABELS: Record<SessionConsultationType, string> = {
+  'in-person': 'In-person',
+  video: 'Video',
+};
+
+// Adds hours to an "HH:mm" time without running past the end of the day
+const addHours = (time: string, hours: number) => {
+  const [h, m] = time.split(':').map(Number);
+  const minutes = Math.min(h * 60 + m + hours * 60, 23 * 60 + 59);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+interface WeeklyHoursEditorProps {
+  weeklyHours: DoctorSchedule['weeklyHours'];
+  onChange: (weeklyHours: DoctorSchedule['weeklyHours']) => void;
+  disabled?: boolean;
+}
+
+const WeeklyHoursEditor = ({ weeklyHours, onChange, disabled }: WeeklyHoursEditorProps) => {
+  const setSessions = (weekday: Weekday, sessions: WorkingSession[]) => {
+    onChange({ ...weeklyHours, [weekday]: sessions });
+  };
+
+  const updateSession = (weekday: Weekday, index: number, changes: Partial<WorkingSession>) => {
+    const sessions = weeklyHours[weekday] || [];
+    setSessions(weekday, sessions.map((session, i) => (i === index ? { ...session, ...changes } : session)));
+  };
+
+  const toggleType = (weekday: Weekday, index: number, type: SessionConsultationType, checked: boolean) => {
+    const session = (weeklyHours[weekday] || [])[index];
+    updateSession(weekday, index, {
+      consultationTypes: checked
+        ? SESSION_CONSULTATION_TYPES.filter(t => t === type || session.consultationTypes.includes(t))
+        : session.consultationTypes.filter(t => t !== type),
+    });
+  };
+
+  const addSession = (weekday: Weekday) => {
+    const sessions = weeklyHours[weekday] || [];
+    // Follow on from the day's last session where there is one
+    const last = sessions[sessions.length - 1];
+    setSessions(weekday, [
+      ...sessions,
+      last
+        ? { start: last.end, end: addHours(last.end, 2), consultationTypes: [...last.consultationTypes] }
+        : { start: '09:00', end: '17:00', consultationTypes: [...SESSION_CONSULTATION_TYPES] },
+    ]);
+  };
+
+  return (
+    <div className="divide-y">
+      {WEEKDAYS.map(weekday => {
+        const sessions = weeklyHours[weekday] || [];
+        const isOpen = sessions.length > 0;
+
+        return (
+          <div key={weekday} className="py-4 flex flex-col md:flex-row md:items-start gap-3">
+            <div className="flex items-center gap-3 md:w-40 shrink-0">
+              <Switch
+                id={`weekday-${weekday}`}
+                checked={isOpen}
+                onCheckedChange={checked => (checked ? addSession(weekday) : setSessions(weekday, []))}
+                disabled={disabled}
+              />
+              <Label htmlFor={`weekday-${weekday}`} className="font-medium">
+                {WEEKDAY_LABELS[weekday]}
+              </Label>
+            </div>
+
+            {isOpen ? (
+              <div className="flex-1 space-y-2">
+                {sessions.map((session, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-3">
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={session.start}
+                      onChange={event => updateSession(weekday, index, { start: event.target.value })}
+                      disabled={disabled}
+                      aria-label={`${WEEKDAY_LABELS[weekday]} session start`}
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={session.end}
+                      onChange={event => updateSession(weekday, index, { end: event.target.value })}
+                      disabled={disabled}
+                      aria-label={`${WEEKDAY_LABELS[weekday]} session end`}
+                    />
+                    {SESSION_CONSULTATION_TYPES.map(type => (
+                      <div key={type} className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`weekday-${weekday}-${index}-${type}`}
+                          checked={session.consultationTypes.includes(type)}
+                          onCheckedChange={checked => toggleType(weekday, index, type, checked === true)}
+                          disabled={disabled}
+                        />
+                        <Label htmlFor={`weekday-${weekday}-${index}-${type}`} className="text-sm font-normal">
+                          {TYPE_LABELS[type]}
+                        </Label>
+                      </div>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 px-2 text-red-500 hover:text-red-600"
+                      onClick={() => setSessions(weekday, sessions.filter((_, i) => i !== index))}
+                      disabled={disabled}
+                      aria-label="Remove session"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => addSession(weekday)} disabled={disabled}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add session
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground md:pt-2">Closed</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WeeklyHoursEditor;
@@ -0,0 +1,63 @@
+import { ExternalLink } from 'lucide-react';
+import { GoogleMap, useLoadScript, Marker, Libraries } from '@react-google-maps/api';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Coordinates } from '@/types/doctor';
+
+// Must match the libraries the doctor search map loads
+const libraries: Libraries = ['places'];
+
+const mapContainerStyle = {
+  width: '100%',
+  height: '240px',
+  borderRadius: '0.5rem'
+};
+
+interface ClinicMapProps {
+  coordinates: Coordinates;
+  label: string;
+}
+
+const ClinicMap = ({ coordinates, label }: ClinicMapProps) => {
+  const { isLoaded, loadError } = useLoadScript({
+    googleMapsApiKey: "YOUR_API_KEY",
+    libraries: libraries
+  });
+
+  const directionsUrl = `https://www.google.com/maps/dir/?api=1&destination=${coordinates.lat},${coordinates.lng}`;
+
+  return (
+    <div className="space-y-2">
+      {loadError ? (
+        <Alert variant="destructive">
+          <AlertDescription>Error loading Google Maps. Please try again later.</AlertDescription>
+        </Alert>
+      ) : !isLoaded ? (
+        <Skeleton className="w-full h-[240px] rounded-lg" />
+      ) : (
+        <GoogleMap
+          mapContainerStyle={mapContainerStyle}
+          center={coordinates}
+          zoom={15}
+          options={{
+            streetViewControl: false,
+            mapTypeControl: false,
+          }}
+        >
+          <Marker position={coordinates} title={label} />
+        </GoogleMap>
+      )}
+      <a
+        href={directionsUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-sm text-health-primary hover:underline"
+      >
+        Get directions
+        <ExternalLink className="h-3 w-3" />
+      </a>
+    </div>
+  );
+};
+
+export default ClinicMap;
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger
+} from '@/components/ui/sheet';
+import { Switch } from '@/components/ui/switch';
+import type { DoctorFilters, DoctorGender } from '@/types/doctor';
+import type { SessionConsultationType } from '@/types/schedule';
+import { CONSULTATION_TYPE_LABELS } from '@/utils/appointmentStatus';
+import { SESSION_CONSULTATION_TYPES } from '@/utils/appointmentSlots';
+import {
+  DOCTOR_GENDER_LABELS, DOCTOR_LANGUAGES, MIN_EXPERIENCE_OPTIONS, MIN_RATING_OPTIONS, countActiveFilters
+} from '@/utils/doctorFilters';
+
+const ANY = 'any';
+
+const toFee = (value: string): number | null => (value === '' ? null : Math.max(0, Math.round(Number(value))));
+
+interface DoctorFiltersSheetProps {
+  filters: DoctorFilters;
+  onApply: (filters: DoctorFilters) => void;
+  // Hidden where the page already fixes the consultation mode
+  showModeFilter?: boolean;
+}
+
+const DoctorFiltersSheet = ({ filters, onApply, showModeFilter = true }: DoctorFiltersSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DoctorFilters>(filters);
+
+  const activeCount = countActiveFilters(filters);
+  const feeError = draft.minFee !== null && draft.maxFee !== null && draft.minFee > draft.maxFee
+    ? 'Minimum fee must not be more than the maximum'
+    : null;
+
+  const update = (changes: Partial<DoctorFilters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleOpenChange = (value: boolean) => {
+    // Start from the filters in use, discarding anything left unapplied last time
+    if (value) setDraft(filters);
+    setOpen(value);
+  };
+
+  const toggleLanguage = (language: string, checked: boolean) => {
+    update({
+      languages: checked
+        ? [...draft.languages, language]
+        : draft.languages.filter(item => item !== language),
+    });
+  };
+
+  const handleApply = () => {
+    onApply(draft);
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    setDraft({
+      ...draft,
+      minFee: null,
+      maxFee: null,
+      minRating: null,
+      minExperience: null,
+      languages: [],
+      gender: null,
+      mode: null,
+      availableToday: false,
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Filter className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && (
+            <span className="rounded-full bg-health-primary px-2 py-0.5 text-xs text-white">{activeCount}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filter doctors</SheetTitle>
+          <SheetDescription>Narrow the list down to doctors who suit you.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 py-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="available-today">Available today</Label>
+            <Switch
+              id="available-today"
+              checked={draft.availableToday}
+              onCheckedChange={checked => update({ availableToday: checked })}
+            />
+          </div>
+
+          {showModeFilter && (
+            <div className="space-y-2">
+              <Label>Consultation mode</Label>
+              <Select
+                value={draft.mode || ANY}
+                onValueChange={value => update({ mode: value === ANY ? null : value as SessionConsultationType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {SESSION_CONSULTATION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CONSULTATION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Consultation fee (₹)</Label>
+            <div className="flex items-center gap-3">
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={draft.minFee ?? ''}
+                onChange={event => update({ minFee: toFee(event.target.value) })}
+                aria-label="Minimum fee"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max"
+                value={draft.maxFee ?? ''}
+                onChange={event => update({ maxFee: toFee(event.target.value) })}
+                aria-label="Maximum fee"
+              />
+            </div>
+            {feeError && <p className="text-sm text-red-500">{feeError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <Select
+              value={draft.minRating === null ? ANY : draft.minRating.toString()}
+              onValueChange={value => update({ minRating: value === ANY ? null : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any rating</SelectItem>
+                {MIN_RATING_OPTIONS.map(rating => (
+                  <SelectItem key={rating} value={rating.toString()}>{rating}★ and above</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Experience</Label>
+            <Select
+              value={draft.minExperience === null ? ANY : draft.minExperience.toString()}
+              onValueChange={value => update({ minExperience: value === ANY ? null : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any experience</SelectItem>
+                {MIN_EXPERIENCE_OPTIONS.map(years => (
+                  <SelectItem key={years} value={years.toString()}>{years}+ years</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Gender</Label>
+            <Select
+              value={draft.gender || ANY}
+              onValueChange={value => update({ gender: value === ANY ? null : value as DoctorGender })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {Object.entries(DOCTOR_GENDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Languages spoken</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {DOCTOR_LANGUAGES.map(language => (
+                <label key={language} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.languages.includes(language)}
+                    onCheckedChange={checked => toggleLanguage(language, checked === true)}
+                  />
+                  {language}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={handleClear}>
+            Clear all
+          </Button>
+          <Button
+            className="bg-health-primary hover:bg-health-primary/90"
+            onClick={handleApply}
+            disabled={!!feeError}
+          >
+            Show results
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DoctorFiltersSheet;
@@ -0,0 +1,68 @@
+import { format, isToday, isTomorrow, startOfDay } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { MapPin, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useBookedSlots } from '@/hooks/use-appointments';
+import { useDoctorSchedule } from '@/hooks/use-doctor-schedule';
+import type { Doctor } from '@/types/doctor';
+import { findNextAvailableSlots, getBookingPath } from '@/utils/appointmentSlots';
+
+// How far ahead to look, and how many slots to offer
+const LOOKAHEAD_DAYS = 14;
+const SLOT_COUNT = 8;
+
+const formatSlotDay = (date: Date) =>
+  isToday(date) ? 'Today' : isTomorrow(date) ? 'Tomorrow' : format(date, 'EEE, MMM d');
+
+interface NextAvailableSlotsProps {
+  doctor: Doctor;
+}
+
+const NextAvailableSlots = ({ doctor }: NextAvailableSlotsProps) => {
+  const today = startOfDay(new Date());
+  const { data: schedule, isLoading: isScheduleLoading } = useDoctorSchedule(doctor.name);
+  const { data: bookedSlots = [], isLoading: isBookedLoading } = useBookedSlots(doctor.name, today, LOOKAHEAD_DAYS);
+
+  if (isScheduleLoading || isBookedLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  const slots = schedule ? findNextAvailableSlots(schedule, today, LOOKAHEAD_DAYS, bookedSlots, SLOT_COUNT) : [];
+
+  if (slots.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-4">
+        No open slots in the next {LOOKAHEAD_DAYS} days.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+      {slots.map(slot => (
+        <Button
+          key={slot.start.toISOString()}
+          asChild
+          variant="outline"
+          className="h-auto flex-col items-start py-2 hover:border-health-primary hover:text-health-primary"
+        >
+          <Link to={getBookingPath(doctor.id, slot)}>
+            <span className="text-xs text-gray-500">{formatSlotDay(slot.start)}</span>
+            <span className="font-medium">{format(slot.start, 'h:mm a')}</span>
+            <span className="flex gap-1 text-gray-400">
+              {slot.consultationTypes.includes('in-person') && (
+                <MapPin className="h-3 w-3" aria-label="In-person" />
+              )}
+              {slot.consultationTypes.includes('video') && (
+                <Video className="h-3 w-3" aria-label="Video" />
+              )}
+            </span>
+          </Link>
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default NextAvailableSlots;
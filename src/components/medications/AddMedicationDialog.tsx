@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Wand2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import InteractionWarnings from '@/components/medications/InteractionWarnings';
+import { useToast } from '@/hooks/use-toast';
+import { useAddMedication, useMedications } from '@/hooks/use-medications';
+import { useAllergies } from '@/hooks/use-allergies';
+import type { MedicationFrequency } from '@/types/medication';
+import { checkMedication, isKnownDrug } from '@/utils/drugInteractions';
+import {
+  FREQUENCIES, FREQUENCY_DEFINITIONS, getEndDateForDuration, parseRegimen
+} from '@/utils/medicationSchedule';
+
+interface AddMedicationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const AddMedicationDialog = ({ open, onOpenChange }: AddMedicationDialogProps) => {
+  const { toast } = useToast();
+  const addMedication = useAddMedication();
+  const { data: medications = [] } = useMedications();
+  const { data: allergies = [] } = useAllergies();
+  const [regimen, setRegimen] = useState('');
+  const [name, setName] = useState('');
+  const [dosage, setDosage] = useState('');
+  const [frequency, setFrequency] = useState<MedicationFrequency>('once_daily');
+  const [doseTimes, setDoseTimes] = useState<string[]>(FREQUENCY_DEFINITIONS.once_daily.defaultTimes);
+  const [startDate, setStartDate] = useState(today());
+  const [durationDays, setDurationDays] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [acknowledgedRisk, setAcknowledgedRisk] = useState(false);
+
+  const trimmedName = name.trim();
+  const warnings = trimmedName ? checkMedication(trimmedName, { medications, allergies }) : [];
+  const hasMajorWarning = warnings.some(warning => warning.severity === 'major');
+
+  useEffect(() => {
+    if (!open) return;
+
+    setRegimen('');
+    setName('');
+    setDosage('');
+    setFrequency('once_daily');
+    setDoseTimes(FREQUENCY_DEFINITIONS.once_daily.defaultTimes);
+    setStartDate(today());
+    setDurationDays('');
+    setInstructions('');
+    setAcknowledgedRisk(false);
+  }, [open]);
+
+  // A different drug needs its own acknowledgement
+  useEffect(() => {
+    setAcknowledgedRisk(false);
+  }, [name]);
+
+  const handleFrequencyChange = (value: MedicationFrequency) => {
+    setFrequency(value);
+    setDoseTimes(FREQUENCY_DEFINITIONS[value].defaultTimes);
+  };
+
+  // Fill the structured fields from a free-text regimen like "500mg twice daily, for 30 days"
+  const applyRegimen = () => {
+    const parsed = parseRegimen(regimen);
+
+    if (!parsed.dosage && !parsed.frequency && !parsed.durationDays) {
+      toast({
+        title: "Couldn't read regimen",
+        description: 'Try something like "500mg twice daily, for 30 days"',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (parsed.dosage) setDosage(parsed.dosage);
+    if (parsed.frequency) handleFrequencyChange(parsed.frequency);
+    if (parsed.durationDays) setDurationDays(String(parsed.durationDays));
+  };
+
+  const handleDoseTimeChange = (index: number, value: string) => {
+    setDoseTimes(prev => prev.map((time, i) => (i === index ? value : time)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const duration = durationDays ? parseInt(durationDays, 10) : null;
+    if (duration !== null && (Number.isNaN(duration) || duration < 1)) {
+      toast({
+        title: "Invalid duration",
+        description: "Duration must be at least one day",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await addMedication.mutateAsync({
+        name: name.trim(),
+        dosage: dosage.trim(),
+        frequency,
+        doseTimes,
+        startDate,
+        endDate: duration ? getEndDateForDuration(startDate, duration) : null,
+        instructions: instructions.trim(),
+      });
+
+      toast({
+        title: "Medication added",
+        description: `${name.trim()} has been added to your schedule`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adding medication:', error);
+      toast({
+        title: "Could not add medication",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add medication</DialogTitle>
+          <DialogDescription>
+            Describe how you take it and we'll build your dose schedule
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="medication-regimen">Quick entry (optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="medication-regimen"
+                placeholder="500mg twice daily, for 30 days"
+                value={regimen}
+                onChange={(e) => setRegimen(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={applyRegimen} disabled={!regimen.trim()}>
+                <Wand2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="medication-name">Medication name</Label>
+            <Input
+              id="medication-name"
+              placeholder="Metformin"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+            <InteractionWarnings warnings={warnings} compact />
+            {trimmedName.length > 2 && !isKnownDrug(trimmedName) && (
+              <p className="text-xs text-muted-foreground">
+                Not in the offline interaction list, so it can't be checked against your other medications.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication-dosage">Dosage</Label>
+              <Input
+                id="medication-dosage"
+                placeholder="500mg"
+                value={dosage}
+                onChange={(e) => setDosage(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-frequency">Frequency</Label>
+              <Select value={frequency} onValueChange={handleFrequencyChange}>
+                <SelectTrigger id="medication-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCIES.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {FREQUENCY_DEFINITIONS[option].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {doseTimes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Dose times</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {doseTimes.map((time, index) => (
+                  <Input
+                    key={index}
+                    type="time"
+                    value={time}
+                    onChange={(e) => handleDoseTimeChange(index, e.target.value)}
+                    required
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication-start">Start date</Label>
+              <Input
+                id="medication-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication-duration">Duration (days)</Label>
+              <Input
+                id="medication-duration"
+                type="number"
+                min={1}
+                placeholder="Ongoing"
+                value={durationDays}
+                onChange={(e) => setDurationDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="medication-instructions">Instructions (optional)</Label>
+            <Textarea
+              id="medication-instructions"
+              rows={2}
+              placeholder="e.g. take with food"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+            />
+          </div>
+
+          {hasMajorWarning && (
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="medication-acknowledge"
+                checked={acknowledgedRisk}
+                onCheckedChange={(checked) => setAcknowledgedRisk(checked === true)}
+              />
+              <Label htmlFor="medication-acknowledge" className="text-sm font-normal leading-snug">
+                My doctor or pharmacist knows I take this together with the medications or allergies above
+              </Label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={addMedication.isPending}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-health-primary hover:bg-health-primary/90"
+              disabled={addMedication.isPending || (hasMajorWarning && !acknowledgedRisk)}
+            >
+              {addMedication.isPending ? "Saving..." : "Add medication"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddMedicationDialog;
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DoseLog, Medication } from '@/types/medication';
+import { ADHERENCE_WINDOWS, AdherenceWindow, calculateAdherence } from '@/utils/adherence';
+
+interface AdherenceCardProps {
+  medications: Medication[];
+  logs: DoseLog[];
+}
+
+const formatPercent = (percent: number | null) => (percent === null ? '--' : `${percent}%`);
+
+const AdherenceCard = ({ medications, logs }: AdherenceCardProps) => {
+  const [days, setDays] = useState<AdherenceWindow>(7);
+  const { overall, byMedication } = calculateAdherence(medications, logs, days);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Adherence</CardTitle>
+        <Select value={String(days)} onValueChange={value => setDays(Number(value) as AdherenceWindow)}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ADHERENCE_WINDOWS.map(window => (
+              <SelectItem key={window} value={String(window)}>Last {window} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {overall.due === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No doses were due in the last {days} days.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-baseline justify-between mb-2">
+                <span className="font-medium">Overall</span>
+                <span className="text-2xl font-bold">{formatPercent(overall.percent)}</span>
+              </div>
+              <Progress value={overall.percent ?? 0} />
+              <p className="text-xs text-muted-foreground mt-2">
+                {overall.taken} taken · {overall.late} late · {overall.skipped} skipped · {overall.missed} not logged
+              </p>
+            </div>
+
+            {byMedication.map(stats => (
+              <div key={stats.medicationId}>
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="text-sm">{stats.medicationName}</span>
+                  <span className="text-sm font-medium">{formatPercent(stats.percent)}</span>
+                </div>
+                <Progress value={stats.percent ?? 0} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdherenceCard;
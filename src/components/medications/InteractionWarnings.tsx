@@ -0,0 +1,44 @@
+import { AlertTriangle, Info } from 'lucide-react';
+import type { InteractionSeverity, InteractionWarning } from '@/types/interactions';
+import { SEVERITY_LABELS } from '@/utils/drugInteractions';
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+  compact?: boolean;
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, { container: string; icon: string }> = {
+  major: { container: 'bg-red-50 border-red-200 text-red-900', icon: 'text-red-500' },
+  moderate: { container: 'bg-amber-50 border-amber-200 text-amber-900', icon: 'text-amber-500' },
+  minor: { container: 'bg-blue-50 border-blue-200 text-blue-900', icon: 'text-blue-500' },
+};
+
+const InteractionWarnings = ({ warnings, compact = false }: InteractionWarningsProps) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {warnings.map(warning => {
+        const styles = SEVERITY_STYLES[warning.severity];
+        const Icon = warning.severity === 'minor' ? Info : AlertTriangle;
+
+        return (
+          <div
+            key={`${warning.type}-${warning.conflictsWith}`}
+            className={`flex gap-2 rounded-md border ${compact ? 'p-2 text-xs' : 'p-3 text-sm'} ${styles.container}`}
+          >
+            <Icon className={`h-4 w-4 shrink-0 mt-0.5 ${styles.icon}`} />
+            <div>
+              <p className="font-medium">
+                {SEVERITY_LABELS[warning.severity]} {warning.type === 'allergy' ? 'allergy risk' : 'interaction'} with {warning.conflictsWith}
+              </p>
+              <p>{warning.description}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default InteractionWarnings;
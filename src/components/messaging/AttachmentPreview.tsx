@@ -0,0 +1,46 @@
+import { FileText } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAttachmentUrl } from '@/hooks/use-conversations';
+import type { MessageAttachment } from '@/types/messaging';
+import { formatFileSize } from '@/utils/attachments';
+
+interface AttachmentPreviewProps {
+  attachment: MessageAttachment;
+  onOpen: (attachment: MessageAttachment) => void;
+}
+
+// Thumbnail for images, a file card for PDFs and images without a preview
+const AttachmentPreview = ({ attachment, onOpen }: AttachmentPreviewProps) => {
+  const { data: thumbnailUrl, isLoading } = useAttachmentUrl(attachment.thumbnailPath);
+
+  if (attachment.thumbnailPath) {
+    return (
+      <button onClick={() => onOpen(attachment)} className="block" aria-label={`Open ${attachment.name}`}>
+        {isLoading || !thumbnailUrl ? (
+          <Skeleton className="h-40 w-40 rounded-md" />
+        ) : (
+          <img
+            src={thumbnailUrl}
+            alt={attachment.name}
+            className="max-h-48 max-w-[12rem] rounded-md object-cover"
+          />
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => onOpen(attachment)}
+      className="flex items-center gap-3 rounded-md bg-white/90 px-3 py-2 text-left text-gray-800"
+    >
+      <FileText className="h-8 w-8 text-health-primary flex-shrink-0" />
+      <span className="min-w-0">
+        <span className="block truncate text-sm font-medium">{attachment.name}</span>
+        <span className="block text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+      </span>
+    </button>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,48 @@
+import { ArrowLeft, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useAttachmentUrl } from '@/hooks/use-conversations';
+import type { MessageAttachment } from '@/types/messaging';
+import { isImageAttachment } from '@/utils/attachments';
+
+interface AttachmentViewerProps {
+  attachment: MessageAttachment;
+  onClose: () => void;
+}
+
+// Shows a photo or PDF over the thread, without leaving the chat
+const AttachmentViewer = ({ attachment, onClose }: AttachmentViewerProps) => {
+  const { data: url, isLoading, error } = useAttachmentUrl(attachment.path);
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col bg-white">
+      <div className="flex items-center gap-2 border-b px-4 py-2">
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Back to messages">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <span className="flex-1 truncate text-sm font-medium">{attachment.name}</span>
+        {url && (
+          <Button asChild variant="ghost" size="icon" aria-label="Download">
+            <a href={url} download={attachment.name} target="_blank" rel="noopener noreferrer">
+              <Download className="h-4 w-4" />
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-100 p-2">
+        {isLoading ? (
+          <Skeleton className="h-full w-full" />
+        ) : error ? (
+          <p className="text-sm text-red-500">{error.message}</p>
+        ) : isImageAttachment(attachment.type) ? (
+          <img src={url} alt={attachment.name} className="max-h-full max-w-full object-contain" />
+        ) : (
+          <iframe src={url} title={attachment.name} className="h-full w-full rounded-md bg-white" />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentViewer;
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { Check, CheckCheck, Paperclip, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import AttachmentPreview from '@/components/messaging/AttachmentPreview';
+import AttachmentViewer from '@/components/messaging/AttachmentViewer';
+import { useToast } from '@/hooks/use-toast';
+import { useConversationMessages, useMarkConversationRead, useSendMessage } from '@/hooks/use-conversations';
+import type { MessageAttachment } from '@/types/messaging';
+import type { UserRole } from '@/types/profile';
+import { ATTACHMENT_ACCEPT, formatFileSize, validateAttachment } from '@/utils/attachments';
+import { MAX_MESSAGE_LENGTH } from '@/utils/messaging';
+
+const formatMessageTime = (date: string) => {
+  const value = new Date(date);
+  return isToday(value) ? format(value, 'h:mm a') : format(value, 'MMM d, h:mm a');
+};
+
+interface ConversationThreadProps {
+  conversationId: string;
+  // The current user's side of the conversation
+  role: UserRole;
+}
+
+const ConversationThread = ({ conversationId, role }: ConversationThreadProps) => {
+  const { toast } = useToast();
+  const { data: messages = [], isLoading, error } = useConversationMessages(conversationId);
+  const sendMessage = useSendMessage();
+  const { mutate: markRead } = useMarkConversationRead();
+  const [draft, setDraft] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [viewing, setViewing] = useState<MessageAttachment | null>(null);
+  const messageEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasUnread = messages.some(message => message.senderRole !== role && !message.readAt);
+
+  // Scroll to bottom when messages change
+  useEffect(() => {
+    messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  // Anything from the other side is read once it's on screen. Runs again only when new
+  // unread messages arrive or the thread changes.
+  useEffect(() => {
+    if (hasUnread) {
+      markRead(conversationId, {
+        onError: (markError) => console.error('Error marking messages as read:', markError),
+      });
+    }
+  }, [hasUnread, conversationId, markRead]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+    if (!selected) return;
+
+    const validationError = validateAttachment(selected);
+    if (validationError) {
+      toast({
+        title: "Can't attach this file",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() && !file) return;
+
+    try {
+      await sendMessage.mutateAsync({ conversationId, body: draft, file });
+      setDraft('');
+      setFile(null);
+    } catch (sendError) {
+      console.error('Error sending message:', sendError);
+      toast({
+        title: "Message not sent",
+        description: sendError.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Receipts are shown under the latest message the current user sent
+  const lastOwnMessageId = [...messages].reverse().find(message => message.senderRole === role)?.id;
+
+  return (
+    <div className="relative flex flex-col h-full min-h-0">
+      {viewing && <AttachmentViewer attachment={viewing} onClose={() => setViewing(null)} />}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-2/3" />
+            <Skeleton className="h-10 w-1/2 ml-auto" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error.message}</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No messages yet. Say hello!
+          </p>
+        ) : (
+          messages.map(message => {
+            const isOwn = message.senderRole === role;
+            return (
+              <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                <div
+                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
+                    isOwn ? 'bg-health-primary text-white' : 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  {message.attachment && (
+                    <div className={message.body ? 'mb-2' : ''}>
+                      <AttachmentPreview attachment={message.attachment} onOpen={setViewing} />
+                    </div>
+                  )}
+                  {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                  <p className={`flex items-center justify-end gap-1 text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+                    {formatMessageTime(message.createdAt)}
+                    {isOwn && (message.readAt
+                      ? <CheckCheck className="h-3 w-3" aria-label="Read" />
+                      : <Check className="h-3 w-3" aria-label="Sent" />)}
+                  </p>
+                </div>
+                {message.id === lastOwnMessageId && message.readAt && (
+                  <span className="text-xs text-muted-foreground mt-1">
+                    Seen {formatMessageTime(message.readAt)}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+        <div ref={messageEndRef} />
+      </div>
+
+      {file && (
+        <div className="flex items-center gap-2 border-t px-4 py-2 text-sm">
+          <Paperclip className="h-4 w-4 text-gray-400" />
+          <span className="truncate">{file.name}</span>
+          <span className="text-muted-foreground flex-shrink-0">{formatFileSize(file.size)}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto h-6 w-6"
+            onClick={() => setFile(null)}
+            disabled={sendMessage.isPending}
+            aria-label="Remove attachment"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      <form onSubmit={handleSendMessage} className="border-t p-4 flex space-x-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="rounded-full flex-shrink-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sendMessage.isPending}
+          aria-label="Attach a photo or PDF"
+        >
+          <Paperclip className="h-4 w-4" />
+        </Button>
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type your message..."
+          maxLength={MAX_MESSAGE_LENGTH}
+          className="rounded-full"
+          disabled={sendMessage.isPending}
+        />
+        <Button
+          type="submit"
+          className="rounded-full bg-health-primary hover:bg-health-primary/90"
+          disabled={(!draft.trim() && !file) || sendMessage.isPending}
+          aria-label="Send message"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { AlertTriangle, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAllergies, useDeleteAllergy } from '@/hooks/use-allergies';
+import type { Allergy } from '@/types/profile';
+import AllergyDialog from './AllergyDialog';
+
+const SEVERITY_STYLES: Record<Allergy['severity'], { container: string; icon: string }> = {
+  high: { container: 'bg-red-100', icon: 'text-red-500' },
+  medium: { container: 'bg-amber-100', icon: 'text-amber-500' },
+  low: { container: 'bg-blue-100', icon: 'text-blue-500' },
+};
+
+const AllergiesCard = () => {
+  const { toast } = useToast();
+  const { data: allergies = [], isLoading, error } = useAllergies();
+  const deleteAllergy = useDeleteAllergy();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAllergy, setEditingAllergy] = useState<Allergy | null>(null);
+  const [deletingAllergy, setDeletingAllergy] = useState<Allergy | null>(null);
+
+  const openDialog = (allergy: Allergy | null) => {
+    setEditingAllergy(allergy);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingAllergy) return;
+
+    try {
+      await deleteAllergy.mutateAsync(deletingAllergy.id);
+      toast({
+        title: "Allergy removed",
+        description: `${deletingAllergy.name} has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting allergy:', error);
+      toast({
+        title: "Could not remove allergy",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingAllergy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Allergies & Alerts</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error.message}</p>
+        ) : allergies.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No allergies recorded.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {allergies.map(allergy => (
+              <div
+                key={allergy.id}
+                className={`p-3 rounded-lg flex items-center gap-3 ${SEVERITY_STYLES[allergy.severity].container}`}
+              >
+                <AlertTriangle className={`h-5 w-5 ${SEVERITY_STYLES[allergy.severity].icon}`} />
+                <p className="font-medium flex-1">{allergy.name}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2"
+                  onClick={() => openDialog(allergy)}
+                  aria-label="Edit allergy"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-red-500 hover:text-red-600"
+                  onClick={() => setDeletingAllergy(allergy)}
+                  aria-label="Remove allergy"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AllergyDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        allergy={editingAllergy}
+      />
+
+      <AlertDialog open={!!deletingAllergy} onOpenChange={(open) => !open && setDeletingAllergy(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this allergy?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingAllergy && `${deletingAllergy.name} will no longer be checked when you add medications.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AllergiesCard;
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveAllergy } from '@/hooks/use-allergies';
+import type { Allergy } from '@/types/profile';
+
+interface AllergyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this allergy instead of adding a new one
+  allergy?: Allergy | null;
+}
+
+const ALLERGY_SEVERITY_LABELS: Record<Allergy['severity'], string> = {
+  high: 'Severe',
+  medium: 'Moderate',
+  low: 'Mild',
+};
+
+const AllergyDialog = ({ open, onOpenChange, allergy }: AllergyDialogProps) => {
+  const { toast } = useToast();
+  const saveAllergy = useSaveAllergy();
+  const [name, setName] = useState('');
+  const [severity, setSeverity] = useState<Allergy['severity']>('medium');
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(allergy?.name || '');
+    setSeverity(allergy?.severity || 'medium');
+  }, [open, allergy]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await saveAllergy.mutateAsync({
+        id: allergy?.id,
+        input: { name: name.trim(), severity },
+      });
+
+      toast({
+        title: allergy ? "Allergy updated" : "Allergy added",
+        description: `${name.trim()} will be checked when you add medications`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving allergy:', error);
+      toast({
+        title: "Could not save allergy",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{allergy ? 'Edit allergy' : 'Add allergy'}</DialogTitle>
+          <DialogDescription>
+            Record what you react to so new medications can be checked against it
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="allergy-name">Allergy</Label>
+            <Input
+              id="allergy-name"
+              placeholder="Penicillin"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="allergy-severity">Severity</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as Allergy['severity'])}>
+              <SelectTrigger id="allergy-severity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ALLERGY_SEVERITY_LABELS) as Allergy['severity'][]).map(option => (
+                  <SelectItem key={option} value={option}>{ALLERGY_SEVERITY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saveAllergy.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-health-primary hover:bg-health-primary/90" disabled={saveAllergy.isPending}>
+              {saveAllergy.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AllergyDialog;
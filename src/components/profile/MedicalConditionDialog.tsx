@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveMedicalCondition } from '@/hooks/use-medical-conditions';
+import type { MedicalCondition } from '@/types/profile';
+
+interface MedicalConditionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this condition instead of adding a new one
+  condition?: MedicalCondition | null;
+}
+
+const CONDITION_STATUSES = ['Active', 'Managed', 'Controlled', 'In remission', 'Resolved'];
+
+const MedicalConditionDialog = ({ open, onOpenChange, condition }: MedicalConditionDialogProps) => {
+  const { toast } = useToast();
+  const saveCondition = useSaveMedicalCondition();
+  const [name, setName] = useState('');
+  const [diagnosedYear, setDiagnosedYear] = useState('');
+  const [status, setStatus] = useState(CONDITION_STATUSES[0]);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(condition?.condition || '');
+    setDiagnosedYear(condition?.diagnosedYear || '');
+    setStatus(condition?.status || CONDITION_STATUSES[0]);
+  }, [open, condition]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const year = diagnosedYear.trim();
+    if (/^\d+$/.test(year) && (Number(year) < 1900 || Number(year) > new Date().getFullYear())) {
+      toast({
+        title: "Invalid year",
+        description: `Enter a year between 1900 and ${new Date().getFullYear()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveCondition.mutateAsync({
+        id: condition?.id,
+        input: { condition: name.trim(), diagnosedYear: year, status },
+      });
+
+      toast({
+        title: condition ? "Condition updated" : "Condition added",
+        description: `${name.trim()} has been saved to your medical history`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving medical condition:', error);
+      toast({
+        title: "Could not save condition",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Keep statuses entered before this list existed selectable
+  const statuses = CONDITION_STATUSES.includes(status) ? CONDITION_STATUSES : [...CONDITION_STATUSES, status];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{condition ? 'Edit condition' : 'Add condition'}</DialogTitle>
+          <DialogDescription>
+            Keep your medical history up to date for your doctors
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="condition-name">Condition</Label>
+            <Input
+              id="condition-name"
+              placeholder="Hypertension"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="condition-year">Year diagnosed</Label>
+              <Input
+                id="condition-year"
+                placeholder="2020"
+                value={diagnosedYear}
+                onChange={(e) => setDiagnosedYear(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="condition-status">Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger id="condition-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saveCondition.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-health-primary hover:bg-health-primary/90" disabled={saveCondition.isPending}>
+              {saveCondition.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MedicalConditionDialog;
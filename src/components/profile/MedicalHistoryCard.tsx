@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteMedicalCondition, useMedicalConditions } from '@/hooks/use-medical-conditions';
+import type { MedicalCondition } from '@/types/profile';
+import MedicalConditionDialog from './MedicalConditionDialog';
+
+const MedicalHistoryCard = () => {
+  const { toast } = useToast();
+  const { data: conditions = [], isLoading, error } = useMedicalConditions();
+  const deleteCondition = useDeleteMedicalCondition();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCondition, setEditingCondition] = useState<MedicalCondition | null>(null);
+  const [deletingCondition, setDeletingCondition] = useState<MedicalCondition | null>(null);
+
+  const openDialog = (condition: MedicalCondition | null) => {
+    setEditingCondition(condition);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCondition) return;
+
+    try {
+      await deleteCondition.mutateAsync(deletingCondition.id);
+      toast({
+        title: "Condition removed",
+        description: `${deletingCondition.condition} has been removed from your medical history`,
+      });
+    } catch (error) {
+      console.error('Error deleting medical condition:', error);
+      toast({
+        title: "Could not remove condition",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingCondition(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Medical History</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500">{error.message}</p>
+        ) : conditions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No conditions recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {conditions.map(condition => (
+              <div key={condition.id} className="flex items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-medium">{condition.condition}</h3>
+                  {condition.diagnosedYear && (
+                    <p className="text-sm text-muted-foreground">Diagnosed: {condition.diagnosedYear}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="bg-blue-100 text-blue-800 text-xs font-medium px-3 py-1 rounded-full mr-1">
+                    {condition.status}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => openDialog(condition)}
+                    aria-label="Edit condition"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-red-500 hover:text-red-600"
+                    onClick={() => setDeletingCondition(condition)}
+                    aria-label="Remove condition"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <MedicalConditionDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        condition={editingCondition}
+      />
+
+      <AlertDialog open={!!deletingCondition} onOpenChange={(open) => !open && setDeletingCondition(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this condition?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingCondition && `${deletingCondition.condition} will be removed from your medical history.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default MedicalHistoryCard;
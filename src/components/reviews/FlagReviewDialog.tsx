@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useFlagReview } from '@/hooks/use-doctor-reviews';
+import type { DoctorReview } from '@/types/review';
+
+interface FlagReviewDialogProps {
+  review: DoctorReview | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FlagReviewDialog = ({ review, onOpenChange }: FlagReviewDialogProps) => {
+  const { toast } = useToast();
+  const flagReview = useFlagReview();
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [review]);
+
+  const handleFlag = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!review) return;
+
+    try {
+      await flagReview.mutateAsync({ reviewId: review.id, reason });
+      toast({
+        title: "Review reported",
+        description: "Our moderators will take a look",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error reporting review:', error);
+      toast({
+        title: "Could not report review",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AlertDialog open={!!review} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Report this review?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Reviews that are abusive, off-topic or share private details can be taken down.
+            The review stays up while a moderator looks at it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <Textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="What's wrong with this review? (optional)"
+          rows={3}
+          disabled={flagReview.isPending}
+        />
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={flagReview.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleFlag}
+            className="bg-red-600 hover:bg-red-700"
+            disabled={flagReview.isPending}
+          >
+            {flagReview.isPending ? "Reporting..." : "Report review"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default FlagReviewDialog;
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Flag, MessageSquareReply } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/reviews/StarRating';
+import { useToast } from '@/hooks/use-toast';
+import { useRespondToReview } from '@/hooks/use-doctor-reviews';
+import type { DoctorReview } from '@/types/review';
+import { MAX_REVIEW_LENGTH } from '@/utils/reviews';
+
+interface ReviewCardProps {
+  review: DoctorReview;
+  // Set for the reviewed doctor, who can reply
+  canRespond?: boolean;
+  onFlag: (review: DoctorReview) => void;
+}
+
+const ReviewCard = ({ review, canRespond, onFlag }: ReviewCardProps) => {
+  const { toast } = useToast();
+  const respondToReview = useRespondToReview();
+  const [isResponding, setIsResponding] = useState(false);
+  const [response, setResponse] = useState('');
+
+  const startResponding = () => {
+    setResponse(review.doctorResponse || '');
+    setIsResponding(true);
+  };
+
+  const handleSaveResponse = async () => {
+    try {
+      await respondToReview.mutateAsync({ reviewId: review.id, response });
+      toast({
+        title: response.trim() ? "Response posted" : "Response removed",
+        description: "Patients will see this under the review",
+      });
+      setIsResponding(false);
+    } catch (error) {
+      console.error('Error responding to review:', error);
+      toast({
+        title: "Could not save response",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="border-b pb-4 last:border-b-0 last:pb-0">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <StarRating value={review.rating} />
+            <span className="text-sm font-medium">{review.reviewerName || 'Verified patient'}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {format(new Date(review.createdAt), 'MMM d, yyyy')}
+            {review.moderationStatus === 'flagged' && ' · Under review by moderators'}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {canRespond && !isResponding && (
+            <Button variant="ghost" size="sm" className="h-8 px-2" onClick={startResponding}>
+              <MessageSquareReply className="h-4 w-4 mr-1" />
+              {review.doctorResponse ? 'Edit reply' : 'Reply'}
+            </Button>
+          )}
+          {review.moderationStatus === 'published' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-muted-foreground"
+              onClick={() => onFlag(review)}
+              aria-label="Report review"
+            >
+              <Flag className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {review.comment && <p className="text-sm mt-2 whitespace-pre-line">{review.comment}</p>}
+
+      {isResponding ? (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            placeholder="Thank the patient or address their feedback"
+            rows={3}
+            maxLength={MAX_REVIEW_LENGTH}
+            disabled={respondToReview.isPending}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsResponding(false)}
+              disabled={respondToReview.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-health-primary hover:bg-health-primary/90"
+              onClick={handleSaveResponse}
+              disabled={respondToReview.isPending}
+            >
+              {respondToReview.isPending ? "Saving..." : "Post reply"}
+            </Button>
+          </div>
+        </div>
+      ) : review.doctorResponse && (
+        <div className="mt-3 ml-4 border-l-2 border-health-primary/40 pl-3">
+          <p className="text-xs font-medium text-muted-foreground">Doctor's response</p>
+          <p className="text-sm mt-1 whitespace-pre-line">{review.doctorResponse}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewCard;
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/reviews/StarRating';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveReview } from '@/hooks/use-doctor-reviews';
+import type { Appointment } from '@/types/appointment';
+import type { DoctorReview } from '@/types/review';
+import { MAX_REVIEW_LENGTH, RATING_LABELS, validateReview } from '@/utils/reviews';
+
+interface ReviewDialogProps {
+  appointment: Appointment | null;
+  // The patient's earlier review of this appointment, to edit
+  review?: DoctorReview;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReviewDialog = ({ appointment, review, onOpenChange }: ReviewDialogProps) => {
+  const { toast } = useToast();
+  const saveReview = useSaveReview();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setRating(review?.rating ?? 0);
+    setComment(review?.comment ?? '');
+  }, [appointment, review]);
+
+  const handleSubmit = async () => {
+    if (!appointment) return;
+
+    const input = { rating, comment };
+    const validationError = validateReview(input);
+    if (validationError) {
+      toast({
+        title: "Check your review",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveReview.mutateAsync({ appointment, review: input, reviewId: review?.id });
+      toast({
+        title: review ? "Review updated" : "Thanks for your review",
+        description: `Your feedback helps other patients choose ${appointment.doctorName}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: "Could not save review",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isSaving = saveReview.isPending;
+
+  return (
+    <Dialog open={!!appointment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{review ? 'Edit your review' : 'Rate your consultation'}</DialogTitle>
+          <DialogDescription>
+            {appointment && `${appointment.doctorName} on ${format(new Date(appointment.appointmentDate), 'MMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <StarRating value={rating} onChange={setRating} size="lg" disabled={isSaving} />
+            {rating > 0 && <span className="text-sm text-muted-foreground">{RATING_LABELS[rating]}</span>}
+          </div>
+          <div className="space-y-1">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="How was your visit? Other patients will see this."
+              rows={5}
+              maxLength={MAX_REVIEW_LENGTH}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {comment.length}/{MAX_REVIEW_LENGTH}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={rating === 0 || isSaving}
+            className="bg-health-primary hover:bg-health-primary/90"
+          >
+            {isSaving ? "Saving..." : review ? "Update review" : "Submit review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
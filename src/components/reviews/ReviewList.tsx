@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import FlagReviewDialog from '@/components/reviews/FlagReviewDialog';
+import ReviewCard from '@/components/reviews/ReviewCard';
+import { useDoctorReviews } from '@/hooks/use-doctor-reviews';
+import type { DoctorReview } from '@/types/review';
+import { getRatingBreakdown } from '@/utils/reviews';
+
+interface ReviewListProps {
+  doctorId: string;
+  // Set for the reviewed doctor, who can reply to reviews
+  canRespond?: boolean;
+  emptyMessage?: string;
+}
+
+const ReviewList = ({ doctorId, canRespond, emptyMessage = 'No reviews yet.' }: ReviewListProps) => {
+  const { data: reviews = [], isLoading, error } = useDoctorReviews(doctorId);
+  const [flaggingReview, setFlaggingReview] = useState<DoctorReview | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error.message}</p>;
+  }
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">{emptyMessage}</p>;
+  }
+
+  const average = reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+        <div className="text-center sm:w-32">
+          <p className="text-4xl font-bold">{average.toFixed(1)}</p>
+          <p className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+            <Star className="h-4 w-4 text-yellow-500 fill-current" />
+            {reviews.length} review{reviews.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        <div className="flex-1 space-y-1">
+          {getRatingBreakdown(reviews).map(({ stars, count }) => (
+            <div key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-4 text-right">{stars}</span>
+              <Star className="h-3 w-3 text-yellow-500 fill-current" />
+              <Progress value={(count / reviews.length) * 100} className="h-2 flex-1" />
+              <span className="w-8 text-muted-foreground">{count}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {reviews.map(review => (
+          <ReviewCard
+            key={review.id}
+            review={review}
+            canRespond={canRespond}
+            onFlag={setFlaggingReview}
+          />
+        ))}
+      </div>
+
+      <FlagReviewDialog
+        review={flaggingReview}
+        onOpenChange={(open) => !open && setFlaggingReview(null)}
+      />
+    </div>
+  );
+};
+
+export default ReviewList;
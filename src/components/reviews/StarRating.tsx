@@ -0,0 +1,47 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'lg';
+  disabled?: boolean;
+}
+
+const StarRating = ({ value, onChange, size = 'sm', disabled }: StarRatingProps) => {
+  const starClass = size === 'lg' ? 'h-7 w-7' : 'h-4 w-4';
+
+  return (
+    <div className="flex items-center gap-0.5" aria-label={onChange ? undefined : `${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map(star => {
+        const icon = (
+          <Star
+            className={cn(
+              starClass,
+              star <= Math.round(value) ? 'text-yellow-500 fill-current' : 'text-gray-300'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            disabled={disabled}
+            className="rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-health-primary"
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            aria-pressed={star === value}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
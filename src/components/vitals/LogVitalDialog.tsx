@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveVital } from '@/hooks/use-vitals';
+import type { Vital, VitalType, VitalUnit } from '@/types/vitals';
+import {
+  VITAL_DEFINITIONS, VITAL_TYPES, displayValue, getPreferredUnit, setPreferredUnit, validateVital
+} from '@/utils/vitals';
+
+interface LogVitalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this reading instead of creating a new one
+  vital?: Vital | null;
+  defaultType?: VitalType;
+}
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const LogVitalDialog = ({ open, onOpenChange, vital, defaultType = 'weight' }: LogVitalDialogProps) => {
+  const { toast } = useToast();
+  const saveVital = useSaveVital();
+  const [type, setType] = useState<VitalType>(defaultType);
+  const [unit, setUnit] = useState<VitalUnit>(getPreferredUnit(defaultType));
+  const [value, setValue] = useState('');
+  const [secondaryValue, setSecondaryValue] = useState('');
+  const [recordedAt, setRecordedAt] = useState(toDateTimeInput(new Date()));
+  const [notes, setNotes] = useState('');
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const initialType = vital?.type || defaultType;
+    const initialUnit = getPreferredUnit(initialType);
+
+    setType(initialType);
+    setUnit(initialUnit);
+    setValue(vital ? String(initialType === 'blood_pressure' ? vital.value : displayValue(vital.value, initialUnit)) : '');
+    setSecondaryValue(vital?.secondaryValue !== null && vital?.secondaryValue !== undefined ? String(vital.secondaryValue) : '');
+    setRecordedAt(toDateTimeInput(vital ? new Date(vital.recordedAt) : new Date()));
+    setNotes(vital?.notes || '');
+  }, [open, vital, defaultType]);
+
+  const handleTypeChange = (newType: VitalType) => {
+    setType(newType);
+    setUnit(getPreferredUnit(newType));
+    setValue('');
+    setSecondaryValue('');
+  };
+
+  const handleUnitChange = (newUnit: VitalUnit) => {
+    setUnit(newUnit);
+    setPreferredUnit(type, newUnit);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericValue = parseFloat(value);
+    const numericSecondary = type === 'blood_pressure' ? parseFloat(secondaryValue) : null;
+    const validationError = validateVital(type, numericValue, unit, numericSecondary);
+
+    if (validationError) {
+      toast({
+        title: "Invalid reading",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveVital.mutateAsync({
+        id: vital?.id,
+        input: {
+          type,
+          value: numericValue,
+          secondaryValue: numericSecondary,
+          unit,
+          recordedAt: new Date(recordedAt).toISOString(),
+          notes: notes.trim(),
+        },
+      });
+
+      toast({
+        title: vital ? "Reading updated" : "Reading logged",
+        description: `${VITAL_DEFINITIONS[type].label} has been saved`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving vital:', error);
+      toast({
+        title: "Could not save reading",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const definition = VITAL_DEFINITIONS[type];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{vital ? 'Edit reading' : 'Log reading'}</DialogTitle>
+          <DialogDescription>
+            Record a measurement to track it over time
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vital-type">Measurement</Label>
+            <Select value={type} onValueChange={handleTypeChange} disabled={!!vital}>
+              <SelectTrigger id="vital-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VITAL_TYPES.map(vitalType => (
+                  <SelectItem key={vitalType} value={vitalType}>
+                    {VITAL_DEFINITIONS[vitalType].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === 'blood_pressure' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="vital-systolic">Systolic (mmHg)</Label>
+                <Input
+                  id="vital-systolic"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="120"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vital-diastolic">Diastolic (mmHg)</Label>
+                <Input
+                  id="vital-diastolic"
+                  type="number"
+                  inputMode="numeric"
+                  placeholder="80"
+                  value={secondaryValue}
+                  onChange={(e) => setSecondaryValue(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="vital-value">Value</Label>
+                <Input
+                  id="vital-value"
+                  type="number"
+                  inputMode="decimal"
+                  step={definition.step}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vital-unit">Unit</Label>
+                <Select
+                  value={unit}
+                  onValueChange={handleUnitChange}
+                  disabled={definition.units.length < 2}
+                >
+                  <SelectTrigger id="vital-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {definition.units.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="vital-recorded-at">Taken at</Label>
+            <Input
+              id="vital-recorded-at"
+              type="datetime-local"
+              value={recordedAt}
+              max={toDateTimeInput(new Date())}
+              onChange={(e) => setRecordedAt(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vital-notes">Notes (optional)</Label>
+            <Textarea
+              id="vital-notes"
+              rows={2}
+              placeholder="e.g. after breakfast, before medication"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saveVital.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-health-primary hover:bg-health-primary/90" disabled={saveVital.isPending}>
+              {saveVital.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LogVitalDialog;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteVital, useVitals } from '@/hooks/use-vitals';
+import type { Vital } from '@/types/vitals';
+import { formatVital, VITAL_DEFINITIONS } from '@/utils/vitals';
+import LogVitalDialog from './LogVitalDialog';
+
+interface VitalsHistoryProps {
+  limit?: number;
+}
+
+const VitalsHistory = ({ limit = 20 }: VitalsHistoryProps) => {
+  const { toast } = useToast();
+  const { data: vitals = [], isLoading } = useVitals({ limit });
+  const deleteVital = useDeleteVital();
+  const [editingVital, setEditingVital] = useState<Vital | null>(null);
+  const [deletingVital, setDeletingVital] = useState<Vital | null>(null);
+
+  const handleDelete = async () => {
+    if (!deletingVital) return;
+
+    try {
+      await deleteVital.mutateAsync(deletingVital.id);
+      toast({
+        title: "Reading deleted",
+        description: `${VITAL_DEFINITIONS[deletingVital.type].label} reading has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting vital:', error);
+      toast({
+        title: "Could not delete reading",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingVital(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Readings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : vitals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No readings logged yet. Use "Log reading" to add your first measurement.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {vitals.map(vital => (
+              <div key={vital.id} className="flex items-center justify-between border-b pb-3 last:border-b-0 last:pb-0">
+                <div>
+                  <h3 className="font-medium">{VITAL_DEFINITIONS[vital.type].label}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {format(new Date(vital.recordedAt), 'MMM d, yyyy h:mm a')}
+                    {vital.notes && ` · ${vital.notes}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium mr-2">{formatVital(vital)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    onClick={() => setEditingVital(vital)}
+                    aria-label="Edit reading"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2 text-red-500 hover:text-red-600"
+                    onClick={() => setDeletingVital(vital)}
+                    aria-label="Delete reading"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <LogVitalDialog
+        open={!!editingVital}
+        onOpenChange={(open) => !open && setEditingVital(null)}
+        vital={editingVital}
+      />
+
+      <AlertDialog open={!!deletingVital} onOpenChange={(open) => !open && setDeletingVital(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this reading?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingVital && `${VITAL_DEFINITIONS[deletingVital.type].label} of ${formatVital(deletingVital)} will be permanently removed.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default VitalsHistory;
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Allergy } from '@/types/profile';
+import { requireUserId } from '@/utils/session';
+
+const toAllergy = (row: Tables<'allergies'>): Allergy => ({
+  id: row.id,
+  name: row.name,
+  severity: row.severity as Allergy['severity'],
+});
+
+const getUserId = () => requireUserId('Please sign in to manage your allergies');
+
+/**
+ * Loads the signed-in user's recorded allergies, most severe first.
+ */
+export function useAllergies() {
+  return useQuery({
+    queryKey: ['allergies'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('allergies')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const order: Record<Allergy['severity'], number> = { high: 0, medium: 1, low: 2 };
+      return (data || []).map(toAllergy).sort((a, b) => order[a.severity] - order[b.severity]);
+    },
+  });
+}
+
+/**
+ * Adds an allergy, or updates it when an id is given.
+ */
+export function useSaveAllergy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: Omit<Allergy, 'id'> }) => {
+      const userId = await getUserId();
+
+      const row = {
+        name: input.name,
+        severity: input.severity,
+      };
+
+      const { error } = id
+        ? await supabase.from('allergies').update(row).eq('id', id).eq('user_id', userId)
+        : await supabase.from('allergies').insert({ ...row, user_id: userId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['allergies'] });
+    },
+  });
+}
+
+export function useDeleteAllergy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const userId = await getUserId();
+      const { error } = await supabase.from('allergies').delete().eq('id', id).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['allergies'] });
+    },
+  });
+}
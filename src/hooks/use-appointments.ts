@@ -0,0 +1,210 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { addDays, isBefore, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Appointment, AppointmentStatus, ConsultationType, PaymentStatus } from '@/types/appointment';
+import { assertTransition, isUpcoming, normalizeAppointmentStatus } from '@/utils/appointmentStatus';
+import { requireUserId } from '@/utils/session';
+import { requireDoctorName } from '@/hooks/use-user-role';
+
+// Postgres unique_violation, raised by appointments_doctor_slot_unique
+export const SLOT_TAKEN_ERROR_CODE = '23505';
+export const SLOT_TAKEN_MESSAGE = 'That time has just been booked by someone else. Please pick another slot.';
+
+const toAppointment = (row: Tables<'appointments'>): Appointment => ({
+  id: row.id,
+  doctorName: row.doctor_name,
+  doctorId: row.doctor_id,
+  patientName: row.patient_name,
+  hospital: row.hospital,
+  appointmentDate: row.appointment_date,
+  status: normalizeAppointmentStatus(row.status),
+  statusChangedAt: row.status_changed_at,
+  paymentStatus: (row.payment_status || 'pending') as PaymentStatus,
+  paymentId: row.payment_id,
+  consultationType: (row.consultation_type || 'in-person') as ConsultationType,
+  feeAmount: row.fee_amount,
+});
+
+const getUserId = () => requireUserId('Please sign in to view your appointments');
+
+/**
+ * Throws if another active appointment already holds the doctor's slot.
+ */
+export const assertSlotAvailable = async (doctorName: string, slot: Date, excludeAppointmentId?: string) => {
+  const { data: isAvailable, error } = await supabase.rpc('is_appointment_slot_available', {
+    p_doctor_name: doctorName,
+    p_slot: slot.toISOString(),
+    p_exclude_appointment_id: excludeAppointmentId,
+  });
+
+  if (error) throw error;
+  if (!isAvailable) throw new Error(SLOT_TAKEN_MESSAGE);
+};
+
+/**
+ * Loads all of the signed-in user's appointments, newest first.
+ */
+export function useAppointments() {
+  return useQuery({
+    queryKey: ['appointments'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('appointments')
+        .select('*')
+        .eq('user_id', userId)
+        .order('appointment_date', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(toAppointment);
+    },
+  });
+}
+
+const getDoctorName = () => requireDoctorName('Please sign in as a doctor to view your patients');
+
+/**
+ * Loads every appointment booked with the signed-in doctor, soonest first.
+ */
+export function useDoctorAppointments() {
+  return useQuery({
+    queryKey: ['doctor-appointments'],
+    queryFn: async () => {
+      const doctorName = await getDoctorName();
+
+      const { data, error } = await supabase
+        .from('appointments')
+        .select('*')
+        .eq('doctor_name', doctorName)
+        .order('appointment_date', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toAppointment);
+    },
+  });
+}
+
+/**
+ * Lets the signed-in doctor move an appointment along its lifecycle. The transition is
+ * checked here and again by the database, and the update only applies if the status
+ * hasn't changed since the appointment was loaded.
+ */
+export function useUpdateAppointmentStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointment, status }: { appointment: Appointment; status: AppointmentStatus }) => {
+      assertTransition(appointment.status, status);
+
+      const { error } = await supabase.rpc('update_appointment_status', {
+        p_appointment_id: appointment.id,
+        p_from_status: appointment.status,
+        p_status: status,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-appointments'] });
+    },
+  });
+}
+
+/**
+ * Times already booked with a doctor, across all patients, on the given day or over
+ * `days` days starting from it.
+ */
+export function useBookedSlots(doctorName: string | undefined, day: Date, days = 1) {
+  const from = startOfDay(day);
+
+  return useQuery({
+    queryKey: ['booked-slots', doctorName, from.toISOString(), days],
+    enabled: !!doctorName,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_booked_slots', {
+        p_doctor_name: doctorName,
+        p_from: from.toISOString(),
+        p_to: addDays(from, days).toISOString(),
+      });
+
+      if (error) throw error;
+
+      return (data || []).map(slot => new Date(slot));
+    },
+  });
+}
+
+/**
+ * Cancels one of the signed-in user's appointments. The database works out and requests
+ * any refund in the same step, and the mutation resolves with the refunded amount in rupees.
+ */
+export function useCancelAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointment }: { appointment: Appointment }) => {
+      await getUserId();
+      assertTransition(appointment.status, 'cancelled');
+
+      const { data: refundAmount, error } = await supabase.rpc('cancel_appointment', {
+        p_appointment_id: appointment.id,
+        p_from_status: appointment.status,
+      });
+
+      if (error) throw error;
+
+      return refundAmount;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['booked-slots'] });
+    },
+  });
+}
+
+/**
+ * Moves an upcoming appointment to a new time after checking the slot is still free.
+ */
+export function useRescheduleAppointment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointment, newDate }: { appointment: Appointment; newDate: Date }) => {
+      const userId = await getUserId();
+      const now = new Date();
+
+      if (!isUpcoming(appointment, now)) {
+        throw new Error('Only upcoming appointments can be rescheduled');
+      }
+      if (isBefore(newDate, now)) {
+        throw new Error('Please choose a time in the future');
+      }
+
+      await assertSlotAvailable(appointment.doctorName, newDate, appointment.id);
+
+      const { data, error } = await supabase
+        .from('appointments')
+        .update({ appointment_date: newDate.toISOString() })
+        .eq('id', appointment.id)
+        .eq('user_id', userId)
+        .eq('status', appointment.status)
+        .select('id');
+
+      // The slot can still be taken between the check and the update
+      if (error?.code === SLOT_TAKEN_ERROR_CODE) throw new Error(SLOT_TAKEN_MESSAGE);
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('This appointment was updated elsewhere. Please refresh and try again.');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['booked-slots'] });
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { requireUserId } from '@/utils/session';
+
+const getUserId = () => requireUserId('Please sign in to share your health record with MedAssist');
+
+/**
+ * Whether the signed-in user lets MedAssist read their health record. Resolves to null for
+ * guests, who can still chat but have no record to share.
+ */
+export function useAssistantConsent() {
+  return useQuery({
+    queryKey: ['assistant-consent'],
+    queryFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return null;
+
+      const { data, error } = await supabase
+        .from('assistant_consents')
+        .select('share_health_record')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.share_health_record ?? false;
+    },
+  });
+}
+
+/**
+ * Turns health record sharing on or off, creating the row on first save.
+ */
+export function useSaveAssistantConsent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (shareHealthRecord: boolean) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase
+        .from('assistant_consents')
+        .upsert({
+          user_id: userId,
+          share_health_record: shareHealthRecord,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assistant-consent'] });
+    },
+  });
+}
@@ -0,0 +1,171 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ConsultationChatMessage, ConsultationSession, ConsultationStatus } from '@/types/consultation';
+import { toChatTranscript } from '@/utils/consultationChat';
+
+const toConsultationSession = (row: Tables<'consultation_sessions'>): ConsultationSession => ({
+  id: row.id,
+  appointmentId: row.appointment_id,
+  status: row.status as ConsultationStatus,
+  patientJoinedAt: row.patient_joined_at,
+  patientLeftAt: row.patient_left_at,
+  doctorJoinedAt: row.doctor_joined_at,
+  doctorLeftAt: row.doctor_left_at,
+  admittedAt: row.admitted_at,
+  endedAt: row.ended_at,
+  durationSeconds: row.duration_seconds,
+  chatTranscript: toChatTranscript(row.chat_transcript),
+});
+
+/**
+ * The consultation session for an appointment, or null before anyone has joined.
+ * Kept live so the patient sees the moment they're admitted and both sides see it end.
+ */
+export function useConsultationSession(appointmentId: string | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ['consultation-session', appointmentId];
+
+  useEffect(() => {
+    if (!appointmentId) return;
+
+    const channel = supabase
+      .channel(`consultation-session:${appointmentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'consultation_sessions',
+          filter: `appointment_id=eq.${appointmentId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            queryClient.setQueryData(['consultation-session', appointmentId], null);
+          } else {
+            queryClient.setQueryData(
+              ['consultation-session', appointmentId],
+              toConsultationSession(payload.new as Tables<'consultation_sessions'>)
+            );
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [appointmentId, queryClient]);
+
+  return useQuery({
+    queryKey,
+    enabled: !!appointmentId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('consultation_sessions')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toConsultationSession(data) : null;
+    },
+  });
+}
+
+/**
+ * Opens or rejoins the consultation. The database refuses outside the appointment window.
+ */
+export function useJoinConsultation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (appointmentId: string) => {
+      const { data, error } = await supabase.rpc('join_consultation', { p_appointment_id: appointmentId });
+
+      if (error) throw error;
+
+      return toConsultationSession(data);
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(['consultation-session', session.appointmentId], session);
+    },
+  });
+}
+
+/**
+ * Lets the waiting patient into the call. Doctor only.
+ */
+export function useAdmitPatient() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { data, error } = await supabase.rpc('admit_consultation_patient', { p_session_id: sessionId });
+
+      if (error) throw error;
+
+      return toConsultationSession(data);
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(['consultation-session', session.appointmentId], session);
+    },
+  });
+}
+
+/**
+ * Records that the current user left. They can rejoin while the consultation is open.
+ */
+export function useLeaveConsultation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (session: ConsultationSession) => {
+      const { error } = await supabase.rpc('leave_consultation', { p_session_id: session.id });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, session) => {
+      queryClient.invalidateQueries({ queryKey: ['consultation-session', session.appointmentId] });
+    },
+  });
+}
+
+/**
+ * Ends the consultation for both sides and records how long it ran. Doctor only.
+ */
+export function useEndConsultation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { data, error } = await supabase.rpc('end_consultation', { p_session_id: sessionId });
+
+      if (error) throw error;
+
+      return toConsultationSession(data);
+    },
+    onSuccess: (session) => {
+      queryClient.setQueryData(['consultation-session', session.appointmentId], session);
+    },
+  });
+}
+
+/**
+ * Saves a message sent in the call's chat to the consultation transcript.
+ */
+export function useLogConsultationMessage() {
+  return useMutation({
+    mutationFn: async ({ sessionId, message }: { sessionId: string; message: ConsultationChatMessage }) => {
+      const { error } = await supabase.rpc('log_consultation_message', {
+        p_session_id: sessionId,
+        p_message_id: message.id,
+        p_text: message.text,
+      });
+
+      if (error) throw error;
+    },
+  });
+}
@@ -0,0 +1,298 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AttachmentType, Conversation, ConversationMessage } from '@/types/messaging';
+import type { UserRole } from '@/types/profile';
+import {
+  ATTACHMENTS_BUCKET, createImageThumbnail, getAttachmentPath, isImageAttachment, validateAttachment
+} from '@/utils/attachments';
+import { requireUserId } from '@/utils/session';
+
+// Signed attachment links last an hour; refresh them well before that
+const ATTACHMENT_URL_SECONDS = 60 * 60;
+
+const toConversationMessage = (row: Tables<'conversation_messages'>): ConversationMessage => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  senderId: row.sender_id,
+  senderRole: row.sender_role as UserRole,
+  body: row.body,
+  attachment: row.attachment_path
+    ? {
+        path: row.attachment_path,
+        name: row.attachment_name,
+        type: row.attachment_type as AttachmentType,
+        size: row.attachment_size,
+        thumbnailPath: row.attachment_thumbnail_path,
+      }
+    : null,
+  readAt: row.read_at,
+  createdAt: row.created_at,
+});
+
+const getUserId = () => requireUserId('Please sign in to view your messages');
+
+// Unread counts show in the sidebar and the inbox
+const invalidateUnread = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ['conversations'] });
+  queryClient.invalidateQueries({ queryKey: ['unread-messages'] });
+};
+
+/**
+ * The signed-in user's threads, most recent first. Works for both patients and doctors.
+ */
+export function useConversations() {
+  return useQuery({
+    queryKey: ['conversations'],
+    queryFn: async (): Promise<Conversation[]> => {
+      await getUserId();
+
+      const { data, error } = await supabase.rpc('get_conversations');
+
+      if (error) throw error;
+
+      return (data || []).map(({ conversation, doctor_name, doctor_image_url, unread_count }) => ({
+        id: conversation.id,
+        patientId: conversation.patient_id,
+        doctorId: conversation.doctor_id,
+        patientName: conversation.patient_name,
+        doctorName: doctor_name,
+        doctorImageUrl: doctor_image_url,
+        lastMessageAt: conversation.last_message_at,
+        lastMessagePreview: conversation.last_message_preview,
+        unreadCount: unread_count,
+      }));
+    },
+  });
+}
+
+/**
+ * Total unread messages across all threads. Listens for new messages and read receipts
+ * so the sidebar badge and inbox stay current.
+ */
+export function useUnreadMessageCount(enabled = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Row level security limits these to the user's own threads
+    const channel = supabase
+      .channel('unread-messages')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'conversation_messages' },
+        () => invalidateUnread(queryClient)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, queryClient]);
+
+  return useQuery({
+    queryKey: ['unread-messages'],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_unread_message_count');
+
+      if (error) throw error;
+
+      return data ?? 0;
+    },
+  });
+}
+
+/**
+ * A thread's messages, oldest first, delivered live as they're sent and read.
+ */
+export function useConversationMessages(conversationId: string | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const queryKey = ['conversation-messages', conversationId];
+    const channel = supabase
+      .channel(`conversation:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+
+          const message = toConversationMessage(payload.new as Tables<'conversation_messages'>);
+          queryClient.setQueryData<ConversationMessage[]>(queryKey, (messages = []) =>
+            messages.some(item => item.id === message.id)
+              ? messages.map(item => (item.id === message.id ? message : item))
+              : [...messages, message]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+
+  return useQuery({
+    queryKey: ['conversation-messages', conversationId],
+    enabled: !!conversationId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('conversation_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toConversationMessage);
+    },
+  });
+}
+
+/**
+ * Opens the signed-in patient's thread with a doctor, creating it the first time.
+ * Resolves to the conversation id.
+ */
+export function useStartConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (doctorId: string) => {
+      await getUserId();
+
+      const { data, error } = await supabase.rpc('start_conversation', { p_doctor_id: doctorId });
+
+      if (error) throw error;
+
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+}
+
+/**
+ * Sends a message, optionally with a photo or PDF. The file (and, for images, a small
+ * preview) is uploaded first and removed again if the message can't be saved.
+ */
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, body, file }: { conversationId: string; body: string; file?: File | null }) => {
+      const userId = await getUserId();
+      const uploadedPaths: string[] = [];
+      let attachment = {};
+
+      if (file) {
+        const validationError = validateAttachment(file);
+        if (validationError) throw new Error(validationError);
+
+        const path = getAttachmentPath(conversationId, file.name);
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .upload(path, file, { contentType: file.type });
+
+        if (uploadError) throw uploadError;
+        uploadedPaths.push(path);
+
+        let thumbnailPath: string | null = null;
+        if (isImageAttachment(file.type)) {
+          try {
+            const thumbnail = await createImageThumbnail(file);
+            const { error: thumbnailError } = await supabase.storage
+              .from(ATTACHMENTS_BUCKET)
+              .upload(`${path}.thumb.jpg`, thumbnail, { contentType: 'image/jpeg' });
+
+            if (thumbnailError) throw thumbnailError;
+            thumbnailPath = `${path}.thumb.jpg`;
+            uploadedPaths.push(thumbnailPath);
+          } catch (thumbnailError) {
+            // The message still goes through; the thread shows a file card instead
+            console.error('Error creating attachment preview:', thumbnailError);
+          }
+        }
+
+        attachment = {
+          attachment_path: path,
+          attachment_name: file.name,
+          attachment_type: file.type,
+          attachment_size: file.size,
+          attachment_thumbnail_path: thumbnailPath,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('conversation_messages')
+        .insert({ conversation_id: conversationId, sender_id: userId, body: body.trim(), ...attachment })
+        .select()
+        .single();
+
+      if (error) {
+        if (uploadedPaths.length > 0) {
+          await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploadedPaths);
+        }
+        throw error;
+      }
+
+      return toConversationMessage(data);
+    },
+    onSuccess: (message) => {
+      // Show it straight away; the realtime echo is deduplicated by id
+      queryClient.setQueryData<ConversationMessage[]>(
+        ['conversation-messages', message.conversationId],
+        (messages = []) => (messages.some(item => item.id === message.id) ? messages : [...messages, message])
+      );
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+}
+
+/**
+ * A short-lived link to an attachment. Storage only signs it for the conversation's
+ * two participants.
+ */
+export function useAttachmentUrl(path: string | null) {
+  return useQuery({
+    queryKey: ['attachment-url', path],
+    enabled: !!path,
+    staleTime: (ATTACHMENT_URL_SECONDS - 5 * 60) * 1000,
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(path, ATTACHMENT_URL_SECONDS);
+
+      if (error) throw error;
+
+      return data.signedUrl;
+    },
+  });
+}
+
+/**
+ * Marks the other participant's messages in a thread as read.
+ */
+export function useMarkConversationRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (conversationId: string) => {
+      const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateUnread(queryClient),
+  });
+}
@@ -0,0 +1,169 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Appointment } from '@/types/appointment';
+import type { DoctorReview, ReviewInput, ReviewModerationStatus } from '@/types/review';
+import { toReviewerName } from '@/utils/reviews';
+import { requireSession } from '@/utils/session';
+
+const toDoctorReview = (row: Tables<'doctor_reviews'>): DoctorReview => ({
+  id: row.id,
+  appointmentId: row.appointment_id,
+  doctorId: row.doctor_id,
+  reviewerName: row.reviewer_name,
+  rating: row.rating,
+  comment: row.comment,
+  doctorResponse: row.doctor_response,
+  respondedAt: row.responded_at,
+  moderationStatus: row.moderation_status as ReviewModerationStatus,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const getSession = () => requireSession('Please sign in to review your appointments');
+
+// Reviews feed the doctor's rating, which shows across the directory
+const invalidateReviews = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ['doctor-reviews'] });
+  queryClient.invalidateQueries({ queryKey: ['doctors'] });
+  queryClient.invalidateQueries({ queryKey: ['doctor'] });
+  queryClient.invalidateQueries({ queryKey: ['doctor-listing'] });
+};
+
+/**
+ * A doctor's reviews, newest first. Reviews hidden by moderators are left out.
+ */
+export function useDoctorReviews(doctorId: string | undefined) {
+  return useQuery({
+    queryKey: ['doctor-reviews', doctorId],
+    enabled: !!doctorId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('doctor_reviews')
+        .select('*')
+        .eq('doctor_id', doctorId)
+        .neq('moderation_status', 'hidden')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(toDoctorReview);
+    },
+  });
+}
+
+/**
+ * The signed-in patient's reviews, keyed by appointment id.
+ */
+export function useMyReviews() {
+  return useQuery({
+    queryKey: ['doctor-reviews', 'mine'],
+    queryFn: async () => {
+      const session = await getSession();
+
+      const { data, error } = await supabase
+        .from('doctor_reviews')
+        .select('*')
+        .eq('user_id', session.user.id);
+
+      if (error) throw error;
+
+      return new Map((data || []).map(row => [row.appointment_id, toDoctorReview(row)]));
+    },
+  });
+}
+
+/**
+ * Reviews a completed appointment, or edits the review if `reviewId` is given.
+ */
+export function useSaveReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ appointment, review, reviewId }: {
+      appointment: Appointment;
+      review: ReviewInput;
+      reviewId?: string;
+    }) => {
+      const session = await getSession();
+      const comment = review.comment.trim() || null;
+
+      if (reviewId) {
+        const { error } = await supabase
+          .from('doctor_reviews')
+          .update({ rating: review.rating, comment, updated_at: new Date().toISOString() })
+          .eq('id', reviewId);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: doctor, error: doctorError } = await supabase
+        .from('doctors')
+        .select('id')
+        .eq('name', appointment.doctorName)
+        .maybeSingle();
+
+      if (doctorError) throw doctorError;
+      if (!doctor) {
+        throw new Error(`${appointment.doctorName} is no longer listed, so they can't be reviewed`);
+      }
+
+      const { error } = await supabase
+        .from('doctor_reviews')
+        .insert({
+          appointment_id: appointment.id,
+          doctor_id: doctor.id,
+          user_id: session.user.id,
+          reviewer_name: toReviewerName(session.user.user_metadata?.full_name),
+          rating: review.rating,
+          comment,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateReviews(queryClient),
+  });
+}
+
+/**
+ * Adds, changes or, with an empty response, removes the doctor's reply to a review.
+ */
+export function useRespondToReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reviewId, response }: { reviewId: string; response: string }) => {
+      const { error } = await supabase.rpc('respond_to_doctor_review', {
+        p_review_id: reviewId,
+        p_response: response,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-reviews'] });
+    },
+  });
+}
+
+/**
+ * Reports a review to moderators.
+ */
+export function useFlagReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: string; reason: string }) => {
+      const { error } = await supabase.rpc('flag_doctor_review', {
+        p_review_id: reviewId,
+        p_reason: reason,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-reviews'] });
+    },
+  });
+}
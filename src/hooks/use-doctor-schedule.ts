@@ -0,0 +1,115 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { DoctorSchedule, ScheduleBreak, SessionConsultationType, Weekday, WorkingSession } from '@/types/schedule';
+import { DEFAULT_DOCTOR_SCHEDULE } from '@/utils/appointmentSlots';
+import { requireDoctorName } from '@/hooks/use-user-role';
+
+interface StoredSession {
+  start: string;
+  end: string;
+  consultation_types: SessionConsultationType[];
+}
+
+type StoredWeeklyHours = Partial<Record<Weekday, StoredSession[]>>;
+
+const toDoctorSchedule = (row: Tables<'doctor_schedules'>): DoctorSchedule => {
+  const stored = row.weekly_hours as unknown as StoredWeeklyHours;
+  const weeklyHours: DoctorSchedule['weeklyHours'] = {};
+
+  for (const [weekday, sessions] of Object.entries(stored)) {
+    weeklyHours[Number(weekday) as Weekday] = sessions.map(session => ({
+      start: session.start,
+      end: session.end,
+      consultationTypes: session.consultation_types,
+    }));
+  }
+
+  return {
+    doctorName: row.doctor_name,
+    slotMinutes: row.slot_minutes,
+    weeklyHours,
+    breaks: row.breaks as unknown as ScheduleBreak[],
+    leaveDays: row.leave_days,
+  };
+};
+
+const toStoredWeeklyHours = (weeklyHours: DoctorSchedule['weeklyHours']): StoredWeeklyHours => {
+  const stored: StoredWeeklyHours = {};
+
+  for (const [weekday, sessions] of Object.entries(weeklyHours) as [string, WorkingSession[]][]) {
+    if (sessions.length === 0) continue;
+    stored[Number(weekday) as Weekday] = sessions.map(session => ({
+      start: session.start,
+      end: session.end,
+      consultation_types: session.consultationTypes,
+    }));
+  }
+
+  return stored;
+};
+
+const getDoctorName = () => requireDoctorName('Please sign in as a doctor to manage your schedule');
+
+const fetchDoctorSchedule = async (doctorName: string): Promise<DoctorSchedule> => {
+  const { data, error } = await supabase
+    .from('doctor_schedules')
+    .select('*')
+    .eq('doctor_name', doctorName)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toDoctorSchedule(data) : { ...DEFAULT_DOCTOR_SCHEDULE, doctorName };
+};
+
+/**
+ * Loads a doctor's published schedule, falling back to the default working week
+ * for doctors who haven't set one up.
+ */
+export function useDoctorSchedule(doctorName: string | undefined) {
+  return useQuery({
+    queryKey: ['doctor-schedule', doctorName],
+    enabled: !!doctorName,
+    queryFn: () => fetchDoctorSchedule(doctorName),
+  });
+}
+
+/**
+ * Loads the signed-in doctor's own schedule for editing.
+ */
+export function useMyDoctorSchedule() {
+  return useQuery({
+    queryKey: ['doctor-schedule', 'mine'],
+    queryFn: async () => fetchDoctorSchedule(await getDoctorName()),
+  });
+}
+
+/**
+ * Publishes the signed-in doctor's schedule, creating it on first save.
+ */
+export function useSaveDoctorSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (schedule: Omit<DoctorSchedule, 'doctorName'>) => {
+      const doctorName = await getDoctorName();
+
+      const { error } = await supabase
+        .from('doctor_schedules')
+        .upsert({
+          doctor_name: doctorName,
+          slot_minutes: schedule.slotMinutes,
+          weekly_hours: toStoredWeeklyHours(schedule.weeklyHours) as unknown as Json,
+          breaks: schedule.breaks as unknown as Json,
+          leave_days: [...schedule.leaveDays].sort(),
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'doctor_name' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-schedule'] });
+    },
+  });
+}
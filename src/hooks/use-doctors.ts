@@ -0,0 +1,220 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Coordinates, Doctor, DoctorFilters, DoctorGender, DoctorPractice, DoctorSearchParams } from '@/types/doctor';
+import { getBoundingBox, getDistanceKm } from '@/utils/geo';
+import { requireUserId } from '@/utils/session';
+
+export const DOCTORS_PAGE_SIZE = 10;
+
+const toDoctor = (row: Tables<'doctors'>): Doctor => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  specialty: row.specialty,
+  experienceYears: row.experience_years,
+  hospital: row.hospital,
+  city: row.city,
+  feeAmount: row.fee_amount,
+  rating: Number(row.rating),
+  reviewCount: row.review_count,
+  imageUrl: row.image_url,
+  coordinates: row.latitude !== null && row.longitude !== null ? { lat: row.latitude, lng: row.longitude } : null,
+  languages: row.languages || [],
+  gender: row.gender as DoctorGender | null,
+  offersInPerson: row.offers_in_person,
+  offersVideo: row.offers_video,
+  bio: row.bio,
+  qualifications: row.qualifications || [],
+  clinicAddress: row.clinic_address,
+});
+
+const getUserId = () => requireUserId('Please sign in as a doctor to manage your practice details');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Characters with meaning inside a PostgREST or() filter or an ILIKE pattern
+const toSearchTerm = (query: string) => query.replace(/[,()%*\\_]/g, ' ').trim();
+
+// The filter arguments shared by search_doctors and get_doctor_specialties
+const toFilterArgs = (filters: DoctorFilters) => ({
+  p_query: toSearchTerm(filters.query) || undefined,
+  p_min_fee: filters.minFee ?? undefined,
+  p_max_fee: filters.maxFee ?? undefined,
+  p_min_rating: filters.minRating ?? undefined,
+  p_min_experience: filters.minExperience ?? undefined,
+  p_languages: filters.languages.length > 0 ? filters.languages : undefined,
+  p_gender: filters.gender ?? undefined,
+  p_mode: filters.mode ?? undefined,
+  // The patient's own calendar day, not the server's
+  p_available_on: filters.availableToday ? format(new Date(), 'yyyy-MM-dd') : undefined,
+});
+
+/**
+ * Searches the doctor directory one page at a time. `location` is only needed to
+ * sort by distance, and also adds each doctor's distance to the results.
+ * Keeps showing the previous page while the next one loads.
+ */
+export function useDoctors(search: DoctorSearchParams, location: Coordinates | null = null) {
+  const args = {
+    ...toFilterArgs(search),
+    p_specialty: search.specialty ?? undefined,
+    p_sort: search.sort,
+    p_lat: location?.lat,
+    p_lng: location?.lng,
+    p_limit: DOCTORS_PAGE_SIZE,
+    p_offset: search.page * DOCTORS_PAGE_SIZE,
+  };
+
+  return useQuery({
+    queryKey: ['doctors', args],
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_doctors', args);
+
+      if (error) throw error;
+
+      const rows = data || [];
+      return {
+        doctors: rows.map(row => ({ ...toDoctor(row.doctor), distanceKm: row.distance_km })),
+        total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      };
+    },
+  });
+}
+
+/**
+ * A single doctor from the directory, or null if there's no listing with that id.
+ */
+export function useDoctor(id: string | undefined) {
+  return useQuery({
+    queryKey: ['doctor', id],
+    enabled: !!id,
+    queryFn: async () => {
+      // A mistyped link is just a missing doctor, not a database error
+      if (!UUID_PATTERN.test(id)) return null;
+
+      const { data, error } = await supabase
+        .from('doctors')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toDoctor(data) : null;
+    },
+  });
+}
+
+/**
+ * Specialties in the directory with how many doctors match the other filters in each.
+ */
+export function useDoctorSpecialties(filters: DoctorFilters) {
+  const args = toFilterArgs(filters);
+
+  return useQuery({
+    queryKey: ['doctor-specialties', args],
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_doctor_specialties', args);
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({ specialty: row.specialty, count: Number(row.doctor_count) }));
+    },
+  });
+}
+
+/**
+ * Doctors within `radiusKm` of a location, nearest first.
+ */
+export function useNearbyDoctors(location: Coordinates | null, radiusKm = 50) {
+  return useQuery({
+    queryKey: ['nearby-doctors', location?.lat, location?.lng, radiusKm],
+    enabled: !!location,
+    queryFn: async () => {
+      const box = getBoundingBox(location, radiusKm);
+
+      const { data, error } = await supabase
+        .from('doctors')
+        .select('*')
+        .gte('latitude', box.minLat)
+        .lte('latitude', box.maxLat)
+        .gte('longitude', box.minLng)
+        .lte('longitude', box.maxLng);
+
+      if (error) throw error;
+
+      return (data || [])
+        .map(row => {
+          const doctor = toDoctor(row);
+          return { ...doctor, distanceKm: getDistanceKm(location, doctor.coordinates) };
+        })
+        .filter(doctor => doctor.distanceKm <= radiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm);
+    },
+  });
+}
+
+/**
+ * The signed-in doctor's own directory listing, or null if none is linked to their account.
+ */
+export function useMyDoctorListing() {
+  return useQuery({
+    queryKey: ['doctor-listing', 'mine'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('doctors')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toDoctor(data) : null;
+    },
+  });
+}
+
+/**
+ * Updates the practice details on the signed-in doctor's listing.
+ */
+export function useSaveDoctorPractice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (practice: DoctorPractice) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase
+        .from('doctors')
+        .update({
+          specialty: practice.specialty.trim(),
+          experience_years: practice.experienceYears,
+          hospital: practice.hospital.trim(),
+          city: practice.city.trim(),
+          clinic_address: practice.clinicAddress?.trim() || null,
+          fee_amount: practice.feeAmount,
+          languages: practice.languages,
+          gender: practice.gender,
+          offers_in_person: practice.offersInPerson,
+          offers_video: practice.offersVideo,
+          bio: practice.bio?.trim() || null,
+          qualifications: practice.qualifications.map(item => item.trim()).filter(Boolean),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['doctor-listing'] });
+      queryClient.invalidateQueries({ queryKey: ['doctors'] });
+      queryClient.invalidateQueries({ queryKey: ['doctor-specialties'] });
+    },
+  });
+}
@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { startOfDay, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { DoseLog, DoseStatus } from '@/types/medication';
+import { requireUserId } from '@/utils/session';
+
+const toDoseLog = (row: Tables<'medication_dose_logs'>): DoseLog => ({
+  id: row.id,
+  medicationId: row.medication_id,
+  scheduledAt: row.scheduled_at,
+  status: row.status as DoseStatus,
+  loggedAt: row.logged_at,
+});
+
+const getUserId = () => requireUserId('Please sign in to log your doses');
+
+/**
+ * Loads dose logs for the last `days` days (90 by default, the longest adherence window).
+ */
+export function useDoseLogs(days = 90) {
+  return useQuery({
+    queryKey: ['dose-logs', days],
+    queryFn: async () => {
+      const userId = await getUserId();
+      const since = startOfDay(subDays(new Date(), days - 1));
+
+      const { data, error } = await supabase
+        .from('medication_dose_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('scheduled_at', since.toISOString())
+        .order('scheduled_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toDoseLog);
+    },
+  });
+}
+
+/**
+ * Records what happened to a scheduled dose. Logging the same dose again replaces its previous status.
+ */
+export function useLogDose() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ medicationId, scheduledAt, status }: { medicationId: string; scheduledAt: Date; status: DoseStatus }) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase
+        .from('medication_dose_logs')
+        .upsert({
+          user_id: userId,
+          medication_id: medicationId,
+          scheduled_at: scheduledAt.toISOString(),
+          status,
+          logged_at: new Date().toISOString(),
+        }, { onConflict: 'medication_id,scheduled_at' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dose-logs'] });
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getRangeStart, groupFitnessData, summarizeBuckets, TimeRange } from '@/utils/healthMetrics';
+
+/**
+ * Loads the signed-in user's fitness_data rows for the given range and groups them
+ * by day (week), week (month) or month (year) for the HealthMetrics charts.
+ */
+export function useFitnessData(timeRange: TimeRange) {
+  // Part of the query key, so a different account signing in never sees cached data.
+  // Undefined until the session has loaded.
+  const [userId, setUserId] = useState<string | null>();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return useQuery({
+    queryKey: ['fitness-data', userId, timeRange],
+    enabled: userId !== undefined,
+    queryFn: async () => {
+      if (!userId) {
+        throw new Error('Please sign in to view your health metrics');
+      }
+
+      const { data, error } = await supabase
+        .from('fitness_data')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', format(getRangeStart(timeRange), 'yyyy-MM-dd'))
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+
+      const buckets = groupFitnessData(data || [], timeRange);
+
+      return {
+        buckets,
+        summary: summarizeBuckets(buckets),
+      };
+    },
+  });
+}
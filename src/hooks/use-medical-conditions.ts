@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { MedicalCondition } from '@/types/profile';
+import { requireUserId } from '@/utils/session';
+
+const toMedicalCondition = (row: Tables<'medical_conditions'>): MedicalCondition => ({
+  id: row.id,
+  condition: row.condition,
+  diagnosedYear: row.diagnosed_year,
+  status: row.status,
+});
+
+const getUserId = () => requireUserId('Please sign in to manage your medical history');
+
+/**
+ * Loads the signed-in user's medical conditions in the order they were added.
+ */
+export function useMedicalConditions() {
+  return useQuery({
+    queryKey: ['medical-conditions'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('medical_conditions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toMedicalCondition);
+    },
+  });
+}
+
+/**
+ * Adds a condition, or updates it when an id is given.
+ */
+export function useSaveMedicalCondition() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: Omit<MedicalCondition, 'id'> }) => {
+      const userId = await getUserId();
+
+      const row = {
+        condition: input.condition,
+        diagnosed_year: input.diagnosedYear,
+        status: input.status,
+      };
+
+      const { error } = id
+        ? await supabase.from('medical_conditions').update(row).eq('id', id).eq('user_id', userId)
+        : await supabase.from('medical_conditions').insert({ ...row, user_id: userId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['medical-conditions'] });
+    },
+  });
+}
+
+export function useDeleteMedicalCondition() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const userId = await getUserId();
+      const { error } = await supabase.from('medical_conditions').delete().eq('id', id).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['medical-conditions'] });
+    },
+  });
+}
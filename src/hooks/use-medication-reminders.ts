@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { useDoseLogs } from '@/hooks/use-dose-logs';
+import { useMedications } from '@/hooks/use-medications';
+import { useNotificationPreferences } from '@/hooks/use-notification-preferences';
+import { getDoseKey } from '@/utils/medicationSchedule';
+import {
+  isNotificationSupported, registerReminderWorker, showDoseReminder
+} from '@/utils/notifications';
+import { getUpcomingReminders } from '@/utils/reminders';
+
+// Longest time between checks, so the plan is refreshed after the device sleeps or the clock changes
+const MAX_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Shows a notification when each upcoming dose is due, while the app is open.
+ * Does nothing unless medication reminders are enabled and notification permission
+ * has been granted; doses inside the quiet hours or already logged are skipped.
+ */
+export function useMedicationReminders() {
+  const { data: medications } = useMedications();
+  const { data: preferences } = useNotificationPreferences();
+  const { data: doseLogs } = useDoseLogs();
+
+  useEffect(() => {
+    if (!medications || !preferences?.medicationReminders) return;
+    if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+
+    const loggedDoses = new Set((doseLogs || []).map(log => getDoseKey(log.medicationId, log.scheduledAt)));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    // Reminders are only shown for doses due after this point, so nothing fires twice
+    let checkedUntil = new Date();
+
+    const pendingReminders = (from: Date) =>
+      getUpcomingReminders(medications, preferences, from)
+        .filter(dose => !loggedDoses.has(getDoseKey(dose.medicationId, dose.scheduledAt)));
+
+    const check = async (registration: ServiceWorkerRegistration) => {
+      const now = new Date();
+      const due = pendingReminders(checkedUntil).filter(dose => dose.scheduledAt <= now);
+      checkedUntil = new Date(now.getTime() + 1);
+
+      await Promise.all(due.map(dose => showDoseReminder(registration, dose)));
+      if (cancelled) return;
+
+      const next = pendingReminders(checkedUntil)[0];
+      const delay = next
+        ? Math.min(next.scheduledAt.getTime() - now.getTime(), MAX_CHECK_INTERVAL_MS)
+        : MAX_CHECK_INTERVAL_MS;
+
+      timer = setTimeout(() => {
+        check(registration).catch(error => console.error('Error showing medication reminder:', error));
+      }, delay);
+    };
+
+    registerReminderWorker()
+      .then(registration => (cancelled ? undefined : check(registration)))
+      .catch(error => console.error('Error scheduling medication reminders:', error));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [medications, preferences, doseLogs]);
+}
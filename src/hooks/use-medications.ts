@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Medication, MedicationFrequency, MedicationInput, MedicationStatus, PausedPeriod } from '@/types/medication';
+import { requireUserId } from '@/utils/session';
+
+const toMedication = (row: Tables<'medications'>): Medication => ({
+  id: row.id,
+  name: row.name,
+  dosage: row.dosage,
+  frequency: row.frequency as MedicationFrequency,
+  doseTimes: [...(row.dose_times || [])].sort(),
+  startDate: row.start_date,
+  endDate: row.end_date,
+  status: row.status as MedicationStatus,
+  pausedPeriods: (row.paused_periods as unknown as PausedPeriod[]) || [],
+  instructions: row.instructions,
+});
+
+const getUserId = () => requireUserId('Please sign in to manage your medications');
+
+/**
+ * Loads all of the signed-in user's medications, including paused and ended ones.
+ */
+export function useMedications() {
+  return useQuery({
+    queryKey: ['medications'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toMedication);
+    },
+  });
+}
+
+export function useAddMedication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: MedicationInput) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase.from('medications').insert({
+        user_id: userId,
+        name: input.name,
+        dosage: input.dosage,
+        frequency: input.frequency,
+        dose_times: input.frequency === 'as_needed' ? [] : input.doseTimes,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        instructions: input.instructions || null,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['medications'] });
+    },
+  });
+}
+
+/**
+ * Pauses, resumes or ends a medication. Ending also sets the end date to today
+ * so the course no longer produces doses.
+ */
+export function useUpdateMedicationStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status, endDate }: { id: string; status: MedicationStatus; endDate?: string }) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase
+        .from('medications')
+        .update({
+          status,
+          ...(endDate && { end_date: endDate }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['medications'] });
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { NotificationPreferences } from '@/types/notifications';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/utils/reminders';
+import { requireUserId } from '@/utils/session';
+
+const toPreferences = (row: Tables<'notification_preferences'>): NotificationPreferences => ({
+  medicationReminders: row.medication_reminders,
+  appointmentAlerts: row.appointment_alerts,
+  healthUpdates: row.health_updates,
+  quietHoursEnabled: row.quiet_hours_enabled,
+  quietHoursStart: row.quiet_hours_start,
+  quietHoursEnd: row.quiet_hours_end,
+});
+
+const getUserId = () => requireUserId('Please sign in to change your notification settings');
+
+/**
+ * Loads the signed-in user's notification preferences, falling back to the
+ * defaults until they have saved any.
+ */
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toPreferences(data) : DEFAULT_NOTIFICATION_PREFERENCES;
+    },
+  });
+}
+
+/**
+ * Saves the complete set of preferences, creating the row on first save.
+ */
+export function useSaveNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preferences: NotificationPreferences) => {
+      const userId = await getUserId();
+
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          medication_reminders: preferences.medicationReminders,
+          appointment_alerts: preferences.appointmentAlerts,
+          health_updates: preferences.healthUpdates,
+          quiet_hours_enabled: preferences.quietHoursEnabled,
+          quiet_hours_start: preferences.quietHoursStart,
+          quiet_hours_end: preferences.quietHoursEnd,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { UserRole } from '@/types/profile';
+import { requireUserId } from '@/utils/session';
+
+export interface UserRoleInfo {
+  role: UserRole;
+  // Set for doctors; the name their appointments are booked under
+  doctorName: string | null;
+}
+
+const fetchDoctorName = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('doctors')
+    .select('name')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.name ?? null;
+};
+
+/**
+ * The name the signed-in doctor's appointments are booked under, from the directory listing
+ * an admin linked to their account. Throws `message` when nobody is signed in, and a clear
+ * error when the account isn't linked to a listing.
+ */
+export const requireDoctorName = async (message: string) => {
+  const doctorName = await fetchDoctorName(await requireUserId(message));
+
+  if (!doctorName) {
+    throw new Error("Your account isn't linked to a directory listing yet. Please contact support.");
+  }
+
+  return doctorName;
+};
+
+/**
+ * Loads the signed-in user's role. Resolves to null when nobody is signed in, and
+ * treats accounts without a role row as patients.
+ */
+export function useUserRole() {
+  const queryClient = useQueryClient();
+
+  // A different account may sign in without a page load
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        queryClient.invalidateQueries({ queryKey: ['user-role'] });
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: ['user-role'],
+    queryFn: async (): Promise<UserRoleInfo | null> => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return null;
+
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data?.role === 'doctor'
+        ? { role: 'doctor', doctorName: await fetchDoctorName(session.user.id) }
+        : { role: 'patient', doctorName: null };
+    },
+  });
+}
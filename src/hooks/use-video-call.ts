@@ -0,0 +1,381 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ConsultationChatMessage, MediaDeviceSelection } from '@/types/consultation';
+import type { UserRole } from '@/types/profile';
+import { createCallSignaling, type CallSignal, type CallSignaling } from '@/utils/callSignaling';
+import { mergeChatMessages, parseChatMessage } from '@/utils/consultationChat';
+import { getMediaConstraints } from '@/utils/mediaDevices';
+import { requireUserId } from '@/utils/session';
+
+export type VideoCallStatus =
+  | 'starting'
+  | 'waiting'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'peer-left'
+  | 'failed';
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+// A 'disconnected' connection often recovers on its own, so give it a moment before restarting ICE
+const DISCONNECT_GRACE_MS = 5000;
+
+const CHAT_CHANNEL_LABEL = 'chat';
+
+const getUserId = () => requireUserId('Please sign in to join the call');
+
+/**
+ * Runs the WebRTC side of an appointment's video call while `appointmentId` is set,
+ * using the camera and microphone from the device check.
+ * The doctor always makes the offer and drives ICE restarts; the patient answers.
+ * Either side can reload or drop out and the call picks up again when they rejoin.
+ *
+ * Chat messages travel over a data channel on the same connection. Screen sharing swaps
+ * the outgoing camera track for the screen, so no renegotiation is needed.
+ */
+export function useVideoCall(appointmentId: string | null, role: UserRole, devices?: MediaDeviceSelection | null) {
+  const [status, setStatus] = useState<VideoCallStatus>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isVideoOff, setIsVideoOff] = useState(false);
+  const [isSharingScreen, setIsSharingScreen] = useState(false);
+  const [messages, setMessages] = useState<ConsultationChatMessage[]>([]);
+  const [isChatReady, setIsChatReady] = useState(false);
+
+  // Shared with the screen sharing and chat controls, which live outside the call effect
+  const peerRef = useRef<RTCPeerConnection | null>(null);
+  const chatChannelRef = useRef<RTCDataChannel | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+
+  useEffect(() => {
+    if (!appointmentId) return;
+
+    const videoDeviceId = devices?.videoDeviceId ?? null;
+    const audioDeviceId = devices?.audioDeviceId ?? null;
+    const isCaller = role === 'doctor';
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let signaling: CallSignaling | null = null;
+    let peer: RTCPeerConnection | null = null;
+    // Candidates can arrive before the description they belong to
+    let pendingCandidates: RTCIceCandidateInit[] = [];
+    let disconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const fail = (message: string) => {
+      if (cancelled) return;
+      setError(message);
+      setStatus('failed');
+    };
+
+    const sendSignal = async (signal: CallSignal) => {
+      try {
+        await signaling?.send(signal);
+      } catch (sendError) {
+        console.error('Error sending call signal:', sendError);
+      }
+    };
+
+    const closePeer = () => {
+      clearTimeout(disconnectTimer);
+      if (chatChannelRef.current) {
+        chatChannelRef.current.onopen = null;
+        chatChannelRef.current.onclose = null;
+        chatChannelRef.current.onmessage = null;
+        chatChannelRef.current.close();
+        chatChannelRef.current = null;
+        setIsChatReady(false);
+      }
+      if (peer) {
+        peer.onicecandidate = null;
+        peer.ontrack = null;
+        peer.onconnectionstatechange = null;
+        peer.ondatachannel = null;
+        peer.close();
+        peer = null;
+        peerRef.current = null;
+      }
+      pendingCandidates = [];
+      setRemoteStream(null);
+    };
+
+    const sendOffer = async (connection: RTCPeerConnection, restart: boolean) => {
+      const offer = await connection.createOffer({ iceRestart: restart });
+      await connection.setLocalDescription(offer);
+      await sendSignal({ type: 'offer', description: offer, restart });
+    };
+
+    const restartIce = (connection: RTCPeerConnection) => {
+      if (connection !== peer) return;
+      sendOffer(connection, true).catch(restartError => {
+        console.error('Error restarting call connection:', restartError);
+      });
+    };
+
+    const setUpChatChannel = (channel: RTCDataChannel) => {
+      chatChannelRef.current = channel;
+      channel.onopen = () => setIsChatReady(true);
+      channel.onclose = () => setIsChatReady(false);
+      channel.onmessage = ({ data }) => {
+        const message = parseChatMessage(data);
+        if (message) setMessages(prev => mergeChatMessages(prev, [message]));
+      };
+    };
+
+    const createPeer = () => {
+      closePeer();
+      const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+      stream?.getTracks().forEach(track => {
+        // Keep showing the screen if sharing was already on when the connection was rebuilt
+        const outgoing = track.kind === 'video' && screenTrackRef.current ? screenTrackRef.current : track;
+        connection.addTrack(outgoing, stream);
+      });
+
+      // The caller opens the chat channel as part of its offer; the other side receives it
+      if (isCaller) {
+        setUpChatChannel(connection.createDataChannel(CHAT_CHANNEL_LABEL));
+      } else {
+        connection.ondatachannel = ({ channel }) => {
+          if (channel.label === CHAT_CHANNEL_LABEL) setUpChatChannel(channel);
+        };
+      }
+
+      connection.onicecandidate = ({ candidate }) => {
+        if (candidate) sendSignal({ type: 'candidate', candidate: candidate.toJSON() });
+      };
+      connection.ontrack = ({ streams }) => {
+        if (streams[0]) setRemoteStream(streams[0]);
+      };
+      connection.onconnectionstatechange = () => {
+        if (connection !== peer) return;
+        clearTimeout(disconnectTimer);
+
+        switch (connection.connectionState) {
+          case 'connected':
+            setStatus('connected');
+            break;
+          case 'disconnected':
+            setStatus('reconnecting');
+            if (isCaller) disconnectTimer = setTimeout(() => restartIce(connection), DISCONNECT_GRACE_MS);
+            break;
+          case 'failed':
+            setStatus('reconnecting');
+            if (isCaller) restartIce(connection);
+            break;
+        }
+      };
+
+      peer = connection;
+      peerRef.current = connection;
+      return connection;
+    };
+
+    const addPendingCandidates = async (connection: RTCPeerConnection) => {
+      const candidates = pendingCandidates;
+      pendingCandidates = [];
+      for (const candidate of candidates) {
+        await connection.addIceCandidate(candidate);
+      }
+    };
+
+    const handleSignal = async (signal: CallSignal) => {
+      switch (signal.type) {
+        case 'offer': {
+          // A restart renegotiates the current connection; anything else starts afresh
+          const connection = signal.restart && peer ? peer : createPeer();
+          if (!signal.restart) setStatus('connecting');
+          await connection.setRemoteDescription(signal.description);
+          await addPendingCandidates(connection);
+          const answer = await connection.createAnswer();
+          await connection.setLocalDescription(answer);
+          await sendSignal({ type: 'answer', description: answer });
+          break;
+        }
+        case 'answer':
+          if (peer?.signalingState === 'have-local-offer') {
+            await peer.setRemoteDescription(signal.description);
+            await addPendingCandidates(peer);
+          }
+          break;
+        case 'candidate':
+          if (peer?.remoteDescription) {
+            await peer.addIceCandidate(signal.candidate);
+          } else {
+            pendingCandidates.push(signal.candidate);
+          }
+          break;
+        case 'hangup':
+          closePeer();
+          setStatus('peer-left');
+          break;
+      }
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia(getMediaConstraints({ videoDeviceId, audioDeviceId }));
+      } catch (mediaError) {
+        console.error('Error accessing media devices:', mediaError);
+        fail('Could not access your camera or microphone');
+        return;
+      }
+
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      cameraStreamRef.current = stream;
+      setLocalStream(stream);
+
+      let userId: string;
+      try {
+        userId = await getUserId();
+      } catch (sessionError) {
+        fail(sessionError.message);
+        return;
+      }
+      if (cancelled) return;
+
+      setStatus('waiting');
+      signaling = createCallSignaling(appointmentId, { userId, role }, {
+        onSignal: signal => {
+          handleSignal(signal).catch(signalError => {
+            console.error('Error handling call signal:', signalError);
+          });
+        },
+        onPeerJoined: () => {
+          if (!isCaller) {
+            setStatus('connecting');
+            return;
+          }
+          const connection = createPeer();
+          setStatus('connecting');
+          sendOffer(connection, false).catch(offerError => {
+            console.error('Error starting call:', offerError);
+            fail('Could not start the call');
+          });
+        },
+        onPeerLeft: () => {
+          closePeer();
+          setStatus('peer-left');
+        },
+        onError: signalingError => {
+          console.error('Call signaling error:', signalingError);
+          fail(signalingError.message);
+        },
+      });
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      closePeer();
+      stream?.getTracks().forEach(track => track.stop());
+      screenTrackRef.current?.stop();
+      screenTrackRef.current = null;
+      cameraStreamRef.current = null;
+
+      const closingSignaling = signaling;
+      if (closingSignaling) {
+        closingSignaling
+          .send({ type: 'hangup' })
+          .catch(() => undefined)
+          .finally(() => closingSignaling.close());
+      }
+
+      setLocalStream(null);
+      setStatus('starting');
+      setError(null);
+      setIsMuted(false);
+      setIsVideoOff(false);
+      setIsSharingScreen(false);
+      setMessages([]);
+    };
+  }, [appointmentId, role, devices?.videoDeviceId, devices?.audioDeviceId]);
+
+  const toggleMute = () => {
+    localStream?.getAudioTracks().forEach(track => {
+      track.enabled = isMuted;
+    });
+    setIsMuted(!isMuted);
+  };
+
+  const toggleVideo = () => {
+    localStream?.getVideoTracks().forEach(track => {
+      track.enabled = isVideoOff;
+    });
+    setIsVideoOff(!isVideoOff);
+  };
+
+  const getVideoSender = () =>
+    peerRef.current?.getSenders().find(sender => sender.track?.kind === 'video');
+
+  const stopScreenShare = async () => {
+    const screenTrack = screenTrackRef.current;
+    if (!screenTrack) return;
+
+    screenTrackRef.current = null;
+    screenTrack.onended = null;
+    screenTrack.stop();
+    setIsSharingScreen(false);
+
+    const cameraTrack = cameraStreamRef.current?.getVideoTracks()[0] || null;
+    await getVideoSender()?.replaceTrack(cameraTrack);
+  };
+
+  /**
+   * Sends the screen instead of the camera until stopped here or from the browser's own
+   * "Stop sharing" control. Rejects if the user cancels the screen picker.
+   */
+  const startScreenShare = async () => {
+    const display = await navigator.mediaDevices.getDisplayMedia({ video: true });
+    const [screenTrack] = display.getVideoTracks();
+
+    screenTrack.onended = () => {
+      stopScreenShare().catch(shareError => console.error('Error stopping screen share:', shareError));
+    };
+    screenTrackRef.current = screenTrack;
+    setIsSharingScreen(true);
+    await getVideoSender()?.replaceTrack(screenTrack);
+  };
+
+  /**
+   * Sends a chat message to the other participant. Returns the message, or null when the
+   * chat isn't connected.
+   */
+  const sendMessage = (text: string): ConsultationChatMessage | null => {
+    const channel = chatChannelRef.current;
+    if (!channel || channel.readyState !== 'open') return null;
+
+    const message: ConsultationChatMessage = {
+      id: crypto.randomUUID(),
+      sender: role,
+      text,
+      sentAt: new Date().toISOString(),
+    };
+    channel.send(JSON.stringify(message));
+    setMessages(prev => mergeChatMessages(prev, [message]));
+    return message;
+  };
+
+  return {
+    status,
+    error,
+    localStream,
+    remoteStream,
+    isMuted,
+    isVideoOff,
+    toggleMute,
+    toggleVideo,
+    isSharingScreen,
+    startScreenShare,
+    stopScreenShare,
+    messages,
+    isChatReady,
+    sendMessage,
+  };
+}
@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { Vital, VitalInput, VitalType } from '@/types/vitals';
+import { toCanonical, VITAL_DEFINITIONS } from '@/utils/vitals';
+import { requireUserId } from '@/utils/session';
+
+const toVital = (row: Tables<'vitals'>): Vital => ({
+  id: row.id,
+  type: row.type as VitalType,
+  value: Number(row.value),
+  secondaryValue: row.secondary_value !== null ? Number(row.secondary_value) : null,
+  recordedAt: row.recorded_at,
+  notes: row.notes,
+});
+
+const getUserId = () => requireUserId('Please sign in to manage your vitals');
+
+interface UseVitalsOptions {
+  types?: VitalType[];
+  since?: Date;
+  limit?: number;
+}
+
+/**
+ * Loads the signed-in user's logged vitals, newest first.
+ */
+export function useVitals({ types, since, limit }: UseVitalsOptions = {}) {
+  return useQuery({
+    queryKey: ['vitals', types, since?.toISOString(), limit],
+    queryFn: async () => {
+      const userId = await getUserId();
+
+      let query = supabase
+        .from('vitals')
+        .select('*')
+        .eq('user_id', userId)
+        .order('recorded_at', { ascending: false });
+
+      if (types && types.length > 0) query = query.in('type', types);
+      if (since) query = query.gte('recorded_at', since.toISOString());
+      if (limit) query = query.limit(limit);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(toVital);
+    },
+  });
+}
+
+/**
+ * Creates a reading, or updates it when an id is passed. Values are converted
+ * from the unit they were entered in to the canonical unit before saving.
+ */
+export function useSaveVital() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: VitalInput }) => {
+      const userId = await getUserId();
+
+      const row = {
+        type: input.type,
+        value: toCanonical(input.value, input.unit),
+        secondary_value: input.type === 'blood_pressure' ? input.secondaryValue ?? null : null,
+        unit: VITAL_DEFINITIONS[input.type].canonicalUnit,
+        recorded_at: input.recordedAt,
+        notes: input.notes || null,
+      };
+
+      const { error } = id
+        ? await supabase.from('vitals').update(row).eq('id', id).eq('user_id', userId)
+        : await supabase.from('vitals').insert({ ...row, user_id: userId });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vitals'] });
+    },
+  });
+}
+
+export function useDeleteVital() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const userId = await getUserId();
+      const { error } = await supabase.from('vitals').delete().eq('id', id).eq('user_id', userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vitals'] });
+    },
+  });
+}
@@ -9,34 +9,459 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      allergies: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          severity: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          severity?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          severity?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      appointment_refunds: {
+        Row: {
+          amount: number
+          appointment_id: string
+          created_at: string | null
+          id: string
+          payment_id: string
+          percent: number
+          policy_tier: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          appointment_id: string
+          created_at?: string | null
+          id?: string
+          payment_id: string
+          percent: number
+          policy_tier: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          appointment_id?: string
+          created_at?: string | null
+          id?: string
+          payment_id?: string
+          percent?: number
+          policy_tier?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_refunds_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       appointments: {
         Row: {
           appointment_date: string
+          consultation_type: string | null
           created_at: string | null
+          doctor_id: string | null
           doctor_name: string
+          fee_amount: number | null
           hospital: string
           id: string
+          patient_name: string | null
+          payment_id: string | null
+          payment_status: string | null
           status: string
+          status_changed_at: string | null
           user_id: string
         }
         Insert: {
           appointment_date: string
+          consultation_type?: string | null
           created_at?: string | null
+          doctor_id?: string | null
           doctor_name: string
+          fee_amount?: number | null
           hospital: string
           id?: string
+          patient_name?: string | null
+          payment_id?: string | null
+          payment_status?: string | null
           status?: string
+          status_changed_at?: string | null
           user_id: string
         }
         Update: {
           appointment_date?: string
+          consultation_type?: string | null
           created_at?: string | null
+          doctor_id?: string | null
           doctor_name?: string
+          fee_amount?: number | null
           hospital?: string
           id?: string
+          patient_name?: string | null
+          payment_id?: string | null
+          payment_status?: string | null
+          status?: string
+          status_changed_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assistant_consents: {
+        Row: {
+          share_health_record: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          share_health_record?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          share_health_record?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      consultation_sessions: {
+        Row: {
+          admitted_at: string | null
+          appointment_id: string
+          chat_transcript: Json
+          created_at: string | null
+          doctor_joined_at: string | null
+          doctor_left_at: string | null
+          duration_seconds: number | null
+          ended_at: string | null
+          id: string
+          patient_joined_at: string | null
+          patient_left_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          admitted_at?: string | null
+          appointment_id: string
+          chat_transcript?: Json
+          created_at?: string | null
+          doctor_joined_at?: string | null
+          doctor_left_at?: string | null
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          patient_joined_at?: string | null
+          patient_left_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          admitted_at?: string | null
+          appointment_id?: string
+          chat_transcript?: Json
+          created_at?: string | null
+          doctor_joined_at?: string | null
+          doctor_left_at?: string | null
+          duration_seconds?: number | null
+          ended_at?: string | null
+          id?: string
+          patient_joined_at?: string | null
+          patient_left_at?: string | null
           status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consultation_sessions_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_messages: {
+        Row: {
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          attachment_thumbnail_path: string | null
+          attachment_type: string | null
+          body: string
+          conversation_id: string
+          created_at: string | null
+          id: string
+          read_at: string | null
+          sender_id: string
+          sender_role: string
+        }
+        Insert: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_thumbnail_path?: string | null
+          attachment_type?: string | null
+          body?: string
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+          sender_role?: string
+        }
+        Update: {
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          attachment_thumbnail_path?: string | null
+          attachment_type?: string | null
+          body?: string
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+          sender_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string | null
+          doctor_id: string
+          id: string
+          last_message_at: string | null
+          last_message_preview: string | null
+          patient_id: string
+          patient_name: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          doctor_id: string
+          id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          patient_id: string
+          patient_name?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          doctor_id?: string
+          id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          patient_id?: string
+          patient_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_reviews: {
+        Row: {
+          appointment_id: string
+          comment: string | null
+          created_at: string | null
+          doctor_id: string
+          doctor_response: string | null
+          flag_reason: string | null
+          flagged_at: string | null
+          flagged_by: string | null
+          id: string
+          moderation_status: string
+          rating: number
+          responded_at: string | null
+          reviewer_name: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          appointment_id: string
+          comment?: string | null
+          created_at?: string | null
+          doctor_id: string
+          doctor_response?: string | null
+          flag_reason?: string | null
+          flagged_at?: string | null
+          flagged_by?: string | null
+          id?: string
+          moderation_status?: string
+          rating: number
+          responded_at?: string | null
+          reviewer_name?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          appointment_id?: string
+          comment?: string | null
+          created_at?: string | null
+          doctor_id?: string
+          doctor_response?: string | null
+          flag_reason?: string | null
+          flagged_at?: string | null
+          flagged_by?: string | null
+          id?: string
+          moderation_status?: string
+          rating?: number
+          responded_at?: string | null
+          reviewer_name?: string | null
+          updated_at?: string | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "doctor_reviews_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "doctor_reviews_doctor_id_fkey"
+            columns: ["doctor_id"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      doctor_schedules: {
+        Row: {
+          breaks: Json
+          doctor_name: string
+          leave_days: string[]
+          slot_minutes: number
+          updated_at: string | null
+          weekly_hours: Json
+        }
+        Insert: {
+          breaks?: Json
+          doctor_name: string
+          leave_days?: string[]
+          slot_minutes?: number
+          updated_at?: string | null
+          weekly_hours?: Json
+        }
+        Update: {
+          breaks?: Json
+          doctor_name?: string
+          leave_days?: string[]
+          slot_minutes?: number
+          updated_at?: string | null
+          weekly_hours?: Json
+        }
+        Relationships: []
+      }
+      doctors: {
+        Row: {
+          bio: string | null
+          city: string
+          clinic_address: string | null
+          created_at: string | null
+          experience_years: number
+          fee_amount: number
+          gender: string | null
+          hospital: string
+          id: string
+          image_url: string | null
+          languages: string[]
+          latitude: number | null
+          longitude: number | null
+          name: string
+          offers_in_person: boolean
+          offers_video: boolean
+          qualifications: string[]
+          rating: number
+          review_count: number
+          specialty: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          bio?: string | null
+          city?: string
+          clinic_address?: string | null
+          created_at?: string | null
+          experience_years?: number
+          fee_amount?: number
+          gender?: string | null
+          hospital?: string
+          id?: string
+          image_url?: string | null
+          languages?: string[]
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          offers_in_person?: boolean
+          offers_video?: boolean
+          qualifications?: string[]
+          rating?: number
+          review_count?: number
+          specialty: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          bio?: string | null
+          city?: string
+          clinic_address?: string | null
+          created_at?: string | null
+          experience_years?: number
+          fee_amount?: number
+          gender?: string | null
+          hospital?: string
+          id?: string
+          image_url?: string | null
+          languages?: string[]
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          offers_in_person?: boolean
+          offers_video?: boolean
+          qualifications?: string[]
+          rating?: number
+          review_count?: number
+          specialty?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
         Relationships: []
       }
       fitness_data: {
@@ -66,12 +491,466 @@ export type Database = {
         }
         Relationships: []
       }
+      medical_conditions: {
+        Row: {
+          condition: string
+          created_at: string | null
+          diagnosed_year: string
+          id: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          condition: string
+          created_at?: string | null
+          diagnosed_year?: string
+          id?: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          condition?: string
+          created_at?: string | null
+          diagnosed_year?: string
+          id?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      medication_dose_logs: {
+        Row: {
+          created_at: string | null
+          id: string
+          logged_at: string
+          medication_id: string
+          scheduled_at: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          logged_at?: string
+          medication_id: string
+          scheduled_at: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          logged_at?: string
+          medication_id?: string
+          scheduled_at?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_dose_logs_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          created_at: string | null
+          dosage: string
+          dose_times: string[]
+          end_date: string | null
+          frequency: string
+          id: string
+          instructions: string | null
+          name: string
+          paused_periods: Json
+          start_date: string
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          dosage: string
+          dose_times?: string[]
+          end_date?: string | null
+          frequency: string
+          id?: string
+          instructions?: string | null
+          name: string
+          paused_periods?: Json
+          start_date?: string
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          dosage?: string
+          dose_times?: string[]
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          instructions?: string | null
+          name?: string
+          paused_periods?: Json
+          start_date?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          appointment_alerts: boolean
+          health_updates: boolean
+          medication_reminders: boolean
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          appointment_alerts?: boolean
+          health_updates?: boolean
+          medication_reminders?: boolean
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          appointment_alerts?: boolean
+          health_updates?: boolean
+          medication_reminders?: boolean
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          appointment_id: string | null
+          created_at: string | null
+          id: string
+          razorpay_payment_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          appointment_id?: string | null
+          created_at?: string | null
+          id?: string
+          razorpay_payment_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          appointment_id?: string | null
+          created_at?: string | null
+          id?: string
+          razorpay_payment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: true
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      triage_escalations: {
+        Row: {
+          category: string
+          created_at: string | null
+          id: string
+          matched_text: string
+          session_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          id?: string
+          matched_text: string
+          session_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          id?: string
+          matched_text?: string
+          session_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vitals: {
+        Row: {
+          created_at: string | null
+          id: string
+          notes: string | null
+          recorded_at: string
+          secondary_value: number | null
+          type: string
+          unit: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          recorded_at?: string
+          secondary_value?: number | null
+          type: string
+          unit: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          recorded_at?: string
+          secondary_value?: number | null
+          type?: string
+          unit?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      admit_consultation_patient: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: Database["public"]["Tables"]["consultation_sessions"]["Row"]
+      }
+      can_join_video_call: {
+        Args: {
+          p_appointment_id: string
+        }
+        Returns: boolean
+      }
+      cancel_appointment: {
+        Args: {
+          p_appointment_id: string
+          p_from_status: string
+        }
+        Returns: number
+      }
+      current_doctor_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      end_consultation: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: Database["public"]["Tables"]["consultation_sessions"]["Row"]
+      }
+      filter_doctors: {
+        Args: {
+          p_query?: string
+          p_min_fee?: number
+          p_max_fee?: number
+          p_min_rating?: number
+          p_min_experience?: number
+          p_languages?: string[]
+          p_gender?: string
+          p_mode?: string
+          p_available_on?: string
+        }
+        Returns: Database["public"]["Tables"]["doctors"]["Row"][]
+      }
+      flag_doctor_review: {
+        Args: {
+          p_review_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      get_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          conversation: Database["public"]["Tables"]["conversations"]["Row"]
+          doctor_name: string
+          doctor_image_url: string | null
+          unread_count: number
+        }[]
+      }
+      get_doctor_specialties: {
+        Args: {
+          p_query?: string
+          p_min_fee?: number
+          p_max_fee?: number
+          p_min_rating?: number
+          p_min_experience?: number
+          p_languages?: string[]
+          p_gender?: string
+          p_mode?: string
+          p_available_on?: string
+        }
+        Returns: {
+          specialty: string
+          doctor_count: number
+        }[]
+      }
+      get_booked_slots: {
+        Args: {
+          p_doctor_name: string
+          p_from: string
+          p_to: string
+        }
+        Returns: string[]
+      }
+      get_unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      is_appointment_slot_available: {
+        Args: {
+          p_doctor_name: string
+          p_slot: string
+          p_exclude_appointment_id?: string
+        }
+        Returns: boolean
+      }
+      is_appointment_participant: {
+        Args: {
+          p_appointment_id: string
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: boolean
+      }
+      is_doctor_working_on: {
+        Args: {
+          p_doctor_name: string
+          p_date: string
+        }
+        Returns: boolean
+      }
+      join_consultation: {
+        Args: {
+          p_appointment_id: string
+        }
+        Returns: Database["public"]["Tables"]["consultation_sessions"]["Row"]
+      }
+      leave_consultation: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: undefined
+      }
+      log_consultation_message: {
+        Args: {
+          p_session_id: string
+          p_message_id: string
+          p_text: string
+        }
+        Returns: undefined
+      }
+      mark_conversation_read: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: undefined
+      }
+      respond_to_doctor_review: {
+        Args: {
+          p_review_id: string
+          p_response: string
+        }
+        Returns: undefined
+      }
+      search_doctors: {
+        Args: {
+          p_query?: string
+          p_specialty?: string
+          p_min_fee?: number
+          p_max_fee?: number
+          p_min_rating?: number
+          p_min_experience?: number
+          p_languages?: string[]
+          p_gender?: string
+          p_mode?: string
+          p_available_on?: string
+          p_sort?: string
+          p_lat?: number
+          p_lng?: number
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          doctor: Database["public"]["Tables"]["doctors"]["Row"]
+          distance_km: number | null
+          total_count: number
+        }[]
+      }
+      start_conversation: {
+        Args: {
+          p_doctor_id: string
+        }
+        Returns: Database["public"]["Tables"]["conversations"]["Row"]
+      }
+      update_appointment_status: {
+        Args: {
+          p_appointment_id: string
+          p_from_status: string
+          p_status: string
+        }
+        Returns: undefined
+      }
+      verify_doctor: {
+        Args: {
+          p_user_id: string
+          p_doctor_id?: string
+        }
+        Returns: Database["public"]["Tables"]["doctors"]["Row"]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,68 +1,68 @@
 
 import { useState } from 'react';
-import { Calendar, Video, MessageSquare } from 'lucide-react';
+import { format, formatDistanceToNow, isToday } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { Calendar, CalendarClock, Video, MessageSquare, Plus, Star, XCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import DoctorVideoCall from '@/components/DoctorVideoCall';
 import DoctorChat from '@/components/DoctorChat';
+import CancelAppointmentDialog from '@/components/appointments/CancelAppointmentDialog';
+import RescheduleAppointmentDialog from '@/components/appointments/RescheduleAppointmentDialog';
+import ReviewDialog from '@/components/reviews/ReviewDialog';
+import { useAppointments } from '@/hooks/use-appointments';
+import { useMyReviews } from '@/hooks/use-doctor-reviews';
+import type { Appointment } from '@/types/appointment';
+import {
+  APPOINTMENT_STATUS_DEFINITIONS, CONSULTATION_TYPE_LABELS, canTransition, getNextAppointment, isUpcoming
+} from '@/utils/appointmentStatus';
+import { canReview } from '@/utils/reviews';
+
+// Appointment rows don't carry a doctor photo yet
+const DOCTOR_PLACEHOLDER_IMAGE = '/placeholder.svg';
+
+const formatAppointmentDate = (date: string) => {
+  const value = new Date(date);
+  return isToday(value) ? `Today, ${format(value, 'h:mm a')}` : format(value, 'MMM d, yyyy, h:mm a');
+};
 
 const Appointments = () => {
+  const { data: appointments = [], isLoading, error } = useAppointments();
+  const { data: myReviews } = useMyReviews();
   const [isVideoCallOpen, setIsVideoCallOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [selectedDoctor, setSelectedDoctor] = useState(null);
-  
-  const appointments = [
-    {
-      doctorName: 'Dr. Smith',
-      specialty: 'Cardiologist',
-      date: 'Today, 11:00 AM',
-      hospital: 'Central Hospital',
-      status: 'Upcoming',
-      image: 'https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3'
-    },
-    {
-      doctorName: 'Dr. Johnson',
-      specialty: 'Endocrinologist',
-      date: 'Mar 28, 2:30 PM',
-      hospital: 'Medical Center',
-      status: 'Scheduled',
-      image: 'https://images.unsplash.com/photo-1622253692010-333f2da6031d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3'
-    },
-    {
-      doctorName: 'Dr. Williams',
-      specialty: 'Neurologist',
-      date: 'Mar 15, 10:00 AM',
-      hospital: 'Health Clinic',
-      status: 'Completed',
-      image: 'https://images.unsplash.com/photo-1594824476967-48c8b964273f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3'
-    },
-    {
-      doctorName: 'Dr. Brown',
-      specialty: 'Ophthalmologist',
-      date: 'Mar 10, 9:15 AM',
-      hospital: 'Vision Center',
-      status: 'Completed',
-      image: 'https://images.unsplash.com/photo-1651008376811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3'
-    },
-  ];
-
-  const handleVideoCall = (doctor) => {
-    setSelectedDoctor(doctor);
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [cancellingAppointment, setCancellingAppointment] = useState<Appointment | null>(null);
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<Appointment | null>(null);
+  const [reviewingAppointment, setReviewingAppointment] = useState<Appointment | null>(null);
+
+  const now = new Date();
+  const nextAppointment = getNextAppointment(appointments, now);
+
+  const handleVideoCall = (appointment: Appointment) => {
+    setSelectedAppointment(appointment);
     setIsVideoCallOpen(true);
   };
 
-  const handleChat = (doctor) => {
-    setSelectedDoctor(doctor);
+  const handleChat = (appointment: Appointment) => {
+    setSelectedAppointment(appointment);
     setIsChatOpen(true);
   };
 
-  const nextAppointment = appointments.find(app => app.status === 'Upcoming');
-
   return (
     <div className="space-y-6">
-      <h1 className="text-2xl font-bold">Appointments</h1>
-      
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Appointments</h1>
+        <Button asChild className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2">
+          <Link to="/doctor-search">
+            <Plus className="h-4 w-4" />
+            Book appointment
+          </Link>
+        </Button>
+      </div>
+
       {/* Next Appointment */}
       {nextAppointment && (
         <Card className="bg-gradient-to-r from-health-primary/10 to-health-secondary/5">
@@ -74,116 +74,204 @@ const Appointments = () => {
                 </div>
                 <div>
                   <h3 className="text-lg font-medium">Next Appointment</h3>
-                  <p className="text-xl font-bold mt-1">{nextAppointment.doctorName} - {nextAppointment.specialty}</p>
-                  <p className="text-muted-foreground">{nextAppointment.date} - {nextAppointment.hospital}</p>
+                  <p className="text-xl font-bold mt-1">
+                    {nextAppointment.doctorName} - {CONSULTATION_TYPE_LABELS[nextAppointment.consultationType]}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {formatAppointmentDate(nextAppointment.appointmentDate)} - {nextAppointment.hospital}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    In {formatDistanceToNow(new Date(nextAppointment.appointmentDate))}
+                  </p>
                 </div>
               </div>
               <div className="flex gap-2">
-                <Button 
+                <Button
                   variant="outline"
                   className="border-health-primary text-health-primary hover:bg-health-primary/10"
                   onClick={() => handleChat(nextAppointment)}
+                  disabled={!nextAppointment.doctorId}
                 >
                   <MessageSquare className="h-4 w-4 mr-2" />
                   Message
                 </Button>
-                <Button 
-                  className="bg-health-primary hover:bg-health-primary/90"
-                  onClick={() => handleVideoCall(nextAppointment)}
-                >
-                  <Video className="h-4 w-4 mr-2" />
-                  Video Call
-                </Button>
+                {nextAppointment.consultationType === 'video' && (
+                  <Button
+                    className="bg-health-primary hover:bg-health-primary/90"
+                    onClick={() => handleVideoCall(nextAppointment)}
+                  >
+                    <Video className="h-4 w-4 mr-2" />
+                    Video Call
+                  </Button>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
       )}
-      
+
       {/* All Appointments */}
       <Card>
         <CardHeader>
           <CardTitle>All Appointments</CardTitle>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Doctor</TableHead>
-                <TableHead>Date & Time</TableHead>
-                <TableHead>Hospital</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {appointments.map((appointment, i) => (
-                <TableRow key={i}>
-                  <TableCell>
-                    <div>
-                      <p className="font-medium">{appointment.doctorName}</p>
-                      <p className="text-sm text-muted-foreground">{appointment.specialty}</p>
-                    </div>
-                  </TableCell>
-                  <TableCell>{appointment.date}</TableCell>
-                  <TableCell>{appointment.hospital}</TableCell>
-                  <TableCell>
-                    <span 
-                      className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${
-                        appointment.status === 'Upcoming'
-                          ? 'bg-blue-100 text-blue-800'
-                          : appointment.status === 'Scheduled'
-                            ? 'bg-amber-100 text-amber-800'
-                            : 'bg-green-100 text-green-800'
-                      }`}
-                    >
-                      {appointment.status}
-                    </span>
-                  </TableCell>
-                  <TableCell>
-                    {(appointment.status === 'Upcoming' || appointment.status === 'Scheduled') && (
-                      <div className="flex gap-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          className="h-8 px-2 text-health-primary"
-                          onClick={() => handleChat(appointment)}
-                        >
-                          <MessageSquare className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          className="h-8 px-2 text-health-primary"
-                          onClick={() => handleVideoCall(appointment)}
-                        >
-                          <Video className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    )}
-                  </TableCell>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-500">{error.message}</p>
+          ) : appointments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              You don't have any appointments yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Doctor</TableHead>
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>Hospital</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {appointments.map(appointment => {
+                  const status = APPOINTMENT_STATUS_DEFINITIONS[appointment.status];
+                  const review = myReviews?.get(appointment.id);
+
+                  return (
+                    <TableRow key={appointment.id}>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{appointment.doctorName}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {CONSULTATION_TYPE_LABELS[appointment.consultationType]}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatAppointmentDate(appointment.appointmentDate)}</TableCell>
+                      <TableCell>{appointment.hospital}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                        {appointment.paymentStatus === 'refund_requested' && (
+                          <p className="text-xs text-muted-foreground mt-1">Refund requested</p>
+                        )}
+                        {appointment.paymentStatus === 'refunded' && (
+                          <p className="text-xs text-muted-foreground mt-1">Refunded</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {isUpcoming(appointment, now) && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 px-2 text-health-primary"
+                                onClick={() => handleChat(appointment)}
+                                disabled={!appointment.doctorId}
+                                aria-label="Message doctor"
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                              {appointment.consultationType === 'video' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 px-2 text-health-primary"
+                                  onClick={() => handleVideoCall(appointment)}
+                                  aria-label="Start video call"
+                                >
+                                  <Video className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 px-2"
+                                onClick={() => setReschedulingAppointment(appointment)}
+                                aria-label="Reschedule appointment"
+                              >
+                                <CalendarClock className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {canReview(appointment) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2 text-yellow-600"
+                              onClick={() => setReviewingAppointment(appointment)}
+                              aria-label={review ? "Edit your review" : "Rate this consultation"}
+                            >
+                              <Star className={`h-4 w-4 ${review ? 'fill-current' : ''}`} />
+                            </Button>
+                          )}
+                          {canTransition(appointment.status, 'cancelled') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2 text-red-500 hover:text-red-600"
+                              onClick={() => setCancellingAppointment(appointment)}
+                              aria-label="Cancel appointment"
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
 
+      <CancelAppointmentDialog
+        appointment={cancellingAppointment}
+        onOpenChange={(open) => !open && setCancellingAppointment(null)}
+      />
+
+      <RescheduleAppointmentDialog
+        appointment={reschedulingAppointment}
+        onOpenChange={(open) => !open && setReschedulingAppointment(null)}
+      />
+
+      <ReviewDialog
+        appointment={reviewingAppointment}
+        review={reviewingAppointment ? myReviews?.get(reviewingAppointment.id) : undefined}
+        onOpenChange={(open) => !open && setReviewingAppointment(null)}
+      />
+
       {/* Video Call Dialog */}
-      {selectedDoctor && (
-        <DoctorVideoCall 
-          doctorName={selectedDoctor.doctorName}
-          doctorImage={selectedDoctor.image}
+      {selectedAppointment && (
+        <DoctorVideoCall
+          appointment={selectedAppointment}
+          role="patient"
+          peerName={selectedAppointment.doctorName}
+          peerImage={DOCTOR_PLACEHOLDER_IMAGE}
           open={isVideoCallOpen}
           onOpenChange={setIsVideoCallOpen}
         />
       )}
 
       {/* Chat Drawer */}
-      {selectedDoctor && (
-        <DoctorChat 
-          doctorName={selectedDoctor.doctorName}
-          doctorImage={selectedDoctor.image}
+      {selectedAppointment?.doctorId && (
+        <DoctorChat
+          doctorId={selectedAppointment.doctorId}
+          doctorName={selectedAppointment.doctorName}
+          doctorImage={DOCTOR_PLACEHOLDER_IMAGE}
           open={isChatOpen}
           onOpenChange={setIsChatOpen}
         />
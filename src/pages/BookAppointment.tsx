@@ -1,67 +1,61 @@
 
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { format, addDays, startOfDay } from 'date-fns';
+import { useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format, addDays, isBefore, isValid, startOfDay } from 'date-fns';
 import { Calendar, ChevronLeft, ChevronRight, Clock, MapPin, Video, MessageSquare, CreditCard } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { assertSlotAvailable, SLOT_TAKEN_ERROR_CODE, SLOT_TAKEN_MESSAGE, useBookedSlots } from '@/hooks/use-appointments';
+import { useDoctorSchedule } from '@/hooks/use-doctor-schedule';
+import { useDoctor } from '@/hooks/use-doctors';
 import { supabase } from '@/integrations/supabase/client';
-import DoctorVideoCall from '@/components/DoctorVideoCall';
 import DoctorChat from '@/components/DoctorChat';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
-import { loadRazorpay } from '@/utils/razorpay';
+import { loadRazorpay, recordPayment } from '@/utils/razorpay';
+import { generateDaySlots, getWorkingSessions, isOnLeave } from '@/utils/appointmentSlots';
+import { CONSULTATION_TYPE_LABELS } from '@/utils/appointmentStatus';
+import { getConsultationFee } from '@/utils/consultationFees';
+import type { ConsultationType } from '@/types/appointment';
+
+// A slot picked on the doctor's profile, passed as ?slot=<ISO time>; past or invalid times are ignored
+const parseRequestedSlot = (value: string | null): Date | null => {
+  const slot = value ? new Date(value) : null;
+  return slot && isValid(slot) && isBefore(new Date(), slot) ? slot : null;
+};
+
+const parseConsultationType = (value: string | null): ConsultationType =>
+  value && value in CONSULTATION_TYPE_LABELS ? value as ConsultationType : 'in-person';
 
 const BookAppointment = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [doctor, setDoctor] = useState(null);
-  const [selectedDate, setSelectedDate] = useState(startOfDay(new Date()));
-  const [selectedTime, setSelectedTime] = useState(null);
-  const [consultationType, setConsultationType] = useState('in-person');
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const { data: doctor, isLoading: isDoctorLoading, error: doctorError } = useDoctor(id);
+  const [selectedTime, setSelectedTime] = useState<Date | null>(() => parseRequestedSlot(searchParams.get('slot')));
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(selectedTime || new Date()));
+  const [consultationType, setConsultationType] = useState<ConsultationType>(() => parseConsultationType(searchParams.get('type')));
   const [isLoading, setIsLoading] = useState(false);
   const [isPaymentLoading, setIsPaymentLoading] = useState(false);
-  const [isVideoCallOpen, setIsVideoCallOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
 
-  useEffect(() => {
-    // Retrieve selected doctor from localStorage
-    const storedDoctor = localStorage.getItem('selectedDoctor');
-    if (storedDoctor) {
-      setDoctor(JSON.parse(storedDoctor));
-    } else {
-      navigate('/doctor-search');
-    }
-  }, [navigate]);
+  const { data: schedule, isLoading: isScheduleLoading } = useDoctorSchedule(doctor?.name);
+  const { data: bookedSlots = [], isLoading: isBookedLoading } = useBookedSlots(doctor?.name, selectedDate);
 
-  // Generate time slots
-  const generateTimeSlots = () => {
-    const slots = [];
-    const startHour = 9; // 9 AM
-    const endHour = 17; // 5 PM
-    
-    for (let hour = startHour; hour <= endHour; hour++) {
-      // Add two slots per hour (e.g., 9:00 and 9:30)
-      ['00', '30'].forEach(minutes => {
-        // Some random availability for demo purposes
-        const isAvailable = Math.random() > 0.3;
-        slots.push({
-          time: `${hour > 12 ? hour - 12 : hour}:${minutes} ${hour >= 12 ? 'PM' : 'AM'}`,
-          available: isAvailable,
-        });
-      });
-    }
-    
-    return slots;
-  };
-
-  const timeSlots = generateTimeSlots();
+  // Slots come from the doctor's sessions offering this consultation type, minus breaks and existing bookings
+  const timeSlots = schedule ? generateDaySlots(schedule, selectedDate, bookedSlots, new Date(), consultationType) : [];
+  const isSlotsLoading = isScheduleLoading || isBookedLoading;
+  // Only a time that's actually bookable counts, whatever the link asked for
+  const selectedSlot = timeSlots.find(slot => slot.available && slot.start.getTime() === selectedTime?.getTime());
+  const fee = doctor ? getConsultationFee(doctor.feeAmount, consultationType) : 0;
 
   const handleBookAppointment = async () => {
-    if (!selectedTime) {
+    if (!selectedSlot) {
       toast({
         title: "Please select a time",
         description: "You need to select an appointment time to continue",
@@ -90,22 +84,13 @@ const BookAppointment = () => {
     setIsPaymentLoading(true);
     
     try {
-      // Format date string for database
-      const appointmentDate = new Date(selectedDate);
-      const [hours, minutes] = selectedTime.time.split(' ')[0].split(':');
-      const isPM = selectedTime.time.includes('PM');
-      
-      let hour = parseInt(hours);
-      if (isPM && hour !== 12) hour += 12;
-      if (!isPM && hour === 12) hour = 0;
-      
-      appointmentDate.setHours(hour, parseInt(minutes));
+      const appointmentDate = selectedSlot.start;
+
+      // Someone else may have booked the slot since it was shown, so check before taking payment
+      await assertSlotAvailable(doctor.name, appointmentDate);
 
-      // Get fee amount from doctor data
-      const feeAmount = parseInt(doctor.fee.replace(/[^0-9]/g, ''));
-      
       if (paymentMethod === 'razorpay') {
-        await processRazorpayPayment(feeAmount, appointmentDate);
+        await processRazorpayPayment(fee, appointmentDate);
       } else {
         // For demo purposes, just proceed with booking for other payment methods
         await finalizeBooking(appointmentDate);
@@ -146,11 +131,25 @@ const BookAppointment = () => {
           color: '#3399cc'
         },
         handler: async function(response) {
-          // Handle successful payment
-          console.log('Payment successful:', response);
-          
-          // Finalize booking after successful payment
-          await finalizeBooking(appointmentDate, response.razorpay_payment_id);
+          const paymentId = response.razorpay_payment_id;
+
+          try {
+            // Finalize booking after successful payment
+            await finalizeBooking(appointmentDate, paymentId);
+          } catch (error) {
+            // The patient has paid but has no appointment, e.g. the slot went in the meantime
+            console.error('Error booking after payment:', error);
+            recordPayment(paymentId).catch(recordError =>
+              console.error('Error recording payment for refund:', recordError)
+            );
+            toast({
+              title: "Booking failed",
+              description: `${error.message || "An unexpected error occurred"} Your payment (${paymentId}) will be refunded.`,
+              variant: "destructive",
+            });
+            setIsPaymentLoading(false);
+            setIsPaymentDialogOpen(false);
+          }
         },
         modal: {
           ondismiss: function() {
@@ -173,21 +172,33 @@ const BookAppointment = () => {
   const finalizeBooking = async (appointmentDate, paymentId = null) => {
     const { data: { session } } = await supabase.auth.getSession();
     
-    // Insert appointment into database
-    const { error } = await supabase.from('appointments').insert({
+    // Insert appointment into database. It's marked paid once record-payment confirms the payment.
+    const { data: appointment, error } = await supabase.from('appointments').insert({
       user_id: session.user.id,
+      patient_name: session.user.user_metadata.full_name || null,
       doctor_name: doctor.name, 
       appointment_date: appointmentDate.toISOString(),
-      hospital: doctor.location,
+      hospital: `${doctor.hospital}, ${doctor.city}`,
       status: 'scheduled',
-      payment_status: paymentId ? 'paid' : 'pending',
+      payment_status: 'pending',
       payment_id: paymentId,
       consultation_type: consultationType,
-      fee_amount: parseInt(doctor.fee.replace(/[^0-9]/g, ''))
-    });
+      fee_amount: fee
+    }).select('id').single();
 
+    // The slot can still be taken between the check and the insert
+    if (error?.code === SLOT_TAKEN_ERROR_CODE) throw new Error(SLOT_TAKEN_MESSAGE);
     if (error) throw error;
 
+    if (paymentId) {
+      try {
+        await recordPayment(paymentId, appointment.id);
+      } catch (recordError) {
+        // The booking stands; the payment can still be matched up from payment_id
+        console.error('Error recording payment:', recordError);
+      }
+    }
+
     toast({
       title: "Appointment booked!",
       description: `Your appointment with ${doctor.name} has been scheduled`,
@@ -212,22 +223,6 @@ const BookAppointment = () => {
     }
   };
 
-  const handleVideoCall = () => {
-    // Check if user is logged in
-    supabase.auth.getSession().then(({ data }) => {
-      if (!data.session) {
-        toast({
-          title: "Authentication required",
-          description: "Please sign in to start a video call",
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      setIsVideoCallOpen(true);
-    });
-  };
-
   const handleChat = () => {
     // Check if user is logged in
     supabase.auth.getSession().then(({ data }) => {
@@ -244,10 +239,21 @@ const BookAppointment = () => {
     });
   };
 
-  if (!doctor) {
+  if (isDoctorLoading) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   }
 
+  if (doctorError || !doctor) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-500">{doctorError ? doctorError.message : "We couldn't find that doctor."}</p>
+        <Button asChild className="bg-health-primary hover:bg-health-primary/90">
+          <Link to="/doctor-search">Find a doctor</Link>
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm">
@@ -256,10 +262,10 @@ const BookAppointment = () => {
             <h1 className="text-2xl font-bold text-gray-900">Book Appointment</h1>
             <Button 
               variant="outline" 
-              onClick={() => navigate('/doctor-search')}
+              onClick={() => navigate(`/doctors/${doctor.id}`)}
               className="text-health-primary border-health-primary hover:bg-health-primary/10"
             >
-              Back to Search
+              Doctor Profile
             </Button>
           </div>
         </div>
@@ -276,17 +282,17 @@ const BookAppointment = () => {
               <CardContent>
                 <div className="flex items-start gap-4">
                   <img
-                    src={doctor.image}
+                    src={doctor.imageUrl || '/placeholder.svg'}
                     alt={doctor.name}
                     className="w-20 h-20 rounded-md object-cover"
                   />
                   <div>
                     <h3 className="font-medium text-lg">{doctor.name}</h3>
                     <p className="text-gray-500">{doctor.specialty}</p>
-                    <p className="text-gray-500">{doctor.experience} experience</p>
+                    <p className="text-gray-500">{doctor.experienceYears} years experience</p>
                     <div className="mt-2 flex items-start gap-1">
                       <MapPin className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
-                      <span className="text-sm text-gray-600">{doctor.location}</span>
+                      <span className="text-sm text-gray-600">{doctor.hospital}, {doctor.city}</span>
                     </div>
                   </div>
                 </div>
@@ -296,7 +302,11 @@ const BookAppointment = () => {
                   <Tabs 
                     defaultValue="in-person" 
                     value={consultationType}
-                    onValueChange={setConsultationType}
+                    onValueChange={value => {
+                      setConsultationType(value as ConsultationType);
+                      // The chosen time may not be offered for the new consultation type
+                      setSelectedTime(null);
+                    }}
                     className="w-full"
                   >
                     <TabsList className="grid w-full grid-cols-3">
@@ -307,19 +317,19 @@ const BookAppointment = () => {
                     <TabsContent value="in-person" className="mt-4">
                       <div className="flex justify-between items-center">
                         <div>
-                          <span className="font-medium block">{doctor.fee}</span>
+                          <span className="font-medium block">₹{getConsultationFee(doctor.feeAmount, 'in-person')}</span>
                           <span className="text-sm text-gray-500">Consultation Fee</span>
                         </div>
                         <div className="flex items-center text-sm text-blue-600">
                           <Clock className="h-4 w-4 mr-1" />
-                          <span>30 min</span>
+                          <span>{schedule?.slotMinutes ?? 30} min</span>
                         </div>
                       </div>
                     </TabsContent>
                     <TabsContent value="video" className="mt-4">
                       <div className="flex justify-between items-center">
                         <div>
-                          <span className="font-medium block">${parseInt(doctor.fee.substring(1)) - 30}</span>
+                          <span className="font-medium block">₹{getConsultationFee(doctor.feeAmount, 'video')}</span>
                           <span className="text-sm text-gray-500">Video Consultation</span>
                         </div>
                         <div className="flex items-center text-sm text-blue-600">
@@ -327,18 +337,14 @@ const BookAppointment = () => {
                           <span>20 min</span>
                         </div>
                       </div>
-                      <Button 
-                        className="w-full mt-4 bg-health-primary hover:bg-health-primary/90"
-                        onClick={handleVideoCall}
-                      >
-                        <Video className="h-4 w-4 mr-2" />
-                        Start Video Call Now
-                      </Button>
+                      <p className="text-sm text-gray-500 mt-4">
+                        Book a video slot below. You can join the call from Appointments at your appointment time.
+                      </p>
                     </TabsContent>
                     <TabsContent value="chat" className="mt-4">
                       <div className="flex justify-between items-center">
                         <div>
-                          <span className="font-medium block">${parseInt(doctor.fee.substring(1)) - 50}</span>
+                          <span className="font-medium block">₹{getConsultationFee(doctor.feeAmount, 'chat')}</span>
                           <span className="text-sm text-gray-500">Chat Consultation</span>
                         </div>
                         <div className="flex items-center text-sm text-blue-600">
@@ -391,25 +397,41 @@ const BookAppointment = () => {
                 {/* Time Slots */}
                 <div>
                   <h3 className="font-medium mb-3">Available Time Slots</h3>
-                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
-                    {timeSlots.map((slot, index) => (
-                      <Button
-                        key={index}
-                        variant={selectedTime === slot ? "default" : "outline"}
-                        className={`${
-                          !slot.available
-                            ? "opacity-50 cursor-not-allowed"
-                            : selectedTime === slot
-                            ? "bg-health-primary hover:bg-health-primary/90"
-                            : "hover:border-health-primary hover:text-health-primary"
-                        }`}
-                        disabled={!slot.available}
-                        onClick={() => setSelectedTime(slot)}
-                      >
-                        {slot.time}
-                      </Button>
-                    ))}
-                  </div>
+                  {isSlotsLoading ? (
+                    <Skeleton className="h-40 w-full" />
+                  ) : timeSlots.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-6">
+                      {schedule && isOnLeave(schedule, selectedDate)
+                        ? `${doctor.name} is on leave on this day. Try another date.`
+                        : schedule && getWorkingSessions(schedule, selectedDate).length > 0
+                          ? `${doctor.name} doesn't offer ${CONSULTATION_TYPE_LABELS[consultationType].toLowerCase()}s on this day. Try another date or consultation type.`
+                          : `${doctor.name} doesn't see patients on this day. Try another date.`}
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2">
+                      {timeSlots.map(slot => {
+                        const isSelected = selectedTime?.getTime() === slot.start.getTime();
+
+                        return (
+                          <Button
+                            key={slot.start.toISOString()}
+                            variant={isSelected ? "default" : "outline"}
+                            className={`${
+                              !slot.available
+                                ? "opacity-50 cursor-not-allowed"
+                                : isSelected
+                                ? "bg-health-primary hover:bg-health-primary/90"
+                                : "hover:border-health-primary hover:text-health-primary"
+                            }`}
+                            disabled={!slot.available}
+                            onClick={() => setSelectedTime(slot.start)}
+                          >
+                            {format(slot.start, 'h:mm a')}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
 
                 {/* Booking Button */}
@@ -417,7 +439,7 @@ const BookAppointment = () => {
                   <Button 
                     className="w-full bg-health-primary hover:bg-health-primary/90 flex items-center justify-center gap-2"
                     onClick={handleBookAppointment}
-                    disabled={!selectedTime || isLoading}
+                    disabled={!selectedSlot || isLoading}
                   >
                     {isLoading ? "Booking..." : "Proceed to Payment"}
                     <CreditCard className="h-4 w-4" />
@@ -449,21 +471,15 @@ const BookAppointment = () => {
               <div className="space-y-1 text-sm">
                 <p><span className="text-gray-500">Doctor:</span> {doctor.name}</p>
                 <p><span className="text-gray-500">Date:</span> {format(selectedDate, 'MMMM d, yyyy')}</p>
-                <p><span className="text-gray-500">Time:</span> {selectedTime?.time}</p>
-                <p><span className="text-gray-500">Type:</span> {consultationType === 'in-person' ? 'In-Person Visit' : consultationType === 'video' ? 'Video Consultation' : 'Chat Consultation'}</p>
+                <p><span className="text-gray-500">Time:</span> {selectedSlot && format(selectedSlot.start, 'h:mm a')}</p>
+                <p><span className="text-gray-500">Type:</span> {CONSULTATION_TYPE_LABELS[consultationType]}</p>
               </div>
               
               <Separator className="my-3" />
               
               <div className="flex justify-between items-center">
                 <span className="font-medium">Total Amount</span>
-                <span className="font-bold text-lg">
-                  {consultationType === 'in-person' 
-                    ? doctor.fee 
-                    : consultationType === 'video' 
-                      ? `$${parseInt(doctor.fee.substring(1)) - 30}` 
-                      : `$${parseInt(doctor.fee.substring(1)) - 50}`}
-                </span>
+                <span className="font-bold text-lg">₹{fee}</span>
               </div>
             </div>
             
@@ -511,18 +527,11 @@ const BookAppointment = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Video Call Dialog */}
-      <DoctorVideoCall 
-        doctorName={doctor.name}
-        doctorImage={doctor.image}
-        open={isVideoCallOpen}
-        onOpenChange={setIsVideoCallOpen}
-      />
-
       {/* Chat Drawer */}
       <DoctorChat 
+        doctorId={doctor.id}
         doctorName={doctor.name}
-        doctorImage={doctor.image}
+        doctorImage={doctor.imageUrl || '/placeholder.svg'}
         open={isChatOpen}
         onOpenChange={setIsChatOpen}
       />
@@ -1,11 +1,38 @@
 
-import { Heart, Activity, Weight, Thermometer } from 'lucide-react';
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Heart, Activity, Weight, Thermometer, Plus } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import LogVitalDialog from '@/components/vitals/LogVitalDialog';
+import { useFitnessData } from '@/hooks/use-fitness-data';
+import { useVitals } from '@/hooks/use-vitals';
+import { formatVital, VITAL_DEFINITIONS } from '@/utils/vitals';
 
 const Dashboard = () => {
+  const [isLogDialogOpen, setIsLogDialogOpen] = useState(false);
+  const { data: fitness } = useFitnessData('week');
+  const { data: recentVitals = [], isLoading: isVitalsLoading } = useVitals({ limit: 3 });
+  // Fetched per type so an older reading still shows when other types were logged since
+  const { data: [latestWeight] = [] } = useVitals({ types: ['weight'], limit: 1 });
+  const { data: [latestTemperature] = [] } = useVitals({ types: ['temperature'], limit: 1 });
+  const heartRate = fitness?.summary.latestHeartRate;
+  const steps = fitness?.summary.averageSteps;
+
   return (
     <div className="space-y-4 md:space-y-6">
-      <h1 className="text-xl md:text-2xl font-bold">Dashboard</h1>
+      <div className="flex justify-between items-center">
+        <h1 className="text-xl md:text-2xl font-bold">Dashboard</h1>
+        <Button
+          onClick={() => setIsLogDialogOpen(true)}
+          className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Log reading
+        </Button>
+      </div>
+
+      <LogVitalDialog open={isLogDialogOpen} onOpenChange={setIsLogDialogOpen} />
       
       {/* Health Stats Overview */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
@@ -15,7 +42,9 @@ const Dashboard = () => {
               <div>
                 <Heart className="h-6 w-6 md:h-8 md:w-8 text-red-500 mb-2" />
                 <h3 className="text-sm md:text-base text-muted-foreground">Heart Rate</h3>
-                <p className="text-2xl md:text-3xl font-bold mt-1">72 bpm</p>
+                <p className="text-2xl md:text-3xl font-bold mt-1">
+                  {heartRate !== null && heartRate !== undefined ? `${heartRate} bpm` : '--'}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -27,7 +56,9 @@ const Dashboard = () => {
               <div>
                 <Activity className="h-6 w-6 md:h-8 md:w-8 text-blue-500 mb-2" />
                 <h3 className="text-sm md:text-base text-muted-foreground">Steps</h3>
-                <p className="text-2xl md:text-3xl font-bold mt-1">8,439</p>
+                <p className="text-2xl md:text-3xl font-bold mt-1">
+                  {steps !== null && steps !== undefined ? steps.toLocaleString() : '--'}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -39,7 +70,9 @@ const Dashboard = () => {
               <div>
                 <Weight className="h-6 w-6 md:h-8 md:w-8 text-green-500 mb-2" />
                 <h3 className="text-sm md:text-base text-muted-foreground">Weight</h3>
-                <p className="text-2xl md:text-3xl font-bold mt-1">68 kg</p>
+                <p className="text-2xl md:text-3xl font-bold mt-1">
+                  {latestWeight ? formatVital(latestWeight) : '--'}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -51,7 +84,9 @@ const Dashboard = () => {
               <div>
                 <Thermometer className="h-6 w-6 md:h-8 md:w-8 text-amber-500 mb-2" />
                 <h3 className="text-sm md:text-base text-muted-foreground">Temperature</h3>
-                <p className="text-2xl md:text-3xl font-bold mt-1">36.6°C</p>
+                <p className="text-2xl md:text-3xl font-bold mt-1">
+                  {latestTemperature ? formatVital(latestTemperature) : '--'}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -104,31 +139,25 @@ const Dashboard = () => {
             <CardTitle className="text-base md:text-lg">Recent Activities</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-3 md:space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-sm md:text-base font-medium">Blood Pressure Check</h3>
-                  <p className="text-xs md:text-sm text-muted-foreground">2 hours ago</p>
-                </div>
-                <span className="text-xs md:text-sm font-medium">120/80 mmHg</span>
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-sm md:text-base font-medium">Medication Taken</h3>
-                  <p className="text-xs md:text-sm text-muted-foreground">4 hours ago</p>
-                </div>
-                <span className="text-xs md:text-sm font-medium">Morning Dose</span>
+            {isVitalsLoading ? (
+              <p className="text-sm text-muted-foreground">Loading recent readings...</p>
+            ) : recentVitals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No readings logged yet</p>
+            ) : (
+              <div className="space-y-3 md:space-y-4">
+                {recentVitals.slice(0, 3).map(vital => (
+                  <div key={vital.id} className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-sm md:text-base font-medium">{VITAL_DEFINITIONS[vital.type].label}</h3>
+                      <p className="text-xs md:text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(vital.recordedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <span className="text-xs md:text-sm font-medium">{formatVital(vital)}</span>
+                  </div>
+                ))}
               </div>
-              
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-sm md:text-base font-medium">Weight Measurement</h3>
-                  <p className="text-xs md:text-sm text-muted-foreground">1 day ago</p>
-                </div>
-                <span className="text-xs md:text-sm font-medium">68 kg</span>
-              </div>
-            </div>
+            )}
           </CardContent>
         </Card>
       </div>
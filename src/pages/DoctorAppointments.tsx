@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import AppointmentStatusActions from '@/components/doctor/AppointmentStatusActions';
+import DoctorVideoCall from '@/components/DoctorVideoCall';
+import { useDoctorAppointments } from '@/hooks/use-appointments';
+import type { Appointment } from '@/types/appointment';
+import { APPOINTMENT_STATUS_DEFINITIONS, CONSULTATION_TYPE_LABELS, isFinalStatus } from '@/utils/appointmentStatus';
+
+const formatAppointmentDate = (date: string) => {
+  const value = new Date(date);
+  return isToday(value) ? `Today, ${format(value, 'h:mm a')}` : format(value, 'MMM d, yyyy, h:mm a');
+};
+
+const DoctorAppointments = () => {
+  const { data: appointments = [], isLoading, error } = useDoctorAppointments();
+  const [callAppointment, setCallAppointment] = useState<Appointment | null>(null);
+  const now = new Date();
+
+  // Open appointments first, soonest first; then the rest, most recent first
+  const open = appointments.filter(appointment => !isFinalStatus(appointment.status));
+  const closed = appointments.filter(appointment => isFinalStatus(appointment.status)).reverse();
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Appointments</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patient Appointments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-500">{error.message}</p>
+          ) : appointments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No patients have booked with you yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>Hospital</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...open, ...closed].map(appointment => {
+                  const status = APPOINTMENT_STATUS_DEFINITIONS[appointment.status];
+
+                  return (
+                    <TableRow key={appointment.id}>
+                      <TableCell>
+                        <div>
+                          <p className="font-medium">{appointment.patientName || 'Patient'}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {CONSULTATION_TYPE_LABELS[appointment.consultationType]}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatAppointmentDate(appointment.appointmentDate)}</TableCell>
+                      <TableCell>{appointment.hospital}</TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                        >
+                          {status.label}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {appointment.consultationType === 'video' && !isFinalStatus(appointment.status) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="border-health-primary text-health-primary hover:bg-health-primary/10"
+                              onClick={() => setCallAppointment(appointment)}
+                            >
+                              <Video className="h-4 w-4 mr-1" />
+                              Join call
+                            </Button>
+                          )}
+                          <AppointmentStatusActions appointment={appointment} now={now} />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {callAppointment && (
+        <DoctorVideoCall
+          appointment={callAppointment}
+          role="doctor"
+          peerName={callAppointment.patientName || 'Patient'}
+          open={!!callAppointment}
+          onOpenChange={(open) => !open && setCallAppointment(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DoctorAppointments;
@@ -0,0 +1,160 @@
+import { format } from 'date-fns';
+import { CalendarCheck, Users, IndianRupee, Wallet } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import AppointmentStatusActions from '@/components/doctor/AppointmentStatusActions';
+import { useDoctorAppointments } from '@/hooks/use-appointments';
+import { useUserRole } from '@/hooks/use-user-role';
+import { APPOINTMENT_STATUS_DEFINITIONS, CONSULTATION_TYPE_LABELS } from '@/utils/appointmentStatus';
+import { calculateEarnings, getPatientQueue, getTodaysAppointments } from '@/utils/doctorDashboard';
+
+const formatFee = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const DoctorDashboard = () => {
+  const { data: userRole } = useUserRole();
+  const { data: appointments = [], isLoading, error } = useDoctorAppointments();
+
+  const now = new Date();
+  const todaysAppointments = getTodaysAppointments(appointments, now);
+  const queue = getPatientQueue(appointments, now);
+  const earnings = calculateEarnings(appointments, now);
+
+  const stats = [
+    { icon: CalendarCheck, color: 'text-blue-500', label: "Today's Appointments", value: todaysAppointments.length.toString() },
+    { icon: Users, color: 'text-amber-500', label: 'Patients Waiting', value: queue.length.toString() },
+    { icon: IndianRupee, color: 'text-green-500', label: 'Earned Today', value: formatFee(earnings.today) },
+    { icon: Wallet, color: 'text-purple-500', label: 'Earned This Month', value: formatFee(earnings.month) },
+  ];
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div>
+        <h1 className="text-xl md:text-2xl font-bold">Dashboard</h1>
+        {userRole?.doctorName && (
+          <p className="text-muted-foreground">Welcome back, {userRole.doctorName}</p>
+        )}
+      </div>
+
+      {/* Practice Stats Overview */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="pt-4 md:pt-6">
+              <stat.icon className={`h-6 w-6 md:h-8 md:w-8 mb-2 ${stat.color}`} />
+              <h3 className="text-sm md:text-base text-muted-foreground">{stat.label}</h3>
+              <p className="text-2xl md:text-3xl font-bold mt-1">{isLoading ? '--' : stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-red-500">{error.message}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
+          {/* Patient Queue */}
+          <Card>
+            <CardHeader className="py-3 md:py-4">
+              <CardTitle className="text-base md:text-lg">Patient Queue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : queue.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No patients waiting.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {queue.map((appointment, index) => (
+                    <div
+                      key={appointment.id}
+                      className={`p-3 rounded-lg border flex flex-col sm:flex-row sm:items-center justify-between gap-3 ${
+                        index === 0 ? 'border-health-primary bg-health-primary/5' : ''
+                      }`}
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {index + 1}. {appointment.patientName || 'Patient'}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {format(new Date(appointment.appointmentDate), 'h:mm a')} - {CONSULTATION_TYPE_LABELS[appointment.consultationType]}
+                        </p>
+                      </div>
+                      <AppointmentStatusActions appointment={appointment} now={now} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Today's Appointments */}
+          <Card>
+            <CardHeader className="py-3 md:py-4">
+              <CardTitle className="text-base md:text-lg">Today's Appointments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : todaysAppointments.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No appointments booked for today.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Fee</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {todaysAppointments.map(appointment => {
+                      const status = APPOINTMENT_STATUS_DEFINITIONS[appointment.status];
+
+                      return (
+                        <TableRow key={appointment.id}>
+                          <TableCell>{format(new Date(appointment.appointmentDate), 'h:mm a')}</TableCell>
+                          <TableCell>{appointment.patientName || 'Patient'}</TableCell>
+                          <TableCell>{appointment.feeAmount !== null ? formatFee(appointment.feeAmount) : '--'}</TableCell>
+                          <TableCell>
+                            <span
+                              className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${status.className}`}
+                            >
+                              {status.label}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+              {!isLoading && earnings.upcoming > 0 && (
+                <p className="text-sm text-muted-foreground mt-4">
+                  {formatFee(earnings.upcoming)} in fees from upcoming bookings
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DoctorDashboard;
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useMyDoctorListing, useSaveDoctorPractice } from '@/hooks/use-doctors';
+import type { DoctorGender, DoctorPractice as Practice } from '@/types/doctor';
+import { DOCTOR_GENDER_LABELS, DOCTOR_LANGUAGES } from '@/utils/doctorFilters';
+import { MAX_BIO_LENGTH, MAX_EXPERIENCE_YEARS, validateDoctorPractice } from '@/utils/doctorPractice';
+
+const NOT_SAID = 'not-said';
+
+const DoctorPractice = () => {
+  const { toast } = useToast();
+  const { data: listing, isLoading, error } = useMyDoctorListing();
+  const savePractice = useSaveDoctorPractice();
+  const [draft, setDraft] = useState<Practice | null>(null);
+
+  useEffect(() => {
+    if (listing) {
+      setDraft({
+        specialty: listing.specialty,
+        experienceYears: listing.experienceYears,
+        hospital: listing.hospital,
+        city: listing.city,
+        clinicAddress: listing.clinicAddress,
+        feeAmount: listing.feeAmount,
+        languages: listing.languages,
+        gender: listing.gender,
+        offersInPerson: listing.offersInPerson,
+        offersVideo: listing.offersVideo,
+        bio: listing.bio,
+        qualifications: listing.qualifications,
+      });
+    }
+  }, [listing]);
+
+  const updateDraft = (changes: Partial<Practice>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleLanguage = (language: string, checked: boolean) => {
+    if (!draft) return;
+    updateDraft({
+      languages: checked
+        ? [...draft.languages, language]
+        : draft.languages.filter(item => item !== language),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationError = validateDoctorPractice(draft);
+    if (validationError) {
+      toast({
+        title: "Check your practice details",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await savePractice.mutateAsync(draft);
+      toast({
+        title: "Practice details saved",
+        description: "Patients will see them when searching for doctors",
+      });
+    } catch (error) {
+      console.error('Error saving practice details:', error);
+      toast({
+        title: "Could not save practice details",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error.message}</p>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!listing || !draft) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your account isn't linked to a directory listing yet. Please contact support.
+      </p>
+    );
+  }
+
+  const isSaving = savePractice.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Practice</h1>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {isSaving ? "Saving..." : "Save details"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Practice Details</CardTitle>
+          <CardDescription>
+            Listed as {listing.name} in the doctor directory.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="specialty">Specialty</Label>
+            <Input
+              id="specialty"
+              value={draft.specialty}
+              onChange={event => updateDraft({ specialty: event.target.value })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="experience">Years of experience</Label>
+            <Input
+              id="experience"
+              type="number"
+              min={0}
+              max={MAX_EXPERIENCE_YEARS}
+              value={draft.experienceYears}
+              onChange={event => updateDraft({ experienceYears: Number(event.target.value) })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="hospital">Hospital or clinic</Label>
+            <Input
+              id="hospital"
+              value={draft.hospital}
+              onChange={event => updateDraft({ hospital: event.target.value })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="city">City</Label>
+            <Input
+              id="city"
+              value={draft.city}
+              onChange={event => updateDraft({ city: event.target.value })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="clinic-address">Clinic address</Label>
+            <Input
+              id="clinic-address"
+              value={draft.clinicAddress || ''}
+              onChange={event => updateDraft({ clinicAddress: event.target.value })}
+              placeholder="Street, area and PIN code"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee">In-person consultation fee (₹)</Label>
+            <Input
+              id="fee"
+              type="number"
+              min={0}
+              value={draft.feeAmount}
+              onChange={event => updateDraft({ feeAmount: Number(event.target.value) })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gender">Gender</Label>
+            <Select
+              value={draft.gender || NOT_SAID}
+              onValueChange={value => updateDraft({ gender: value === NOT_SAID ? null : value as DoctorGender })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="gender">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_SAID}>Prefer not to say</SelectItem>
+                {Object.entries(DOCTOR_GENDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>About You</CardTitle>
+          <CardDescription>Shown on your public profile.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bio">Bio</Label>
+            <Textarea
+              id="bio"
+              value={draft.bio || ''}
+              onChange={event => updateDraft({ bio: event.target.value })}
+              placeholder="Your background, areas of interest and approach to care"
+              rows={5}
+              maxLength={MAX_BIO_LENGTH}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="qualifications">Qualifications</Label>
+            <Textarea
+              id="qualifications"
+              value={draft.qualifications.join('\n')}
+              onChange={event => updateDraft({ qualifications: event.target.value.split('\n') })}
+              placeholder={'One per line, e.g.\nMBBS, AIIMS Delhi\nMD (Cardiology), PGIMER Chandigarh'}
+              rows={4}
+              disabled={isSaving}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Consultations</CardTitle>
+          <CardDescription>
+            Patients can filter by these. Set the times you offer each on your schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="offers-in-person">In-person visits</Label>
+            <Switch
+              id="offers-in-person"
+              checked={draft.offersInPerson}
+              onCheckedChange={checked => updateDraft({ offersInPerson: checked })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="offers-video">Video consultations</Label>
+            <Switch
+              id="offers-video"
+              checked={draft.offersVideo}
+              onCheckedChange={checked => updateDraft({ offersVideo: checked })}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Languages you consult in</Label>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {DOCTOR_LANGUAGES.map(language => (
+                <label key={language} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.languages.includes(language)}
+                    onCheckedChange={checked => toggleLanguage(language, checked === true)}
+                    disabled={isSaving}
+                  />
+                  {language}
+                </label>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DoctorPractice;
@@ -0,0 +1,216 @@
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, GraduationCap, Languages, MapPin, Video } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import ClinicMap from '@/components/doctors/ClinicMap';
+import NextAvailableSlots from '@/components/doctors/NextAvailableSlots';
+import ReviewList from '@/components/reviews/ReviewList';
+import StarRating from '@/components/reviews/StarRating';
+import { useDoctor } from '@/hooks/use-doctors';
+import type { ConsultationType } from '@/types/appointment';
+import { getBookingPath } from '@/utils/appointmentSlots';
+import { CONSULTATION_TYPE_LABELS } from '@/utils/appointmentStatus';
+import { getConsultationFee } from '@/utils/consultationFees';
+
+const DoctorProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: doctor, isLoading, error } = useDoctor(id);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <Skeleton className="h-48 w-full rounded-lg" />
+          <Skeleton className="h-64 w-full rounded-lg" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-sm text-red-500">{error.message}</p>;
+    }
+
+    if (!doctor) {
+      return (
+        <div className="text-center py-12">
+          <h2 className="text-lg font-medium mb-2">Doctor not found</h2>
+          <p className="text-gray-500 mb-4">This doctor may no longer be listed.</p>
+          <Button asChild className="bg-health-primary hover:bg-health-primary/90">
+            <Link to="/doctor-search">Find another doctor</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    const consultationTypes: ConsultationType[] = [
+      ...(doctor.offersInPerson ? ['in-person' as const] : []),
+      ...(doctor.offersVideo ? ['video' as const] : []),
+      'chat',
+    ];
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col gap-6 md:flex-row">
+              <img
+                src={doctor.imageUrl || '/placeholder.svg'}
+                alt={doctor.name}
+                className="h-32 w-32 rounded-full object-cover"
+              />
+              <div className="flex-1 space-y-2">
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">{doctor.name}</h1>
+                  <p className="text-gray-500">{doctor.specialty}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {doctor.reviewCount > 0 ? (
+                    <>
+                      <StarRating value={doctor.rating} />
+                      <span className="text-sm font-medium">{doctor.rating.toFixed(1)}</span>
+                      <span className="text-sm text-gray-500">({doctor.reviewCount} reviews)</span>
+                    </>
+                  ) : (
+                    <span className="text-sm text-gray-500">No reviews yet</span>
+                  )}
+                </div>
+                <div className="flex items-start gap-1 text-sm text-gray-500">
+                  <MapPin className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                  <span>{doctor.hospital}, {doctor.city}</span>
+                </div>
+                <div className="flex items-center gap-1 text-sm text-gray-500">
+                  <Calendar className="h-4 w-4 text-gray-400" />
+                  <span>{doctor.experienceYears} years experience</span>
+                </div>
+                {doctor.languages.length > 0 && (
+                  <div className="flex items-center gap-1 text-sm text-gray-500">
+                    <Languages className="h-4 w-4 text-gray-400" />
+                    <span>{doctor.languages.join(', ')}</span>
+                  </div>
+                )}
+                {doctor.offersVideo && (
+                  <div className="flex items-center gap-1 text-sm text-gray-500">
+                    <Video className="h-4 w-4 text-gray-400" />
+                    <span>Offers video consultations</span>
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col items-start gap-3 md:items-end">
+                <div>
+                  <span className="text-2xl font-bold text-gray-900">₹{doctor.feeAmount}</span>
+                  <span className="text-sm text-gray-500 ml-1">consultation fee</span>
+                </div>
+                <Button asChild className="bg-health-primary hover:bg-health-primary/90">
+                  <Link to={getBookingPath(doctor.id)}>Book Appointment</Link>
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          <div className="flex-1 space-y-6">
+            {doctor.bio && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>About</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{doctor.bio}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {doctor.qualifications.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Qualifications</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {doctor.qualifications.map(qualification => (
+                      <li key={qualification} className="flex items-start gap-2 text-sm text-gray-700">
+                        <GraduationCap className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                        {qualification}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Patient Reviews</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReviewList
+                  doctorId={doctor.id}
+                  emptyMessage="No reviews yet. Patients can review a doctor after a completed appointment."
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="w-full lg:w-96 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Next Available</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NextAvailableSlots doctor={doctor} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Fees</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {consultationTypes.map(type => (
+                  <div key={type} className="flex justify-between text-sm">
+                    <span className="text-gray-500">{CONSULTATION_TYPE_LABELS[type]}</span>
+                    <span className="font-medium">₹{getConsultationFee(doctor.feeAmount, type)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Clinic</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm">
+                  <p className="font-medium">{doctor.hospital}</p>
+                  {doctor.clinicAddress && <p className="text-gray-500">{doctor.clinicAddress}</p>}
+                  <p className="text-gray-500">{doctor.city}</p>
+                </div>
+                {doctor.coordinates && (
+                  <ClinicMap coordinates={doctor.coordinates} label={doctor.hospital} />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-5xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        <Button asChild variant="ghost" className="mb-4 -ml-2">
+          <Link to="/doctor-search">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All doctors
+          </Link>
+        </Button>
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
+
+export default DoctorProfile;
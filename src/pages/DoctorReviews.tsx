@@ -0,0 +1,54 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import ReviewList from '@/components/reviews/ReviewList';
+import { useMyDoctorListing } from '@/hooks/use-doctors';
+
+const DoctorReviews = () => {
+  const { data: listing, isLoading, error } = useMyDoctorListing();
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error.message}</p>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!listing) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your account isn't linked to a directory listing yet. Please contact support.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Reviews</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Patient Reviews</CardTitle>
+          <CardDescription>
+            Reply publicly to thank patients or address their feedback. Report reviews that
+            break the rules and a moderator will decide whether to take them down.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReviewList
+            doctorId={listing.id}
+            canRespond
+            emptyMessage="No reviews yet. Patients can review you after a completed appointment."
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DoctorReviews;
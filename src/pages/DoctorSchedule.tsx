@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import BreaksEditor from '@/components/doctor/BreaksEditor';
+import LeaveDaysEditor from '@/components/doctor/LeaveDaysEditor';
+import WeeklyHoursEditor from '@/components/doctor/WeeklyHoursEditor';
+import { useToast } from '@/hooks/use-toast';
+import { useMyDoctorSchedule, useSaveDoctorSchedule } from '@/hooks/use-doctor-schedule';
+import type { DoctorSchedule as Schedule } from '@/types/schedule';
+import { validateSchedule } from '@/utils/appointmentSlots';
+
+const SLOT_LENGTHS = [10, 15, 20, 30, 45, 60];
+
+const DoctorSchedule = () => {
+  const { toast } = useToast();
+  const { data: schedule, isLoading, error } = useMyDoctorSchedule();
+  const saveSchedule = useSaveDoctorSchedule();
+  const [draft, setDraft] = useState<Schedule | null>(null);
+
+  useEffect(() => {
+    if (schedule) setDraft(schedule);
+  }, [schedule]);
+
+  const updateDraft = (changes: Partial<Schedule>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationError = validateSchedule(draft);
+    if (validationError) {
+      toast({
+        title: "Check your schedule",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveSchedule.mutateAsync(draft);
+      toast({
+        title: "Schedule saved",
+        description: "Patients will see your new availability when booking",
+      });
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast({
+        title: "Could not save schedule",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error.message}</p>;
+  }
+
+  if (isLoading || !draft) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  const isSaving = saveSchedule.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Schedule</h1>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {isSaving ? "Saving..." : "Save schedule"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly Hours</CardTitle>
+          <CardDescription>
+            Split a day into sessions to offer in-person and video consultations at different times.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="slot-length">Appointment length</Label>
+            <Select
+              value={draft.slotMinutes.toString()}
+              onValueChange={value => updateDraft({ slotMinutes: Number(value) })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="slot-length" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keep a custom length set outside the app selectable */}
+                {[...new Set([...SLOT_LENGTHS, draft.slotMinutes])].sort((a, b) => a - b).map(minutes => (
+                  <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <WeeklyHoursEditor
+            weeklyHours={draft.weeklyHours}
+            onChange={weeklyHours => updateDraft({ weeklyHours })}
+            disabled={isSaving}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Breaks</CardTitle>
+          <CardDescription>No appointments are offered during breaks.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BreaksEditor
+            breaks={draft.breaks}
+            onChange={breaks => updateDraft({ breaks })}
+            disabled={isSaving}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays & Leave</CardTitle>
+          <CardDescription>
+            Existing bookings on these days aren't cancelled automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LeaveDaysEditor
+            leaveDays={draft.leaveDays}
+            onChange={leaveDays => updateDraft({ leaveDays })}
+            disabled={isSaving}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DoctorSchedule;
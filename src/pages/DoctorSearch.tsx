@@ -1,24 +1,30 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
-  Search, MapPin, Calendar, Star, Filter, 
-  Clock, Video, MessageSquare, Locate, MapIcon, ListFilter 
+  Search, MapPin, Calendar, Star, ChevronLeft, ChevronRight,
+  Clock, Video, MessageSquare, Locate, MapIcon, ListFilter, Languages
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import DoctorVideoCall from '@/components/DoctorVideoCall';
 import DoctorChat from '@/components/DoctorChat';
 import { GoogleMap, useLoadScript, Marker, InfoWindow, Libraries } from '@react-google-maps/api';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useQuery } from '@tanstack/react-query';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import BackToHomeButton from '@/components/navigation/BackToHomeButton';
-import { useDoctorSearch } from '@/components/DoctorSearchContext';
-import { additionalDoctors } from '@/utils/doctorData';
+import DoctorFiltersSheet from '@/components/doctors/DoctorFiltersSheet';
+import { DOCTORS_PAGE_SIZE, useDoctors, useDoctorSpecialties, useNearbyDoctors } from '@/hooks/use-doctors';
+import type { Coordinates, Doctor, DoctorSearchParams, DoctorSort } from '@/types/doctor';
+import { getBookingPath } from '@/utils/appointmentSlots';
+import { getConsultationFee } from '@/utils/consultationFees';
+import { DOCTOR_SORT_LABELS, parseDoctorSearch, toDoctorSearchParams } from '@/utils/doctorFilters';
+
+type NearbyDoctor = Doctor & { distanceKm: number };
 
 // Define libraries using the proper Libraries type
 const libraries: Libraries = ['places'];
@@ -36,257 +42,63 @@ const defaultCenter = {
   lng: 78.9629
 };
 
-// Function to convert dollar amount to rupees no longer needed since we're using direct rupee values
-// Keeping it just in case it's needed for backward compatibility
-const convertToRupees = (dollarAmount: string): string => {
-  // Return the value directly if it's already in rupees
-  if (dollarAmount.startsWith('₹')) return dollarAmount;
-  
-  // Extract numeric value from string (e.g., "$150" -> 150)
-  const numericValue = parseInt(dollarAmount.replace(/[^0-9]/g, ''), 10);
-  // Convert to rupees (much lower value to reflect Indian standards)
-  const rupeesValue = numericValue * 8; // Significantly reduced conversion rate
-  // Return formatted rupee amount
-  return `₹${rupeesValue}`;
-};
+const NEARBY_RADIUS_KM = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Shown when a doctor has no photo or it fails to load
+const FALLBACK_DOCTOR_IMAGE = "https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3";
+
+const formatFee = (amount: number) => `₹${amount}`;
 
 const DoctorSearch = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { showMoreDoctors } = useDoctorSearch();
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedSpecialty, setSelectedSpecialty] = useState('All');
-  const [isVideoCallOpen, setIsVideoCallOpen] = useState(false);
+  // The search lives in the URL so it survives a reload and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = useMemo(() => parseDoctorSearch(searchParams), [searchParams]);
+  const [searchQuery, setSearchQuery] = useState(search.query);
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [selectedDoctor, setSelectedDoctor] = useState(null);
-  const [userLocation, setUserLocation] = useState(null);
+  const [selectedDoctor, setSelectedDoctor] = useState<Doctor | null>(null);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
   const [locationStatus, setLocationStatus] = useState('');
   const [mapCenter, setMapCenter] = useState(defaultCenter);
-  const [selectedMapDoctor, setSelectedMapDoctor] = useState(null);
+  const [selectedMapDoctor, setSelectedMapDoctor] = useState<NearbyDoctor | null>(null);
   const [activeTab, setActiveTab] = useState('all');
 
-  // Base doctor data with Indian names, locations in India and updated fees
-  const baseDoctors = [
-    {
-      id: 1,
-      name: 'Dr. Neha Sharma',
-      specialty: 'Cardiologist',
-      experience: '15 years',
-      location: "Apollo Hospital, Mumbai",
-      rating: 4.8,
-      reviews: 127,
-      fee: '₹1200',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1559839734-2b71ea197ec2?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 19.0760, lng: 72.8777 }
-    },
-    {
-      id: 2,
-      name: 'Dr. Amit Patel',
-      specialty: 'Dermatologist',
-      experience: '12 years',
-      location: "SkinCare Clinic, Delhi",
-      rating: 4.6,
-      reviews: 95,
-      fee: '₹900',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 28.6139, lng: 77.2090 }
-    },
-    {
-      id: 3,
-      name: 'Dr. Deepa Gupta',
-      specialty: 'Gynecologist',
-      experience: '10 years',
-      location: "Women's Health Center, Chennai",
-      rating: 4.7,
-      reviews: 110,
-      fee: '₹950',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1588173454394-29842817ae78?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 13.0826, lng: 80.2707 }
-    },
-    {
-      id: 4,
-      name: 'Dr. Vivek Agarwal',
-      specialty: 'Pediatrician',
-      experience: '8 years',
-      location: "Children's Hospital, Kolkata",
-      rating: 4.9,
-      reviews: 142,
-      fee: '₹800',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1628592737646-999419db23c5?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 22.5726, lng: 88.3639 }
-    },
-    {
-      id: 5,
-      name: 'Dr. Kavita Reddy',
-      specialty: 'Orthopedic',
-      experience: '14 years',
-      location: "Orthopedic Clinic, Hyderabad",
-      rating: 4.5,
-      reviews: 88,
-      fee: '₹1100',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1591604029549-92755189876a?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 17.3850, lng: 78.4867 }
-    },
-    {
-      id: 6,
-      name: 'Dr. Rahul Mehta',
-      specialty: 'Neurologist',
-      experience: '11 years',
-      location: "NeuroCare Center, Bangalore",
-      rating: 4.7,
-      reviews: 105,
-      fee: '₹1000',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1505751172876-9aba583c2bf6?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 12.9716, lng: 77.5946 }
-    },
-    {
-      id: 7,
-      name: 'Dr. Pooja Desai',
-      specialty: 'Cardiologist',
-      experience: '9 years',
-      location: "Heart Health Clinic, Pune",
-      rating: 4.6,
-      reviews: 92,
-      fee: '₹950',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1532938314630-e96f17bb43e3?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 18.5204, lng: 73.8567 }
-    },
-    {
-      id: 8,
-      name: 'Dr. Rohan Singhania',
-      specialty: 'Ophthalmologist',
-      experience: '13 years',
-      location: "EyeCare Institute, Hyderabad",
-      rating: 4.8,
-      reviews: 120,
-      fee: '₹900',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1583324113626-70df0f4deaab?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 17.3850, lng: 78.4867 }
-    },
-    {
-      id: 9,
-      name: 'Dr. Ananya Iyer',
-      specialty: 'Psychiatrist',
-      experience: '10 years',
-      location: "Mental Health Clinic, Bangalore",
-      rating: 4.7,
-      reviews: 108,
-      fee: '₹850',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1628890923662-2cb23c2e3cfe?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 12.9716, lng: 77.5946 }
-    },
-    {
-      id: 10,
-      name: 'Dr. Sanjay Joshi',
-      specialty: 'Endocrinologist',
-      experience: '12 years',
-      location: "Diabetes & Hormone Center, Mumbai",
-      rating: 4.9,
-      reviews: 135,
-      fee: '₹950',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1537368910025-703dfdb6a5de?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 19.0760, lng: 72.8777 }
-    },
-    {
-      id: 11,
-      name: 'Dr. Sneha Mukherjee',
-      specialty: 'Allergist',
-      experience: '8 years',
-      location: "Allergy & Asthma Clinic, Delhi",
-      rating: 4.6,
-      reviews: 85,
-      fee: '₹850',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1532938314630-e96f17bb43e3?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 28.6139, lng: 77.2090 }
-    },
-    {
-      id: 12,
-      name: 'Dr. Karthik Venkatesh',
-      specialty: 'Urologist',
-      experience: '14 years',
-      location: "Urology Associates, Chennai",
-      rating: 4.7,
-      reviews: 112,
-      fee: '₹1000',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1505751172876-9aba583c2bf6?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 13.0826, lng: 80.2707 }
-    },
-    {
-      id: 13,
-      name: 'Dr. Ritu Malhotra',
-      specialty: 'Oncologist',
-      experience: '11 years',
-      location: "Cancer Treatment Center, Bangalore",
-      rating: 4.8,
-      reviews: 128,
-      fee: '₹1100',
-      availableToday: false,
-      image: 'https://images.unsplash.com/photo-1591604029549-92755189876a?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 12.9716, lng: 77.5946 }
-    },
-    {
-      id: 14,
-      name: 'Dr. Satish Nair',
-      specialty: 'Rheumatologist',
-      experience: '9 years',
-      location: "Arthritis & Joint Clinic, Pune",
-      rating: 4.5,
-      reviews: 90,
-      fee: '₹950',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1583324113626-70df0f4deaab?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 18.5204, lng: 73.8567 }
-    },
-    {
-      id: 15,
-      name: 'Dr. Maya Chatterjee',
-      specialty: 'Hematologist',
-      experience: '13 years',
-      location: "Blood Disorder Center, Mumbai",
-      rating: 4.9,
-      reviews: 145,
-      fee: '₹1000',
-      availableToday: true,
-      image: 'https://images.unsplash.com/photo-1537368910025-703dfdb6a5de?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3',
-      coordinates: { lat: 19.0760, lng: 72.8777 }
+  // Any change other than paging starts again from the first page
+  const updateSearch = useCallback((changes: Partial<DoctorSearchParams>, replace = false) => {
+    setSearchParams(toDoctorSearchParams({ ...search, page: 0, ...changes }), { replace });
+  }, [search, setSearchParams]);
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    if (searchQuery === search.query) return;
+    const timeout = setTimeout(() => updateSearch({ query: searchQuery }, true), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, search.query, updateSearch]);
+
+  // Follow the URL when it changes underneath us, e.g. going back
+  useEffect(() => {
+    setSearchQuery(search.query);
+  }, [search.query]);
+
+  // The online tab only lists doctors who offer video consultations
+  const tabSearch: DoctorSearchParams = activeTab === 'online' ? { ...search, mode: 'video' } : search;
+
+  const { data: results, isLoading, isFetching, error } = useDoctors(tabSearch, userLocation);
+  const { data: specialties = [] } = useDoctorSpecialties(tabSearch);
+  const { data: nearbyDoctors = [] } = useNearbyDoctors(userLocation, NEARBY_RADIUS_KM);
+
+  const doctors = results?.doctors || [];
+  const total = results?.total || 0;
+  const pageCount = Math.ceil(total / DOCTORS_PAGE_SIZE);
+
+  // A link to a page that no longer exists falls back to the first page
+  useEffect(() => {
+    if (results && results.doctors.length === 0 && search.page > 0) {
+      updateSearch({ page: 0 }, true);
     }
-  ];
-
-  // Combine doctors based on the showMoreDoctors flag
-  const doctors = showMoreDoctors 
-    ? [...baseDoctors, ...additionalDoctors]
-    : baseDoctors;
-
-  // Update specialties list to include all specialties from doctors data
-  const specialties = [
-    'All', 
-    'Cardiologist', 
-    'Dermatologist', 
-    'Gynecologist', 
-    'Neurologist', 
-    'Pediatrician', 
-    'Orthopedic',
-    'Ophthalmologist',
-    'Psychiatrist',
-    'Endocrinologist',
-    'Allergist',
-    'Urologist',
-    'Oncologist',
-    'Rheumatologist',
-    'Hematologist'
-  ];
+  }, [results, search.page, updateSearch]);
 
   const { isLoaded, loadError } = useLoadScript({
     googleMapsApiKey: "YOUR_API_KEY",
@@ -334,84 +146,25 @@ const DoctorSearch = () => {
     }
   }, [toast]);
 
-  const calculateDistance = useCallback((lat1, lon1, lat2, lon2) => {
-    const R = 6371;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-    const d = R * c;
-    return d;
-  }, []);
-
-  const getSortedDoctorsByDistance = useCallback(() => {
-    if (!userLocation) return [...doctors];
-    
-    return [...doctors].sort((a, b) => {
-      const distanceA = calculateDistance(
-        userLocation.lat, 
-        userLocation.lng, 
-        a.coordinates.lat, 
-        a.coordinates.lng
-      );
-      const distanceB = calculateDistance(
-        userLocation.lat, 
-        userLocation.lng, 
-        b.coordinates.lat, 
-        b.coordinates.lng
-      );
-      return distanceA - distanceB;
-    });
-  }, [userLocation, calculateDistance, doctors]);
-
-  const getFilteredDoctors = useCallback(() => {
-    let filtered = getSortedDoctorsByDistance();
-    
-    if (selectedSpecialty !== 'All') {
-      filtered = filtered.filter(doctor => doctor.specialty === selectedSpecialty);
+  const handleTabChange = (value: string) => {
+    setActiveTab(value);
+    if (search.page > 0) {
+      updateSearch({ page: 0 });
     }
-    
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(doctor => 
-        doctor.name.toLowerCase().includes(query) ||
-        doctor.specialty.toLowerCase().includes(query) ||
-        doctor.location.toLowerCase().includes(query)
-      );
+    if (value === 'nearby' && !userLocation) {
+      getUserLocation();
     }
-    
-    return filtered;
-  }, [getSortedDoctorsByDistance, selectedSpecialty, searchQuery]);
-
-  const getNearbyDoctors = useCallback(() => {
-    if (!userLocation) return [];
-    
-    return getSortedDoctorsByDistance().filter(doctor => {
-      const distance = calculateDistance(
-        userLocation.lat,
-        userLocation.lng,
-        doctor.coordinates.lat,
-        doctor.coordinates.lng
-      );
-      return distance <= 50;
-    });
-  }, [userLocation, getSortedDoctorsByDistance, calculateDistance, doctors]);
-
-  const getOnlineDoctors = useCallback(() => {
-    return getFilteredDoctors().filter(doctor => doctor.id % 2 === 0);
-  }, [getFilteredDoctors]);
+  };
 
-  const handleTabChange = (value) => {
-    setActiveTab(value);
-    if (value === 'nearby' && !userLocation) {
+  const handleSortChange = (sort: DoctorSort) => {
+    updateSearch({ sort });
+    // Until we know where the patient is, distance results fall back to top rated
+    if (sort === 'distance' && !userLocation) {
       getUserLocation();
     }
   };
 
-  const handleBookAppointment = async (doctor) => {
+  const handleBookAppointment = async (doctor: Doctor) => {
     const { data } = await supabase.auth.getSession();
     
     if (!data.session) {
@@ -423,27 +176,15 @@ const DoctorSearch = () => {
       return;
     }
 
-    localStorage.setItem('selectedDoctor', JSON.stringify(doctor));
-    navigate('/book-appointment');
+    navigate(getBookingPath(doctor.id));
   };
 
-  const handleVideoCall = (doctor) => {
-    supabase.auth.getSession().then(({ data }) => {
-      if (!data.session) {
-        toast({
-          title: "Authentication required",
-          description: "Please sign in to start a video call",
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      setSelectedDoctor(doctor);
-      setIsVideoCallOpen(true);
-    });
+  // Video calls run inside a booked appointment, so send patients to pick a video slot
+  const handleVideoCall = (doctor: Doctor) => {
+    navigate(`${getBookingPath(doctor.id)}?type=video`);
   };
 
-  const handleChat = (doctor) => {
+  const handleChat = (doctor: Doctor) => {
     supabase.auth.getSession().then(({ data }) => {
       if (!data.session) {
         toast({
@@ -459,17 +200,8 @@ const DoctorSearch = () => {
     });
   };
 
-  const DoctorCard = ({ doctor, showDistance = false }) => {
-    const distanceText = showDistance && userLocation ? 
-      `${calculateDistance(
-        userLocation.lat, 
-        userLocation.lng, 
-        doctor.coordinates.lat, 
-        doctor.coordinates.lng
-      ).toFixed(1)} km away` : '';
-
-    // Convert fee from dollars to rupees
-    const feeInRupees = convertToRupees(doctor.fee);
+  const DoctorCard = ({ doctor, distanceKm }: { doctor: Doctor; distanceKm?: number | null }) => {
+    const distanceText = typeof distanceKm === 'number' ? `${distanceKm.toFixed(1)} km away` : '';
 
     return (
       <Card key={doctor.id} className="overflow-hidden">
@@ -477,35 +209,39 @@ const DoctorSearch = () => {
           <div className="flex flex-col md:flex-row">
             <div className="w-full md:w-1/4 bg-gray-100">
               <img
-                src={doctor.image}
+                src={doctor.imageUrl || FALLBACK_DOCTOR_IMAGE}
                 alt={doctor.name}
                 className="w-full h-40 md:h-full object-cover"
                 loading="lazy" 
                 onError={(e) => {
                   const target = e.target as HTMLImageElement;
-                  target.src = "https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3"; // fallback image
+                  target.src = FALLBACK_DOCTOR_IMAGE;
                 }}
               />
             </div>
             <div className="flex-1 p-4">
               <div className="flex justify-between">
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900">{doctor.name}</h3>
+                  <h3 className="text-lg font-medium text-gray-900">
+                    <Link to={`/doctors/${doctor.id}`} className="hover:text-health-primary hover:underline">
+                      {doctor.name}
+                    </Link>
+                  </h3>
                   <p className="text-sm text-gray-500">{doctor.specialty}</p>
                   <div className="flex items-center mt-1">
-                    <Star className="h-4 w-4 text-yellow-500 fill-current" />
-                    <span className="ml-1 text-sm font-medium">{doctor.rating}</span>
-                    <span className="ml-1 text-sm text-gray-500">({doctor.reviews} reviews)</span>
+                    {doctor.reviewCount > 0 ? (
+                      <>
+                        <Star className="h-4 w-4 text-yellow-500 fill-current" />
+                        <span className="ml-1 text-sm font-medium">{doctor.rating.toFixed(1)}</span>
+                        <span className="ml-1 text-sm text-gray-500">({doctor.reviewCount} reviews)</span>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">No reviews yet</span>
+                    )}
                   </div>
                 </div>
                 <div className="flex flex-col items-end gap-1">
-                  {doctor.availableToday && (
-                    <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full flex items-center">
-                      <Clock className="h-3 w-3 mr-1" />
-                      Available Today
-                    </span>
-                  )}
-                  {showDistance && distanceText && (
+                  {distanceText && (
                     <span className="bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded-full flex items-center">
                       <MapPin className="h-3 w-3 mr-1" />
                       {distanceText}
@@ -516,16 +252,22 @@ const DoctorSearch = () => {
               <div className="mt-2">
                 <div className="flex items-start gap-1 text-sm text-gray-500">
                   <MapPin className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
-                  <span>{doctor.location}</span>
+                  <span>{doctor.hospital}, {doctor.city}</span>
                 </div>
                 <div className="flex items-center mt-1 text-sm text-gray-500">
                   <Calendar className="h-4 w-4 text-gray-400 mr-1" />
-                  <span>{doctor.experience} experience</span>
+                  <span>{doctor.experienceYears} years experience</span>
                 </div>
+                {doctor.languages.length > 0 && (
+                  <div className="flex items-center mt-1 text-sm text-gray-500">
+                    <Languages className="h-4 w-4 text-gray-400 mr-1" />
+                    <span>{doctor.languages.join(', ')}</span>
+                  </div>
+                )}
               </div>
               <div className="flex justify-between items-center mt-4">
                 <div>
-                  <span className="text-lg font-medium text-gray-900">{feeInRupees}</span>
+                  <span className="text-lg font-medium text-gray-900">{formatFee(doctor.feeAmount)}</span>
                   <span className="text-sm text-gray-500 ml-1">consultation fee</span>
                 </div>
                 <Button 
@@ -542,14 +284,8 @@ const DoctorSearch = () => {
     );
   };
 
-  const OnlineDoctorCard = ({ doctor }) => {
-    // Apply a 20% discount for online consultations from the regular fee
-    const fee = doctor.fee;
-    // Remove the ₹ symbol and convert to number
-    const feeNumber = parseInt(fee.replace('₹', ''), 10);
-    // Apply 20% discount
-    const discountedFee = Math.round(feeNumber * 0.8);
-    const discountedFeeFormatted = `₹${discountedFee}`;
+  const OnlineDoctorCard = ({ doctor }: { doctor: Doctor }) => {
+    const videoFeeFormatted = formatFee(getConsultationFee(doctor.feeAmount, 'video'));
 
     return (
       <Card key={`online-${doctor.id}`} className="overflow-hidden">
@@ -557,25 +293,35 @@ const DoctorSearch = () => {
           <div className="flex flex-col md:flex-row">
             <div className="w-full md:w-1/4 bg-gray-100">
               <img
-                src={doctor.image}
+                src={doctor.imageUrl || FALLBACK_DOCTOR_IMAGE}
                 alt={doctor.name}
                 className="w-full h-40 md:h-full object-cover"
                 loading="lazy"
                 onError={(e) => {
                   const target = e.target as HTMLImageElement;
-                  target.src = "https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3"; // fallback image
+                  target.src = FALLBACK_DOCTOR_IMAGE;
                 }}
               />
             </div>
             <div className="flex-1 p-4">
               <div className="flex justify-between">
                 <div>
-                  <h3 className="text-lg font-medium text-gray-900">{doctor.name}</h3>
+                  <h3 className="text-lg font-medium text-gray-900">
+                    <Link to={`/doctors/${doctor.id}`} className="hover:text-health-primary hover:underline">
+                      {doctor.name}
+                    </Link>
+                  </h3>
                   <p className="text-sm text-gray-500">{doctor.specialty}</p>
                   <div className="flex items-center mt-1">
-                    <Star className="h-4 w-4 text-yellow-500 fill-current" />
-                    <span className="ml-1 text-sm font-medium">{doctor.rating}</span>
-                    <span className="ml-1 text-sm text-gray-500">({doctor.reviews} reviews)</span>
+                    {doctor.reviewCount > 0 ? (
+                      <>
+                        <Star className="h-4 w-4 text-yellow-500 fill-current" />
+                        <span className="ml-1 text-sm font-medium">{doctor.rating.toFixed(1)}</span>
+                        <span className="ml-1 text-sm text-gray-500">({doctor.reviewCount} reviews)</span>
+                      </>
+                    ) : (
+                      <span className="text-sm text-gray-500">No reviews yet</span>
+                    )}
                   </div>
                 </div>
                 <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full flex items-center">
@@ -586,12 +332,12 @@ const DoctorSearch = () => {
               <div className="mt-2">
                 <div className="flex items-center mt-1 text-sm text-gray-500">
                   <Calendar className="h-4 w-4 text-gray-400 mr-1" />
-                  <span>{doctor.experience} experience</span>
+                  <span>{doctor.experienceYears} years experience</span>
                 </div>
               </div>
               <div className="flex justify-between items-center mt-4">
                 <div>
-                  <span className="text-lg font-medium text-gray-900">{discountedFeeFormatted}</span>
+                  <span className="text-lg font-medium text-gray-900">{videoFeeFormatted}</span>
                   <span className="text-sm text-gray-500 ml-1">video consultation</span>
                 </div>
                 <div className="flex gap-2">
@@ -608,7 +354,7 @@ const DoctorSearch = () => {
                     onClick={() => handleVideoCall(doctor)}
                   >
                     <Video className="h-4 w-4 mr-1" />
-                    Video Call
+                    Book Video Call
                   </Button>
                 </div>
               </div>
@@ -619,6 +365,58 @@ const DoctorSearch = () => {
     );
   };
 
+  const renderResults = (renderDoctor: (doctor: Doctor & { distanceKm: number | null }) => JSX.Element, emptyMessage: string) => {
+    if (isLoading) {
+      return [0, 1, 2].map(index => <Skeleton key={index} className="h-40 w-full rounded-lg" />);
+    }
+
+    if (error) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (doctors.length === 0) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-gray-500">{emptyMessage}</p>
+        </div>
+      );
+    }
+
+    return doctors.map(renderDoctor);
+  };
+
+  const renderPagination = () => {
+    if (pageCount <= 1) return null;
+
+    return (
+      <div className="flex items-center justify-between pt-2">
+        <Button
+          variant="outline"
+          onClick={() => updateSearch({ page: search.page - 1 })}
+          disabled={search.page === 0 || isFetching}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm text-gray-500">
+          Page {search.page + 1} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          onClick={() => updateSearch({ page: search.page + 1 })}
+          disabled={search.page + 1 >= pageCount || isFetching}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    );
+  };
+
   const renderMapSection = () => {
     if (loadError) {
       return (
@@ -676,7 +474,7 @@ const DoctorSearch = () => {
               />
             )}
             
-            {getNearbyDoctors().map((doctor) => (
+            {nearbyDoctors.map((doctor) => (
               <Marker
                 key={`marker-${doctor.id}`}
                 position={doctor.coordinates}
@@ -692,21 +490,25 @@ const DoctorSearch = () => {
                 <div className="max-w-[280px]">
                   <div className="flex items-center gap-2 mb-2">
                     <img 
-                      src={selectedMapDoctor.image} 
+                      src={selectedMapDoctor.imageUrl || FALLBACK_DOCTOR_IMAGE} 
                       alt={selectedMapDoctor.name}
                       className="w-10 h-10 rounded-full object-cover"
                     />
                     <div>
-                      <h3 className="font-medium text-sm">{selectedMapDoctor.name}</h3>
+                      <h3 className="font-medium text-sm">
+                        <Link to={`/doctors/${selectedMapDoctor.id}`} className="hover:underline">
+                          {selectedMapDoctor.name}
+                        </Link>
+                      </h3>
                       <p className="text-xs text-gray-500">{selectedMapDoctor.specialty}</p>
                     </div>
                   </div>
                   <p className="text-xs mb-1">
                     <MapPin className="inline h-3 w-3 mr-1" />
-                    {selectedMapDoctor.location}
+                    {selectedMapDoctor.hospital}, {selectedMapDoctor.city}
                   </p>
                   <div className="flex justify-between items-center mt-2">
-                    <span className="text-sm font-medium">{selectedMapDoctor.fee}</span>
+                    <span className="text-sm font-medium">{formatFee(selectedMapDoctor.feeAmount)}</span>
                     <Button 
                       size="sm" 
                       className="h-8 bg-health-primary text-xs"
@@ -723,11 +525,11 @@ const DoctorSearch = () => {
         
         <div className="mt-6 space-y-4">
           {userLocation ? (
-            getNearbyDoctors().length > 0 ? (
+            nearbyDoctors.length > 0 ? (
               <>
-                <h3 className="text-lg font-medium">Doctors within 50km ({getNearbyDoctors().length})</h3>
-                {getNearbyDoctors().map(doctor => (
-                  <DoctorCard key={`nearby-list-${doctor.id}`} doctor={doctor} showDistance={true} />
+                <h3 className="text-lg font-medium">Doctors within {NEARBY_RADIUS_KM}km ({nearbyDoctors.length})</h3>
+                {nearbyDoctors.map(doctor => (
+                  <DoctorCard key={`nearby-list-${doctor.id}`} doctor={doctor} distanceKm={doctor.distanceKm} />
                 ))}
               </>
             ) : (
@@ -735,11 +537,11 @@ const DoctorSearch = () => {
                 <MapIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium mb-2">No doctors found nearby</h3>
                 <p className="text-gray-500 mb-4">Try expanding your search or check other doctors below</p>
-                {getFilteredDoctors().length > 0 && (
+                {doctors.length > 0 && (
                   <div className="mt-8">
                     <h3 className="text-lg font-medium mb-4">Other Available Doctors</h3>
-                    {getFilteredDoctors().slice(0, 3).map(doctor => (
-                      <DoctorCard key={`other-${doctor.id}`} doctor={doctor} showDistance={true} />
+                    {doctors.slice(0, 3).map(doctor => (
+                      <DoctorCard key={`other-${doctor.id}`} doctor={doctor} />
                     ))}
                   </div>
                 )}
@@ -768,7 +570,7 @@ const DoctorSearch = () => {
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Find Doctors</h1>
               <p className="text-sm text-gray-500 mt-1">
-                {doctors.length} healthcare professionals available
+                {isLoading ? 'Searching...' : `${total} healthcare professionals found`}
               </p>
             </div>
             <BackToHomeButton />
@@ -791,51 +593,79 @@ const DoctorSearch = () => {
       <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
         <div className="mb-6 overflow-x-auto pb-2">
           <div className="flex space-x-2">
-            {specialties.map(specialty => (
+            <Button
+              variant={search.specialty === null ? "default" : "outline"}
+              className={`rounded-full ${
+                search.specialty === null
+                  ? "bg-health-primary text-white"
+                  : "border-gray-300 text-gray-700"
+              } whitespace-nowrap`}
+              onClick={() => updateSearch({ specialty: null })}
+            >
+              All
+            </Button>
+            {specialties.map(({ specialty, count }) => (
               <Button
                 key={specialty}
-                variant={selectedSpecialty === specialty ? "default" : "outline"}
+                variant={search.specialty === specialty ? "default" : "outline"}
                 className={`rounded-full ${
-                  selectedSpecialty === specialty
+                  search.specialty === specialty
                     ? "bg-health-primary text-white"
                     : "border-gray-300 text-gray-700"
                 } whitespace-nowrap`}
-                onClick={() => setSelectedSpecialty(specialty)}
+                onClick={() => updateSearch({ specialty })}
               >
-                {specialty}
+                {specialty} ({count})
               </Button>
             ))}
           </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
-          <TabsList className="mb-6">
-            <TabsTrigger value="all" className="flex items-center gap-1">
-              <ListFilter className="h-4 w-4" />
-              All Doctors
-            </TabsTrigger>
-            <TabsTrigger value="nearby" className="flex items-center gap-1">
-              <MapPin className="h-4 w-4" />
-              Nearby
-            </TabsTrigger>
-            <TabsTrigger value="online" className="flex items-center gap-1">
-              <Video className="h-4 w-4" />
-              Online Consultation
-            </TabsTrigger>
-          </TabsList>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-6">
+            <TabsList>
+              <TabsTrigger value="all" className="flex items-center gap-1">
+                <ListFilter className="h-4 w-4" />
+                All Doctors
+              </TabsTrigger>
+              <TabsTrigger value="nearby" className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                Nearby
+              </TabsTrigger>
+              <TabsTrigger value="online" className="flex items-center gap-1">
+                <Video className="h-4 w-4" />
+                Online Consultation
+              </TabsTrigger>
+            </TabsList>
+            {activeTab !== 'nearby' && (
+              <div className="flex items-center gap-2">
+                <Select value={search.sort} onValueChange={value => handleSortChange(value as DoctorSort)}>
+                  <SelectTrigger className="w-48" aria-label="Sort doctors">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DOCTOR_SORT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <DoctorFiltersSheet
+                  filters={search}
+                  onApply={(changes) => updateSearch(changes)}
+                  showModeFilter={activeTab !== 'online'}
+                />
+              </div>
+            )}
+          </div>
 
           <TabsContent value="all" className="space-y-4">
             <div className="grid grid-cols-1 gap-4">
-              {getFilteredDoctors().length > 0 ? (
-                getFilteredDoctors().map(doctor => (
-                  <DoctorCard key={doctor.id} doctor={doctor} />
-                ))
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No doctors found matching your search criteria.</p>
-                </div>
+              {renderResults(
+                doctor => <DoctorCard key={doctor.id} doctor={doctor} distanceKm={doctor.distanceKm} />,
+                'No doctors found matching your search criteria.'
               )}
             </div>
+            {renderPagination()}
           </TabsContent>
 
           <TabsContent value="nearby" className="space-y-4">
@@ -844,34 +674,21 @@ const DoctorSearch = () => {
 
           <TabsContent value="online" className="space-y-4">
             <div className="grid grid-cols-1 gap-4">
-              {getOnlineDoctors().length > 0 ? (
-                getOnlineDoctors().map(doctor => (
-                  <OnlineDoctorCard key={doctor.id} doctor={doctor} />
-                ))
-              ) : (
-                <div className="text-center py-8">
-                  <p className="text-gray-500">No doctors available for online consultation at the moment.</p>
-                </div>
+              {renderResults(
+                doctor => <OnlineDoctorCard key={doctor.id} doctor={doctor} />,
+                'No doctors available for online consultation at the moment.'
               )}
             </div>
+            {renderPagination()}
           </TabsContent>
         </Tabs>
 
-        {/* Video call modal */}
-        {isVideoCallOpen && selectedDoctor && (
-          <DoctorVideoCall
-            doctorName={selectedDoctor.name}
-            doctorImage={selectedDoctor.image}
-            open={isVideoCallOpen}
-            onOpenChange={setIsVideoCallOpen}
-          />
-        )}
-
         {/* Chat modal */}
         {isChatOpen && selectedDoctor && (
           <DoctorChat
+            doctorId={selectedDoctor.id}
             doctorName={selectedDoctor.name}
-            doctorImage={selectedDoctor.image}
+            doctorImage={selectedDoctor.imageUrl || FALLBACK_DOCTOR_IMAGE}
             open={isChatOpen}
             onOpenChange={setIsChatOpen}
           />
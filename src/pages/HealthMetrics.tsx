@@ -1,57 +1,134 @@
 
-import { useState } from 'react';
-import { Heart, Activity, Weight, Moon, BarChart as BarChartIcon, LineChart as LineChartIcon, PieChart as PieChartIcon } from 'lucide-react';
+import { useState, useMemo, ReactNode } from 'react';
+import { Heart, Activity, Weight, Moon, Inbox, Plus, Pill, BarChart as BarChartIcon, LineChart as LineChartIcon, PieChart as PieChartIcon } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, 
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer 
 } from 'recharts';
-import { ChartContainer, ChartTooltipContent } from '@/components/ui/chart';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import LogVitalDialog from '@/components/vitals/LogVitalDialog';
+import VitalsHistory from '@/components/vitals/VitalsHistory';
+import { useFitnessData } from '@/hooks/use-fitness-data';
+import { useVitals } from '@/hooks/use-vitals';
+import { useMedications } from '@/hooks/use-medications';
+import { useDoseLogs } from '@/hooks/use-dose-logs';
+import { getAdherenceTrend } from '@/utils/adherence';
+import { describeHeartRate, getRangeStart, groupReadings, TimeRange } from '@/utils/healthMetrics';
+import { displayValue, formatVital, getPreferredUnit } from '@/utils/vitals';
+
+// Rough averages used to estimate distance and calories from a step count
+const STRIDE_LENGTH_KM = 0.000762;
+const CALORIES_PER_STEP = 0.04;
+
+const RANGE_LABELS: Record<TimeRange, string> = {
+  week: 'this week',
+  month: 'last 4 weeks',
+  year: 'last 12 months',
+};
+
+// Adherence is tracked for up to 90 days, so the year view shows the last 90
+const ADHERENCE_DAYS: Record<TimeRange, number> = {
+  week: 7,
+  month: 30,
+  year: 90,
+};
+
+const adherenceChartConfig = {
+  percent: {
+    label: 'Adherence',
+    color: '#0ea5e9',
+  },
+} satisfies ChartConfig;
+
+interface ChartStateProps {
+  isLoading: boolean;
+  error: Error | null;
+  hasData: boolean;
+  emptyMessage: string;
+  children: ReactNode;
+}
+
+// Shared loading / error / empty handling for the metric charts
+const ChartState = ({ isLoading, error, hasData, emptyMessage, children }: ChartStateProps) => {
+  if (isLoading) {
+    return <Skeleton className="w-full h-full" />;
+  }
+
+  if (error) {
+    return (
+      <div className="h-full flex items-center justify-center text-sm text-red-500 text-center px-4">
+        {error.message}
+      </div>
+    );
+  }
+
+  if (!hasData) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center px-4 bg-gray-50 rounded-md">
+        <Inbox className="h-8 w-8 text-gray-300 mb-2" />
+        <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
 
 const HealthMetrics = () => {
-  const [timeRange, setTimeRange] = useState('week');
-  
-  // Mock data for heart rate trend
-  const heartRateData = [
-    { day: 'Mon', rate: 72 },
-    { day: 'Tue', rate: 68 },
-    { day: 'Wed', rate: 74 },
-    { day: 'Thu', rate: 76 },
-    { day: 'Fri', rate: 71 },
-    { day: 'Sat', rate: 65 },
-    { day: 'Sun', rate: 69 },
-  ];
+  const [timeRange, setTimeRange] = useState<TimeRange>('week');
+  const { data, isLoading, error } = useFitnessData(timeRange);
 
-  // Mock data for steps
-  const stepsData = [
-    { day: 'Mon', steps: 7234 },
-    { day: 'Tue', steps: 8512 },
-    { day: 'Wed', steps: 6798 },
-    { day: 'Thu', steps: 9102 },
-    { day: 'Fri', steps: 8439 },
-    { day: 'Sat', steps: 10254 },
-    { day: 'Sun', steps: 5687 },
-  ];
+  const buckets = data?.buckets || [];
+  const summary = data?.summary;
+  const hasData = !!summary?.hasData;
+  const heartRateStatus = describeHeartRate(summary?.latestHeartRate ?? null);
+  const stepsLabel = timeRange === 'week' ? 'Steps' : 'Avg. daily steps';
 
-  // Mock data for weight tracking (monthly)
-  const weightData = [
-    { week: 'Week 1', weight: 69.5 },
-    { week: 'Week 2', weight: 69.0 },
-    { week: 'Week 3', weight: 68.7 },
-    { week: 'Week 4', weight: 68.0 },
-  ];
+  // Logged vitals for the same range; newest first
+  const rangeStart = useMemo(() => getRangeStart(timeRange), [timeRange]);
+  const [isLogDialogOpen, setIsLogDialogOpen] = useState(false);
+  const {
+    data: vitals = [],
+    isLoading: isVitalsLoading,
+    error: vitalsError,
+  } = useVitals({ types: ['weight', 'sleep', 'blood_pressure'], since: rangeStart });
 
-  // Mock data for sleep quality
-  const sleepData = [
-    { day: 'Mon', hours: 7.2, quality: 'Good' },
-    { day: 'Tue', hours: 6.5, quality: 'Fair' },
-    { day: 'Wed', hours: 8.0, quality: 'Excellent' },
-    { day: 'Thu', hours: 7.5, quality: 'Good' },
-    { day: 'Fri', hours: 6.8, quality: 'Fair' },
-    { day: 'Sat', hours: 8.5, quality: 'Excellent' },
-    { day: 'Sun', hours: 7.8, quality: 'Good' },
-  ];
+  const weightUnit = getPreferredUnit('weight');
+  const weightReadings = vitals.filter(vital => vital.type === 'weight');
+  const sleepReadings = vitals.filter(vital => vital.type === 'sleep');
+  const latestBloodPressure = vitals.find(vital => vital.type === 'blood_pressure');
+
+  const weightData = groupReadings(
+    weightReadings.map(vital => ({ recordedAt: vital.recordedAt, value: displayValue(vital.value, weightUnit) })),
+    timeRange
+  );
+  const sleepData = groupReadings(
+    sleepReadings.map(vital => ({ recordedAt: vital.recordedAt, value: vital.value })),
+    timeRange
+  );
+
+  const latestWeight = weightReadings.length > 0 ? displayValue(weightReadings[0].value, weightUnit) : null;
+  const weightChange = weightReadings.length > 1
+    ? Number((latestWeight - displayValue(weightReadings[weightReadings.length - 1].value, weightUnit)).toFixed(1))
+    : null;
+  const averageSleep = sleepReadings.length > 0
+    ? Number((sleepReadings.reduce((sum, vital) => sum + vital.value, 0) / sleepReadings.length).toFixed(1))
+    : null;
+
+  const { data: medications = [], isLoading: isMedicationsLoading, error: medicationsError } = useMedications();
+  const { data: doseLogs = [], isLoading: isDoseLogsLoading, error: doseLogsError } = useDoseLogs();
+  const adherenceDays = ADHERENCE_DAYS[timeRange];
+  const adherenceTrend = getAdherenceTrend(medications, doseLogs, adherenceDays);
+  const hasAdherenceData = adherenceTrend.some(point => point.percent !== null);
+
+  const formatValue = (value: number | null | undefined, unit = '') => {
+    if (value === null || value === undefined) return '--';
+    return `${value.toLocaleString()}${unit}`;
+  };
 
   // Mock data for nutrition breakdown
   const nutritionData = [
@@ -67,27 +144,38 @@ const HealthMetrics = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold">Health Metrics</h1>
-        <div className="bg-gray-100 rounded-lg p-1">
-          <button 
-            className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'week' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
-            onClick={() => setTimeRange('week')}
-          >
-            Week
-          </button>
-          <button 
-            className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'month' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
-            onClick={() => setTimeRange('month')}
-          >
-            Month
-          </button>
-          <button 
-            className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'year' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
-            onClick={() => setTimeRange('year')}
+        <div className="flex items-center gap-3">
+          <Button
+            onClick={() => setIsLogDialogOpen(true)}
+            className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2"
           >
-            Year
-          </button>
+            <Plus className="h-4 w-4" />
+            Log reading
+          </Button>
+          <div className="bg-gray-100 rounded-lg p-1">
+            <button 
+              className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'week' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
+              onClick={() => setTimeRange('week')}
+            >
+              Week
+            </button>
+            <button 
+              className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'month' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
+              onClick={() => setTimeRange('month')}
+            >
+              Month
+            </button>
+            <button 
+              className={`px-3 py-1 rounded-md transition-colors ${timeRange === 'year' ? 'bg-white shadow-sm' : 'hover:bg-gray-200'}`}
+              onClick={() => setTimeRange('year')}
+            >
+              Year
+            </button>
+          </div>
         </div>
       </div>
+
+      <LogVitalDialog open={isLogDialogOpen} onOpenChange={setIsLogDialogOpen} />
       
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
@@ -112,19 +200,28 @@ const HealthMetrics = () => {
               </CardHeader>
               <CardContent>
                 <div className="mb-2">
-                  <p className="text-3xl font-bold">72 bpm</p>
-                  <p className="text-sm text-green-600">Within healthy range</p>
+                  <p className="text-3xl font-bold">{formatValue(summary?.latestHeartRate, ' bpm')}</p>
+                  <p className={`text-sm ${heartRateStatus.healthy ? 'text-green-600' : 'text-amber-600'}`}>
+                    {heartRateStatus.text}
+                  </p>
                 </div>
                 <div className="h-52">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={heartRateData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                      <XAxis dataKey="day" />
-                      <YAxis domain={[60, 80]} />
-                      <Tooltip />
-                      <Line type="monotone" dataKey="rate" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                  <ChartState
+                    isLoading={isLoading}
+                    error={error}
+                    hasData={summary?.averageHeartRate !== null && hasData}
+                    emptyMessage="No heart rate readings recorded yet"
+                  >
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={buckets} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis dataKey="label" />
+                        <YAxis domain={['dataMin - 5', 'dataMax + 5']} />
+                        <Tooltip />
+                        <Line type="monotone" dataKey="heartRate" name="Heart rate" stroke="#ef4444" strokeWidth={2} activeDot={{ r: 8 }} connectNulls />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </ChartState>
                 </div>
               </CardContent>
             </Card>
@@ -142,19 +239,30 @@ const HealthMetrics = () => {
               </CardHeader>
               <CardContent>
                 <div className="mb-2">
-                  <p className="text-3xl font-bold">8,439 steps</p>
-                  <p className="text-sm text-green-600">84% of daily goal</p>
+                  <p className="text-3xl font-bold">{formatValue(summary?.averageSteps, ' steps')}</p>
+                  <p className="text-sm text-green-600">
+                    {summary?.stepGoalPercent !== null && summary?.stepGoalPercent !== undefined
+                      ? `${summary.stepGoalPercent}% of daily goal (avg. ${RANGE_LABELS[timeRange]})`
+                      : 'No steps recorded yet'}
+                  </p>
                 </div>
                 <div className="h-52">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={stepsData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                      <XAxis dataKey="day" />
-                      <YAxis />
-                      <Tooltip />
-                      <Bar dataKey="steps" fill="#3b82f6" barSize={20} radius={[4, 4, 0, 0]} />
-                    </BarChart>
-                  </ResponsiveContainer>
+                  <ChartState
+                    isLoading={isLoading}
+                    error={error}
+                    hasData={summary?.averageSteps !== null && hasData}
+                    emptyMessage="No step counts recorded yet"
+                  >
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={buckets} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis dataKey="label" />
+                        <YAxis />
+                        <Tooltip />
+                        <Bar dataKey="steps" name={stepsLabel} fill="#3b82f6" barSize={20} radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </ChartState>
                 </div>
               </CardContent>
             </Card>
@@ -174,19 +282,30 @@ const HealthMetrics = () => {
               </CardHeader>
               <CardContent>
                 <div className="mb-2">
-                  <p className="text-3xl font-bold">68 kg</p>
-                  <p className="text-sm text-green-600">-0.5 kg this month</p>
+                  <p className="text-3xl font-bold">{formatValue(latestWeight, ` ${weightUnit}`)}</p>
+                  <p className="text-sm text-green-600">
+                    {weightChange !== null
+                      ? `${weightChange > 0 ? '+' : ''}${weightChange} ${weightUnit} ${RANGE_LABELS[timeRange]}`
+                      : 'Log your weight to see trends'}
+                  </p>
                 </div>
                 <div className="h-52">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={weightData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                      <XAxis dataKey="week" />
-                      <YAxis domain={[67, 70]} />
-                      <Tooltip />
-                      <Line type="monotone" dataKey="weight" stroke="#22c55e" strokeWidth={2} activeDot={{ r: 8 }} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                  <ChartState
+                    isLoading={isVitalsLoading}
+                    error={vitalsError}
+                    hasData={weightReadings.length > 0}
+                    emptyMessage="No weight readings logged yet"
+                  >
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={weightData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis dataKey="label" />
+                        <YAxis domain={['dataMin - 1', 'dataMax + 1']} />
+                        <Tooltip />
+                        <Line type="monotone" dataKey="value" name={`Weight (${weightUnit})`} stroke="#22c55e" strokeWidth={2} activeDot={{ r: 8 }} connectNulls />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </ChartState>
                 </div>
               </CardContent>
             </Card>
@@ -204,24 +323,73 @@ const HealthMetrics = () => {
               </CardHeader>
               <CardContent>
                 <div className="mb-2">
-                  <p className="text-3xl font-bold">7.5 hours</p>
-                  <p className="text-sm text-green-600">Good quality sleep</p>
+                  <p className="text-3xl font-bold">{formatValue(averageSleep, ' hours')}</p>
+                  <p className={`text-sm ${averageSleep !== null && averageSleep < 7 ? 'text-amber-600' : 'text-green-600'}`}>
+                    {averageSleep === null
+                      ? 'Log your sleep to see trends'
+                      : averageSleep < 7
+                        ? 'Below the recommended 7 hours'
+                        : 'Meeting the recommended 7 hours'}
+                  </p>
                 </div>
                 <div className="h-52">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={sleepData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                      <XAxis dataKey="day" />
-                      <YAxis />
-                      <Tooltip />
-                      <Bar dataKey="hours" fill="#a855f7" barSize={20} radius={[4, 4, 0, 0]} />
-                    </BarChart>
-                  </ResponsiveContainer>
+                  <ChartState
+                    isLoading={isVitalsLoading}
+                    error={vitalsError}
+                    hasData={sleepReadings.length > 0}
+                    emptyMessage="No sleep logged yet"
+                  >
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={sleepData} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis dataKey="label" />
+                        <YAxis />
+                        <Tooltip />
+                        <Bar dataKey="value" name="Hours" fill="#a855f7" barSize={20} radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </ChartState>
                 </div>
               </CardContent>
             </Card>
           </div>
           
+          {/* Logged readings with edit / delete */}
+          <VitalsHistory />
+
+          {/* Medication Adherence */}
+          <Card>
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Pill className="h-5 w-5 text-sky-500" />
+                  <CardTitle className="text-lg">Medication Adherence (last {adherenceDays} days)</CardTitle>
+                </div>
+                <LineChartIcon className="h-4 w-4 text-gray-400" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ChartState
+                  isLoading={isMedicationsLoading || isDoseLogsLoading}
+                  error={medicationsError || doseLogsError}
+                  hasData={hasAdherenceData}
+                  emptyMessage="No scheduled doses in this period"
+                >
+                  <ChartContainer config={adherenceChartConfig} className="h-full w-full aspect-auto">
+                    <LineChart data={adherenceTrend} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="label" minTickGap={16} />
+                      <YAxis domain={[0, 100]} unit="%" />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line type="monotone" dataKey="percent" stroke="var(--color-percent)" strokeWidth={2} dot={adherenceDays <= 7} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </ChartState>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Nutrition Breakdown */}
           <Card>
             <CardHeader className="pb-2">
@@ -310,7 +478,7 @@ const HealthMetrics = () => {
                   <Heart className="h-8 w-8 text-red-500" />
                   <div>
                     <h3 className="text-sm font-medium text-gray-500">Average Heart Rate</h3>
-                    <p className="text-2xl font-bold">72 bpm</p>
+                    <p className="text-2xl font-bold">{formatValue(summary?.averageHeartRate, ' bpm')}</p>
                   </div>
                 </div>
                 <div className="bg-blue-50 p-4 rounded-lg flex items-center gap-3">
@@ -319,7 +487,9 @@ const HealthMetrics = () => {
                   </div>
                   <div>
                     <h3 className="text-sm font-medium text-gray-500">Blood Pressure</h3>
-                    <p className="text-2xl font-bold">120/80</p>
+                    <p className="text-2xl font-bold">
+                      {latestBloodPressure ? formatVital(latestBloodPressure).replace(' mmHg', '') : '--'}
+                    </p>
                   </div>
                 </div>
                 <div className="bg-purple-50 p-4 rounded-lg flex items-center gap-3">
@@ -333,25 +503,25 @@ const HealthMetrics = () => {
                 </div>
               </div>
               
-              <h3 className="text-lg font-medium mb-4">Heart Rate Trends (Last 30 Days)</h3>
+              <h3 className="text-lg font-medium mb-4">Heart Rate Trends ({RANGE_LABELS[timeRange]})</h3>
               <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={Array.from({ length: 30 }, (_, i) => ({ 
-                    day: i + 1, 
-                    resting: Math.floor(Math.random() * 10) + 65,
-                    active: Math.floor(Math.random() * 20) + 90,
-                    sleeping: Math.floor(Math.random() * 10) + 55
-                  }))} margin={{ top: 5, right: 20, bottom: 20, left: 0 }}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                    <XAxis dataKey="day" label={{ value: 'Day', position: 'insideBottomRight', offset: -10 }} />
-                    <YAxis label={{ value: 'BPM', angle: -90, position: 'insideLeft' }} />
-                    <Tooltip />
-                    <Legend />
-                    <Line type="monotone" dataKey="resting" name="Resting HR" stroke="#ef4444" strokeWidth={2} />
-                    <Line type="monotone" dataKey="active" name="Active HR" stroke="#f97316" strokeWidth={2} />
-                    <Line type="monotone" dataKey="sleeping" name="Sleeping HR" stroke="#8b5cf6" strokeWidth={2} />
-                  </LineChart>
-                </ResponsiveContainer>
+                <ChartState
+                  isLoading={isLoading}
+                  error={error}
+                  hasData={summary?.averageHeartRate !== null && hasData}
+                  emptyMessage="No heart rate readings recorded for this period"
+                >
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={buckets} margin={{ top: 5, right: 20, bottom: 20, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis dataKey="label" />
+                      <YAxis label={{ value: 'BPM', angle: -90, position: 'insideLeft' }} domain={['dataMin - 5', 'dataMax + 5']} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="heartRate" name="Average HR" stroke="#ef4444" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </ChartState>
               </div>
             </CardContent>
           </Card>
@@ -367,8 +537,8 @@ const HealthMetrics = () => {
                 <div className="bg-blue-50 p-4 rounded-lg flex items-center gap-3">
                   <Activity className="h-8 w-8 text-blue-500" />
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Daily Steps</h3>
-                    <p className="text-2xl font-bold">8,439</p>
+                    <h3 className="text-sm font-medium text-gray-500">Avg. Daily Steps</h3>
+                    <p className="text-2xl font-bold">{formatValue(summary?.averageSteps)}</p>
                   </div>
                 </div>
                 <div className="bg-green-50 p-4 rounded-lg flex items-center gap-3">
@@ -376,8 +546,10 @@ const HealthMetrics = () => {
                     km
                   </div>
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Distance</h3>
-                    <p className="text-2xl font-bold">5.2 km</p>
+                    <h3 className="text-sm font-medium text-gray-500">Est. Distance</h3>
+                    <p className="text-2xl font-bold">
+                      {summary?.averageSteps != null ? `${(summary.averageSteps * STRIDE_LENGTH_KM).toFixed(1)} km` : '--'}
+                    </p>
                   </div>
                 </div>
                 <div className="bg-orange-50 p-4 rounded-lg flex items-center gap-3">
@@ -385,43 +557,42 @@ const HealthMetrics = () => {
                     cal
                   </div>
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Calories</h3>
-                    <p className="text-2xl font-bold">425</p>
+                    <h3 className="text-sm font-medium text-gray-500">Est. Calories</h3>
+                    <p className="text-2xl font-bold">
+                      {summary?.averageSteps != null ? Math.round(summary.averageSteps * CALORIES_PER_STEP) : '--'}
+                    </p>
                   </div>
                 </div>
                 <div className="bg-indigo-50 p-4 rounded-lg flex items-center gap-3">
                   <div className="h-8 w-8 flex items-center justify-center bg-indigo-500 rounded-full text-white font-bold">
-                    min
+                    %
                   </div>
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500">Active Minutes</h3>
-                    <p className="text-2xl font-bold">45</p>
+                    <h3 className="text-sm font-medium text-gray-500">Step Goal</h3>
+                    <p className="text-2xl font-bold">{formatValue(summary?.stepGoalPercent, '%')}</p>
                   </div>
                 </div>
               </div>
               
-              <h3 className="text-lg font-medium mb-4">Weekly Activity Breakdown</h3>
+              <h3 className="text-lg font-medium mb-4">Steps ({RANGE_LABELS[timeRange]})</h3>
               <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart
-                    data={stepsData.map(item => ({ 
-                      ...item,
-                      "Light Activity": Math.floor(Math.random() * 30) + 30,
-                      "Moderate Activity": Math.floor(Math.random() * 20) + 10,
-                      "Intense Activity": Math.floor(Math.random() * 15),
-                    }))}
-                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-                  >
-                    <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="day" />
-                    <YAxis />
-                    <Tooltip />
-                    <Legend />
-                    <Bar dataKey="Light Activity" stackId="a" fill="#93c5fd" />
-                    <Bar dataKey="Moderate Activity" stackId="a" fill="#3b82f6" />
-                    <Bar dataKey="Intense Activity" stackId="a" fill="#1d4ed8" />
-                  </BarChart>
-                </ResponsiveContainer>
+                <ChartState
+                  isLoading={isLoading}
+                  error={error}
+                  hasData={summary?.averageSteps !== null && hasData}
+                  emptyMessage="No step counts recorded for this period"
+                >
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={buckets} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="steps" name={stepsLabel} fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartState>
               </div>
             </CardContent>
           </Card>
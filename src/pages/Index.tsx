@@ -32,8 +32,6 @@ const Index = () => {
   };
 
   const handleFindDoctorsClick = () => {
-    // Store a flag in localStorage to indicate that we want to show more doctors
-    localStorage.setItem('showMoreDoctors', 'true');
     navigate('/doctor-search');
   };
 
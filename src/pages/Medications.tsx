@@ -1,39 +1,111 @@
 
-import { Pill, Clock, CheckCircle } from 'lucide-react';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Pill, Clock, CheckCircle, Plus, Pause, Play, Square, Check, X, AlarmClock } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import AddMedicationDialog from '@/components/medications/AddMedicationDialog';
+import AdherenceCard from '@/components/medications/AdherenceCard';
+import InteractionWarnings from '@/components/medications/InteractionWarnings';
+import { useToast } from '@/hooks/use-toast';
+import { useMedications, useUpdateMedicationStatus } from '@/hooks/use-medications';
+import { useDoseLogs, useLogDose } from '@/hooks/use-dose-logs';
+import { useAllergies } from '@/hooks/use-allergies';
+import type { DoseEvent, DoseStatus, Medication, MedicationStatus } from '@/types/medication';
+import { checkMedication } from '@/utils/drugInteractions';
+import {
+  describeRegimen, formatDoseTime, getDoseKey, getDosesForDay, getNextDose, isMedicationActive
+} from '@/utils/medicationSchedule';
+
+const DOSE_STATUS_STYLES: Record<DoseStatus, { label: string; className: string }> = {
+  taken: { label: 'Taken', className: 'bg-green-100 text-green-800' },
+  late: { label: 'Taken late', className: 'bg-amber-100 text-amber-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+};
 
 const Medications = () => {
-  const medications = [
-    {
-      name: 'Lisinopril',
-      dosage: '10mg - Once daily',
-      time: '8:00 AM',
-      status: 'taken'
-    },
-    {
-      name: 'Metformin',
-      dosage: '500mg - Twice daily',
-      time: '2:00 PM',
-      status: 'upcoming'
-    },
-    {
-      name: 'Vitamin D',
-      dosage: '2000 IU - Once daily',
-      time: '8:00 AM',
-      status: 'taken'
-    },
-    {
-      name: 'Aspirin',
-      dosage: '81mg - Once daily',
-      time: '8:00 PM',
-      status: 'upcoming'
+  const { toast } = useToast();
+  const { data: medications = [], isLoading, error } = useMedications();
+  const updateStatus = useUpdateMedicationStatus();
+  const { data: doseLogs = [] } = useDoseLogs();
+  const logDose = useLogDose();
+  const { data: allergies = [] } = useAllergies();
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  const now = new Date();
+  const activeMedications = medications.filter(medication => isMedicationActive(medication, now));
+  const todaysDoses = getDosesForDay(activeMedications, now);
+  const nextDose = getNextDose(activeMedications, now);
+  const logsByDose = new Map(doseLogs.map(log => [getDoseKey(log.medicationId, log.scheduledAt), log]));
+  const takenToday = todaysDoses.filter(dose => {
+    const status = logsByDose.get(getDoseKey(dose.medicationId, dose.scheduledAt))?.status;
+    return status === 'taken' || status === 'late';
+  }).length;
+
+  const handleLogDose = async (dose: DoseEvent, status: DoseStatus) => {
+    try {
+      await logDose.mutateAsync({ medicationId: dose.medicationId, scheduledAt: dose.scheduledAt, status });
+    } catch (error) {
+      console.error('Error logging dose:', error);
+      toast({
+        title: "Could not log dose",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
     }
-  ];
+  };
+
+  const handleStatusChange = async (medication: Medication, status: MedicationStatus) => {
+    const today = format(now, 'yyyy-MM-dd');
+
+    try {
+      await updateStatus.mutateAsync({
+        id: medication.id,
+        status,
+        // Close the course today when ending, unless it hasn't started yet
+        endDate: status === 'ended' && medication.startDate <= today ? today : undefined,
+      });
+
+      toast({
+        title: status === 'active' ? "Medication resumed" : status === 'paused' ? "Medication paused" : "Medication ended",
+        description: `${medication.name} has been updated`,
+      });
+    } catch (error) {
+      console.error('Error updating medication:', error);
+      toast({
+        title: "Could not update medication",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const statusBadge = (medication: Medication) => {
+    if (medication.status === 'paused') {
+      return <span className="text-xs font-medium px-2 py-1 rounded-full bg-gray-100 text-gray-700">Paused</span>;
+    }
+    if (!isMedicationActive(medication, now)) {
+      return <span className="text-xs font-medium px-2 py-1 rounded-full bg-red-100 text-red-800">Ended</span>;
+    }
+    return <span className="text-xs font-medium px-2 py-1 rounded-full bg-green-100 text-green-800">Active</span>;
+  };
 
   return (
     <div className="space-y-6">
-      <h1 className="text-2xl font-bold">Medications</h1>
-      
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold">Medications</h1>
+        <Button
+          onClick={() => setIsAddDialogOpen(true)}
+          className="bg-health-primary hover:bg-health-primary/90 flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add medication
+        </Button>
+      </div>
+
+      <AddMedicationDialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} />
+
       {/* Medication Overview */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
@@ -41,63 +113,211 @@ const Medications = () => {
             <div className="flex flex-col items-center">
               <Pill className="h-8 w-8 text-blue-500 mb-2" />
               <h3 className="text-muted-foreground mb-1">Active Medications</h3>
-              <p className="text-3xl font-bold">4</p>
+              <p className="text-3xl font-bold">{isLoading ? '--' : activeMedications.length}</p>
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="pt-6">
             <div className="flex flex-col items-center">
               <Clock className="h-8 w-8 text-amber-500 mb-2" />
               <h3 className="text-muted-foreground mb-1">Next Dose</h3>
-              <p className="text-3xl font-bold">2:00 PM</p>
+              <p className="text-3xl font-bold">{nextDose ? formatDoseTime(nextDose.scheduledAt) : '--'}</p>
+              {nextDose && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {nextDose.medicationName}
+                  {format(nextDose.scheduledAt, 'yyyy-MM-dd') !== format(now, 'yyyy-MM-dd') &&
+                    ` · ${format(nextDose.scheduledAt, 'EEE, MMM d')}`}
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
-        
+
         <Card>
           <CardContent className="pt-6">
             <div className="flex flex-col items-center">
               <CheckCircle className="h-8 w-8 text-green-500 mb-2" />
               <h3 className="text-muted-foreground mb-1">Taken Today</h3>
-              <p className="text-3xl font-bold">3/4</p>
+              <p className="text-3xl font-bold">
+                {todaysDoses.length > 0 ? `${takenToday}/${todaysDoses.length}` : '--'}
+              </p>
             </div>
           </CardContent>
         </Card>
       </div>
-      
+
       {/* Medication Schedule */}
       <Card>
         <CardHeader>
-          <CardTitle>Medication Schedule</CardTitle>
+          <CardTitle>Today's Schedule</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {medications.map((med, index) => (
-              <div key={index} className="flex items-center justify-between border-b pb-4 last:border-b-0 last:pb-0">
-                <div className="flex gap-3">
-                  <Pill className="h-5 w-5 text-gray-500 mt-1" />
-                  <div>
-                    <h3 className="font-medium">{med.name}</h3>
-                    <p className="text-sm text-muted-foreground">{med.dosage}</p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span className="font-medium">{med.time}</span>
-                  <span 
-                    className={`text-xs font-medium px-2 py-1 rounded-full ${
-                      med.status === 'taken' 
-                        ? 'bg-green-100 text-green-800'
-                        : 'bg-amber-100 text-amber-800'
-                    }`}
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-500">{error.message}</p>
+          ) : todaysDoses.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No doses scheduled for today.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {todaysDoses.map(dose => {
+                const log = logsByDose.get(getDoseKey(dose.medicationId, dose.scheduledAt));
+
+                return (
+                  <div
+                    key={getDoseKey(dose.medicationId, dose.scheduledAt)}
+                    className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b pb-4 last:border-b-0 last:pb-0"
                   >
-                    {med.status === 'taken' ? 'Taken' : 'Upcoming'}
-                  </span>
-                </div>
-              </div>
-            ))}
-          </div>
+                    <div className="flex gap-3">
+                      <Pill className="h-5 w-5 text-gray-500 mt-1" />
+                      <div>
+                        <h3 className="font-medium">{dose.medicationName}</h3>
+                        <p className="text-sm text-muted-foreground">{dose.dosage}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium">{formatDoseTime(dose.scheduledAt)}</span>
+                      {log ? (
+                        <>
+                          <span className={`text-xs font-medium px-2 py-1 rounded-full ${DOSE_STATUS_STYLES[log.status].className}`}>
+                            {DOSE_STATUS_STYLES[log.status].label}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            at {format(parseISO(log.loggedAt), 'h:mm a')}
+                          </span>
+                        </>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-green-700 border-green-200 hover:bg-green-50"
+                            onClick={() => handleLogDose(dose, 'taken')}
+                            disabled={logDose.isPending}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Taken
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleLogDose(dose, 'late')}
+                            disabled={logDose.isPending}
+                          >
+                            <AlarmClock className="h-4 w-4 mr-1" />
+                            Late
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleLogDose(dose, 'skipped')}
+                            disabled={logDose.isPending}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Skipped
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AdherenceCard medications={medications} logs={doseLogs} />
+
+      {/* All Medications */}
+      <Card>
+        <CardHeader>
+          <CardTitle>My Medications</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!isLoading && medications.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              You haven't added any medications yet.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {medications.map(medication => {
+                const isActive = isMedicationActive(medication, now);
+                const isEnded = medication.status === 'ended' || (medication.status === 'active' && !isActive);
+                const warnings = isActive
+                  ? checkMedication(medication.name, { medications, allergies, excludeId: medication.id }, now)
+                  : [];
+
+                return (
+                  <div key={medication.id} className="space-y-3 border-b pb-4 last:border-b-0 last:pb-0">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                      <div className="flex gap-3">
+                        <Pill className="h-5 w-5 text-gray-500 mt-1" />
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-medium">{medication.name}</h3>
+                            {statusBadge(medication)}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {describeRegimen(medication)}
+                            {medication.doseTimes.length > 0 && ` at ${medication.doseTimes.map(formatDoseTime).join(', ')}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            From {format(parseISO(medication.startDate), 'MMM d, yyyy')}
+                            {medication.endDate ? ` to ${format(parseISO(medication.endDate), 'MMM d, yyyy')}` : ' (ongoing)'}
+                            {medication.instructions && ` · ${medication.instructions}`}
+                          </p>
+                        </div>
+                      </div>
+                      {!isEnded && (
+                        <div className="flex gap-2">
+                          {medication.status === 'paused' ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleStatusChange(medication, 'active')}
+                              disabled={updateStatus.isPending}
+                            >
+                              <Play className="h-4 w-4 mr-1" />
+                              Resume
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleStatusChange(medication, 'paused')}
+                              disabled={updateStatus.isPending}
+                            >
+                              <Pause className="h-4 w-4 mr-1" />
+                              Pause
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 border-red-200 hover:bg-red-50"
+                            onClick={() => handleStatusChange(medication, 'ended')}
+                            disabled={updateStatus.isPending}
+                          >
+                            <Square className="h-4 w-4 mr-1" />
+                            End
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <InteractionWarnings warnings={warnings} compact />
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,138 @@
+import { useSearchParams } from 'react-router-dom';
+import { format, isToday } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import ConversationThread from '@/components/messaging/ConversationThread';
+import { useConversations } from '@/hooks/use-conversations';
+import { useUserRole } from '@/hooks/use-user-role';
+import { formatUnreadCount, getConversationPeer } from '@/utils/messaging';
+
+const formatLastMessageTime = (date: string) => {
+  const value = new Date(date);
+  return isToday(value) ? format(value, 'h:mm a') : format(value, 'MMM d');
+};
+
+// Inbox for both sides: doctors see their patients' threads, patients their doctors'
+const Messages = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: userRole } = useUserRole();
+  const { data: conversations = [], isLoading, error } = useConversations();
+  const role = userRole?.role ?? 'patient';
+
+  const selectedId = searchParams.get('c');
+  const selected = conversations.find(conversation => conversation.id === selectedId) || null;
+
+  const selectConversation = (id: string) => {
+    setSearchParams({ c: id });
+  };
+
+  const renderList = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-3 p-4">
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-14 w-full" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="p-4 text-sm text-red-500">{error.message}</p>;
+    }
+
+    if (conversations.length === 0) {
+      return (
+        <p className="p-6 text-sm text-muted-foreground text-center">
+          {role === 'doctor'
+            ? 'Messages from your patients will appear here.'
+            : 'No messages yet. You can message a doctor from their listing or your appointments.'}
+        </p>
+      );
+    }
+
+    return (
+      <ul className="divide-y">
+        {conversations.map(conversation => {
+          const peer = getConversationPeer(conversation, role);
+          const isSelected = conversation.id === selectedId;
+
+          return (
+            <li key={conversation.id}>
+              <button
+                onClick={() => selectConversation(conversation.id)}
+                className={`flex w-full items-center gap-3 px-4 py-3 text-left transition-colors ${
+                  isSelected ? 'bg-health-primary/10' : 'hover:bg-gray-50'
+                }`}
+              >
+                <img
+                  src={peer.imageUrl || '/placeholder.svg'}
+                  alt={peer.name}
+                  className="h-10 w-10 rounded-full object-cover flex-shrink-0"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`truncate ${conversation.unreadCount > 0 ? 'font-semibold' : 'font-medium'}`}>
+                      {peer.name}
+                    </span>
+                    {conversation.lastMessageAt && (
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {formatLastMessageTime(conversation.lastMessageAt)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-sm text-muted-foreground">
+                      {conversation.lastMessagePreview || 'No messages yet'}
+                    </span>
+                    {conversation.unreadCount > 0 && (
+                      <span className="rounded-full bg-health-primary px-2 py-0.5 text-xs text-white flex-shrink-0">
+                        {formatUnreadCount(conversation.unreadCount)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Messages</h1>
+
+      <Card className="overflow-hidden">
+        <CardContent className="p-0 flex h-[70vh]">
+          <div className={`w-full md:w-80 border-r overflow-y-auto ${selected ? 'hidden md:block' : ''}`}>
+            {renderList()}
+          </div>
+          <div className={`flex-1 min-w-0 flex-col ${selected ? 'flex' : 'hidden md:flex'}`}>
+            {selected ? (
+              <>
+                <div className="flex items-center gap-3 border-b px-4 py-3">
+                  <button
+                    onClick={() => setSearchParams({})}
+                    className="text-sm text-health-primary md:hidden"
+                  >
+                    Back
+                  </button>
+                  <span className="font-medium">{getConversationPeer(selected, role).name}</span>
+                </div>
+                <ConversationThread key={selected.id} conversationId={selected.id} role={role} />
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+                Select a conversation
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Messages;
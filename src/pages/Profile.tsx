@@ -1,9 +1,11 @@
 
 import { useState, useEffect } from 'react';
-import { User, Phone, Mail, MapPin, Activity, AlertTriangle, Edit, Save, X } from 'lucide-react';
+import { User, Phone, Mail, MapPin, Activity, Edit, Save, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import MedicalHistoryCard from '@/components/profile/MedicalHistoryCard';
+import AllergiesCard from '@/components/profile/AllergiesCard';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -22,35 +24,6 @@ const Profile = () => {
     bloodType: ''
   });
   
-  // Medical conditions and allergies data
-  const [medicalConditions, setMedicalConditions] = useState([
-    {
-      condition: 'Hypertension',
-      diagnosedYear: '2020',
-      status: 'Controlled'
-    },
-    {
-      condition: 'Type 2 Diabetes',
-      diagnosedYear: '2018',
-      status: 'Managed'
-    }
-  ]);
-  
-  const [allergies, setAllergies] = useState([
-    {
-      name: 'Penicillin Allergy',
-      severity: 'high'
-    },
-    {
-      name: 'Latex Sensitivity',
-      severity: 'medium'
-    },
-    {
-      name: 'Aspirin Interaction',
-      severity: 'low'
-    }
-  ]);
-
   // Fetch user data on component mount
   useEffect(() => {
     fetchUserProfile();
@@ -255,26 +228,7 @@ const Profile = () => {
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Medical History */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Medical History</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {medicalConditions.map((condition, i) => (
-                <div key={i} className="flex items-center justify-between">
-                  <div>
-                    <h3 className="font-medium">{condition.condition}</h3>
-                    <p className="text-sm text-muted-foreground">Diagnosed: {condition.diagnosedYear}</p>
-                  </div>
-                  <span className={`bg-blue-100 text-blue-800 text-xs font-medium px-3 py-1 rounded-full`}>
-                    {condition.status}
-                  </span>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+        <MedicalHistoryCard />
         
         {/* Emergency Contacts */}
         <Card>
@@ -300,36 +254,7 @@ const Profile = () => {
       </div>
       
       {/* Allergies & Alerts */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Allergies & Alerts</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {allergies.map((allergy, i) => (
-              <div 
-                key={i} 
-                className={`p-3 rounded-lg flex items-center gap-3 ${
-                  allergy.severity === 'high' 
-                    ? 'bg-red-100' 
-                    : allergy.severity === 'medium'
-                      ? 'bg-amber-100'
-                      : 'bg-blue-100'
-                }`}
-              >
-                <AlertTriangle className={`h-5 w-5 ${
-                  allergy.severity === 'high' 
-                    ? 'text-red-500' 
-                    : allergy.severity === 'medium'
-                      ? 'text-amber-500'
-                      : 'text-blue-500'
-                }`} />
-                <p className="font-medium">{allergy.name}</p>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+      <AllergiesCard />
     </div>
   );
 };
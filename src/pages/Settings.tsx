@@ -1,10 +1,70 @@
 
-import { Bell, Globe, Sun, Clock, Shield, Eye } from 'lucide-react';
+import { Bell, Globe, Sun, Clock, Shield, Eye, Bot } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAssistantConsent, useSaveAssistantConsent } from '@/hooks/use-assistant-consent';
+import { useNotificationPreferences, useSaveNotificationPreferences } from '@/hooks/use-notification-preferences';
+import type { NotificationPreferences } from '@/types/notifications';
+import { isNotificationSupported, requestNotificationPermission } from '@/utils/notifications';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/utils/reminders';
 
 const Settings = () => {
+  const { toast } = useToast();
+  const { data: preferences = DEFAULT_NOTIFICATION_PREFERENCES, isLoading } = useNotificationPreferences();
+  const savePreferences = useSaveNotificationPreferences();
+  const isSaving = isLoading || savePreferences.isPending;
+  const { data: shareHealthRecord, isLoading: isConsentLoading } = useAssistantConsent();
+  const saveConsent = useSaveAssistantConsent();
+
+  const updatePreferences = async (changes: Partial<NotificationPreferences>) => {
+    try {
+      await savePreferences.mutateAsync({ ...preferences, ...changes });
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      toast({
+        title: "Could not save settings",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleShareHealthRecordChange = async (enabled: boolean) => {
+    try {
+      await saveConsent.mutateAsync(enabled);
+    } catch (error) {
+      console.error('Error saving MedAssist consent:', error);
+      toast({
+        title: "Could not save settings",
+        description: error.message || "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMedicationRemindersChange = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      toast({
+        title: "Notifications are blocked",
+        description: isNotificationSupported()
+          ? "Allow notifications for this site in your browser settings to get reminders"
+          : "This browser does not support notifications",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await updatePreferences({ medicationReminders: enabled });
+  };
+
+  const handleQuietHoursChange = (field: 'quietHoursStart' | 'quietHoursEnd', value: string) => {
+    if (value && value !== preferences[field]) {
+      updatePreferences({ [field]: value });
+    }
+  };
+
   return (
     <div className="space-y-6">
       <h1 className="text-2xl font-bold">Settings</h1>
@@ -25,7 +85,11 @@ const Settings = () => {
                     <p className="text-sm text-muted-foreground">Receive alerts for medication schedules</p>
                   </div>
                 </div>
-                <Switch />
+                <Switch
+                  checked={preferences.medicationReminders}
+                  onCheckedChange={handleMedicationRemindersChange}
+                  disabled={isSaving}
+                />
               </div>
               
               <div className="flex items-center justify-between">
@@ -36,7 +100,11 @@ const Settings = () => {
                     <p className="text-sm text-muted-foreground">Get notified about upcoming appointments</p>
                   </div>
                 </div>
-                <Switch />
+                <Switch
+                  checked={preferences.appointmentAlerts}
+                  onCheckedChange={checked => updatePreferences({ appointmentAlerts: checked })}
+                  disabled={isSaving}
+                />
               </div>
               
               <div className="flex items-center justify-between">
@@ -47,7 +115,11 @@ const Settings = () => {
                     <p className="text-sm text-muted-foreground">Receive weekly health summary</p>
                   </div>
                 </div>
-                <Switch />
+                <Switch
+                  checked={preferences.healthUpdates}
+                  onCheckedChange={checked => updatePreferences({ healthUpdates: checked })}
+                  disabled={isSaving}
+                />
               </div>
             </div>
           </CardContent>
@@ -99,9 +171,29 @@ const Settings = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <input type="time" className="p-2 rounded border" defaultValue="22:00" />
+                  <Switch
+                    checked={preferences.quietHoursEnabled}
+                    onCheckedChange={checked => updatePreferences({ quietHoursEnabled: checked })}
+                    disabled={isSaving}
+                  />
+                  {/* Saved on blur; keyed by the stored value so the inputs pick it up once loaded */}
+                  <input
+                    key={`start-${preferences.quietHoursStart}`}
+                    type="time"
+                    className="p-2 rounded border"
+                    defaultValue={preferences.quietHoursStart}
+                    onBlur={event => handleQuietHoursChange('quietHoursStart', event.target.value)}
+                    disabled={isSaving || !preferences.quietHoursEnabled}
+                  />
                   <span>to</span>
-                  <input type="time" className="p-2 rounded border" defaultValue="07:00" />
+                  <input
+                    key={`end-${preferences.quietHoursEnd}`}
+                    type="time"
+                    className="p-2 rounded border"
+                    defaultValue={preferences.quietHoursEnd}
+                    onBlur={event => handleQuietHoursChange('quietHoursEnd', event.target.value)}
+                    disabled={isSaving || !preferences.quietHoursEnabled}
+                  />
                 </div>
               </div>
             </div>
@@ -137,6 +229,23 @@ const Settings = () => {
               </div>
               <Switch />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-start gap-3">
+                <Bot className="h-5 w-5 text-gray-500 mt-1" />
+                <div>
+                  <p className="font-medium">Share Health Record with MedAssist</p>
+                  <p className="text-sm text-muted-foreground">
+                    Let the chatbot consider your conditions, allergies, medications and recent vitals
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={!!shareHealthRecord}
+                onCheckedChange={handleShareHealthRecordChange}
+                disabled={isConsentLoading || saveConsent.isPending}
+              />
+            </div>
           </div>
         </CardContent>
       </Card>
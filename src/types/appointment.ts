@@ -0,0 +1,24 @@
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+
+export type PaymentStatus = 'pending' | 'paid' | 'refund_requested' | 'refunded';
+
+export type ConsultationType = 'in-person' | 'video' | 'chat';
+
+export interface Appointment {
+  id: string;
+  doctorName: string;
+  // The directory listing booked; null if the doctor has since been delisted
+  doctorId: string | null;
+  // Name the patient booked under, shown to the doctor
+  patientName: string | null;
+  hospital: string;
+  // ISO timestamp of the appointment start
+  appointmentDate: string;
+  status: AppointmentStatus;
+  statusChangedAt: string | null;
+  paymentStatus: PaymentStatus;
+  paymentId: string | null;
+  consultationType: ConsultationType;
+  // Consultation fee in whole rupees
+  feeAmount: number | null;
+}
@@ -0,0 +1,35 @@
+import type { UserRole } from '@/types/profile';
+
+// waiting: the room is open but the doctor hasn't admitted the patient yet
+export type ConsultationStatus = 'waiting' | 'in_progress' | 'ended';
+
+export interface ConsultationSession {
+  id: string;
+  appointmentId: string;
+  status: ConsultationStatus;
+  // First time each side joined, and when they last left (cleared when they rejoin)
+  patientJoinedAt: string | null;
+  patientLeftAt: string | null;
+  doctorJoinedAt: string | null;
+  doctorLeftAt: string | null;
+  admittedAt: string | null;
+  endedAt: string | null;
+  // Time from admission to the end of the consultation
+  durationSeconds: number | null;
+  // In-call chat, oldest first
+  chatTranscript: ConsultationChatMessage[];
+}
+
+export interface ConsultationChatMessage {
+  id: string;
+  sender: UserRole;
+  text: string;
+  // ISO timestamp
+  sentAt: string;
+}
+
+// Camera and microphone picked during the pre-call device check
+export interface MediaDeviceSelection {
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+}
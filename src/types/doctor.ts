@@ -0,0 +1,70 @@
+import type { SessionConsultationType } from '@/types/schedule';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export type DoctorGender = 'female' | 'male' | 'other';
+
+export interface Doctor {
+  id: string;
+  // The doctor's account, once they have signed up
+  userId: string | null;
+  name: string;
+  specialty: string;
+  experienceYears: number;
+  hospital: string;
+  city: string;
+  // In-person consultation fee in whole rupees
+  feeAmount: number;
+  rating: number;
+  reviewCount: number;
+  imageUrl: string | null;
+  coordinates: Coordinates | null;
+  languages: string[];
+  gender: DoctorGender | null;
+  offersInPerson: boolean;
+  offersVideo: boolean;
+  bio: string | null;
+  qualifications: string[];
+  // Street address; hospital and city are separate
+  clinicAddress: string | null;
+}
+
+export type DoctorSort = 'rating' | 'fee_asc' | 'fee_desc' | 'experience' | 'distance';
+
+// Everything the directory can be narrowed by; null or empty means no filter
+export interface DoctorFilters {
+  // Matched against name, specialty, city and hospital
+  query: string;
+  specialty: string | null;
+  // Whole rupees, inclusive
+  minFee: number | null;
+  maxFee: number | null;
+  minRating: number | null;
+  minExperience: number | null;
+  // Speaks at least one of these
+  languages: string[];
+  gender: DoctorGender | null;
+  mode: SessionConsultationType | null;
+  availableToday: boolean;
+}
+
+export interface DoctorSearchParams extends DoctorFilters {
+  sort: DoctorSort;
+  // Zero-based
+  page: number;
+}
+
+export interface SpecialtyFacet {
+  specialty: string;
+  count: number;
+}
+
+// The listing details a doctor maintains themselves
+export type DoctorPractice = Pick<
+  Doctor,
+  | 'specialty' | 'experienceYears' | 'hospital' | 'city' | 'clinicAddress' | 'feeAmount'
+  | 'languages' | 'gender' | 'offersInPerson' | 'offersVideo' | 'bio' | 'qualifications'
+>;
@@ -0,0 +1,9 @@
+export type InteractionSeverity = 'major' | 'moderate' | 'minor';
+
+export interface InteractionWarning {
+  severity: InteractionSeverity;
+  type: 'drug' | 'allergy';
+  // The other medication or the allergy the checked drug conflicts with
+  conflictsWith: string;
+  description: string;
+}
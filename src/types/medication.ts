@@ -0,0 +1,59 @@
+export type MedicationFrequency =
+  | 'once_daily'
+  | 'twice_daily'
+  | 'three_times_daily'
+  | 'four_times_daily'
+  | 'weekly'
+  | 'as_needed';
+
+export type MedicationStatus = 'active' | 'paused' | 'ended';
+
+// ISO timestamps; `to` is null while the medication is still paused
+export interface PausedPeriod {
+  from: string;
+  to: string | null;
+}
+
+export interface Medication {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: MedicationFrequency;
+  // Local times of day in 24h "HH:mm" format
+  doseTimes: string[];
+  // Calendar dates in "yyyy-MM-dd" format; endDate is inclusive
+  startDate: string;
+  endDate: string | null;
+  status: MedicationStatus;
+  // Recorded by the database whenever the status moves in and out of paused
+  pausedPeriods: PausedPeriod[];
+  instructions: string | null;
+}
+
+export interface MedicationInput {
+  name: string;
+  dosage: string;
+  frequency: MedicationFrequency;
+  doseTimes: string[];
+  startDate: string;
+  endDate: string | null;
+  instructions?: string;
+}
+
+// A single scheduled dose expanded from a medication regimen
+export interface DoseEvent {
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  scheduledAt: Date;
+}
+
+export type DoseStatus = 'taken' | 'skipped' | 'late';
+
+export interface DoseLog {
+  id: string;
+  medicationId: string;
+  scheduledAt: string;
+  status: DoseStatus;
+  loggedAt: string;
+}
@@ -0,0 +1,41 @@
+import type { UserRole } from '@/types/profile';
+
+export interface Conversation {
+  id: string;
+  patientId: string;
+  doctorId: string;
+  // Name the patient signed up with, shown in the doctor's inbox
+  patientName: string | null;
+  doctorName: string;
+  doctorImageUrl: string | null;
+  lastMessageAt: string | null;
+  lastMessagePreview: string | null;
+  // Messages from the other participant the current user hasn't read
+  unreadCount: number;
+}
+
+export interface ConversationMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  senderRole: UserRole;
+  // May be empty when the message is just an attachment
+  body: string;
+  attachment: MessageAttachment | null;
+  // When the other participant first saw the message
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type AttachmentType = 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf';
+
+export interface MessageAttachment {
+  // Storage path in the chat-attachments bucket, under the conversation's folder
+  path: string;
+  name: string;
+  type: AttachmentType;
+  // In bytes
+  size: number;
+  // Small JPEG preview; set for images only
+  thumbnailPath: string | null;
+}
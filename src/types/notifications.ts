@@ -0,0 +1,9 @@
+export interface NotificationPreferences {
+  medicationReminders: boolean;
+  appointmentAlerts: boolean;
+  healthUpdates: boolean;
+  quietHoursEnabled: boolean;
+  // Local times in 24h "HH:mm" format; the range may wrap past midnight
+  quietHoursStart: string;
+  quietHoursEnd: string;
+}
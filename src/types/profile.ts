@@ -1,8 +1,10 @@
 
+export type UserRole = 'patient' | 'doctor';
+
 export interface UserProfile {
   id: string;
   email: string;
-  role?: 'patient' | 'doctor';
+  role?: UserRole;
   user_metadata?: {
     full_name?: string;
     phone?: string;
@@ -13,29 +15,14 @@ export interface UserProfile {
 }
 
 export interface MedicalCondition {
+  id: string;
   condition: string;
   diagnosedYear: string;
   status: string;
 }
 
 export interface Allergy {
+  id: string;
   name: string;
   severity: 'high' | 'medium' | 'low';
 }
-
-export interface Doctor {
-  id: number;
-  name: string;
-  specialty: string;
-  experience: string;
-  location: string;
-  rating: number;
-  reviews: number;
-  fee: string;
-  availableToday: boolean;
-  image: string;
-  coordinates: {
-    lat: number;
-    lng: number;
-  };
-}
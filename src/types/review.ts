@@ -0,0 +1,23 @@
+// Hidden reviews have been taken down by a moderator; flagged ones stay up until then
+export type ReviewModerationStatus = 'published' | 'flagged' | 'hidden';
+
+export interface DoctorReview {
+  id: string;
+  appointmentId: string;
+  doctorId: string;
+  // Shortened display name, e.g. "Priya S."
+  reviewerName: string | null;
+  // 1 to 5 stars
+  rating: number;
+  comment: string | null;
+  doctorResponse: string | null;
+  respondedAt: string | null;
+  moderationStatus: ReviewModerationStatus;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment: string;
+}
@@ -0,0 +1,33 @@
+import type { ConsultationType } from '@/types/appointment';
+
+// 0 is Sunday, matching Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Chat consultations aren't tied to a slot, so sessions only offer these
+export type SessionConsultationType = Exclude<ConsultationType, 'chat'>;
+
+// Local times in 24h "HH:mm" format; end is exclusive
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// A block of working time on a weekday, e.g. in-person mornings and video evenings
+export interface WorkingSession extends TimeWindow {
+  consultationTypes: SessionConsultationType[];
+}
+
+export interface ScheduleBreak extends TimeWindow {
+  // The weekday the break applies to, or null for every working day
+  weekday: Weekday | null;
+}
+
+export interface DoctorSchedule {
+  doctorName: string;
+  slotMinutes: number;
+  // Days without sessions are closed
+  weeklyHours: Partial<Record<Weekday, WorkingSession[]>>;
+  breaks: ScheduleBreak[];
+  // Calendar dates in "yyyy-MM-dd" format
+  leaveDays: string[];
+}
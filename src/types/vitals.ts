@@ -0,0 +1,23 @@
+export type VitalType = 'weight' | 'blood_pressure' | 'temperature' | 'glucose' | 'sleep';
+
+export type VitalUnit = 'kg' | 'lb' | 'mmHg' | '°C' | '°F' | 'mg/dL' | 'mmol/L' | 'hours';
+
+export interface Vital {
+  id: string;
+  type: VitalType;
+  // Stored in the canonical unit for the type (see VITAL_DEFINITIONS)
+  value: number;
+  // Diastolic pressure for blood pressure readings, null otherwise
+  secondaryValue: number | null;
+  recordedAt: string;
+  notes: string | null;
+}
+
+export interface VitalInput {
+  type: VitalType;
+  value: number;
+  secondaryValue?: number | null;
+  unit: VitalUnit;
+  recordedAt: string;
+  notes?: string;
+}
@@ -0,0 +1,117 @@
+import { endOfDay, format, isBefore, startOfDay, subDays, addDays } from 'date-fns';
+import type { DoseLog, Medication } from '@/types/medication';
+import { expandDoses, getDoseKey, isPausedAt } from '@/utils/medicationSchedule';
+
+export const ADHERENCE_WINDOWS = [7, 30, 90] as const;
+
+export type AdherenceWindow = typeof ADHERENCE_WINDOWS[number];
+
+export interface AdherenceStats {
+  due: number;
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  // Share of due doses that were taken, on time or late. Null when nothing was due.
+  percent: number | null;
+}
+
+export interface MedicationAdherence extends AdherenceStats {
+  medicationId: string;
+  medicationName: string;
+}
+
+export interface AdherenceTrendPoint {
+  label: string;
+  date: Date;
+  percent: number | null;
+}
+
+const emptyStats = (): AdherenceStats => ({ due: 0, taken: 0, late: 0, skipped: 0, missed: 0, percent: null });
+
+const withPercent = (stats: AdherenceStats): AdherenceStats => ({
+  ...stats,
+  percent: stats.due > 0 ? Math.round(((stats.taken + stats.late) / stats.due) * 100) : null,
+});
+
+const indexLogs = (logs: DoseLog[]) =>
+  new Map(logs.map(log => [getDoseKey(log.medicationId, log.scheduledAt), log]));
+
+// Doses that were due between from and now. Doses that fell while a medication was paused
+// aren't due; ended courses still count up to their end date.
+const getDueDoses = (medications: Medication[], from: Date, now: Date) => {
+  const medicationsById = new Map(medications.map(medication => [medication.id, medication]));
+
+  return expandDoses(medications, from, now, ['active', 'paused', 'ended'])
+    .filter(dose => isBefore(dose.scheduledAt, now) && !isPausedAt(medicationsById.get(dose.medicationId), dose.scheduledAt));
+};
+
+/**
+ * Adherence for the last `days` days, overall and per medication.
+ * A due dose with no log counts as missed.
+ */
+export const calculateAdherence = (
+  medications: Medication[],
+  logs: DoseLog[],
+  days: AdherenceWindow,
+  now: Date = new Date()
+): { overall: AdherenceStats; byMedication: MedicationAdherence[] } => {
+  const logsByDose = indexLogs(logs);
+  const from = startOfDay(subDays(now, days - 1));
+  const overall = emptyStats();
+  const perMedication = new Map<string, MedicationAdherence>();
+
+  getDueDoses(medications, from, now).forEach(dose => {
+    const stats = perMedication.get(dose.medicationId) || {
+      ...emptyStats(),
+      medicationId: dose.medicationId,
+      medicationName: dose.medicationName,
+    };
+    const status = logsByDose.get(getDoseKey(dose.medicationId, dose.scheduledAt))?.status || 'missed';
+
+    [overall, stats].forEach(target => {
+      target.due += 1;
+      target[status] += 1;
+    });
+
+    perMedication.set(dose.medicationId, stats);
+  });
+
+  return {
+    overall: withPercent(overall),
+    byMedication: Array.from(perMedication.values()).map(stats => ({ ...stats, ...withPercent(stats) })),
+  };
+};
+
+/**
+ * Daily adherence percentages for the last `days` days, oldest first.
+ */
+export const getAdherenceTrend = (
+  medications: Medication[],
+  logs: DoseLog[],
+  days: number,
+  now: Date = new Date()
+): AdherenceTrendPoint[] => {
+  const logsByDose = indexLogs(logs);
+  const from = startOfDay(subDays(now, days - 1));
+  const dueDoses = getDueDoses(medications, from, now);
+  const points: AdherenceTrendPoint[] = [];
+
+  for (let day = from; !isBefore(endOfDay(now), day); day = addDays(day, 1)) {
+    const dayDoses = dueDoses.filter(dose =>
+      !isBefore(dose.scheduledAt, day) && isBefore(dose.scheduledAt, addDays(day, 1))
+    );
+    const adhered = dayDoses.filter(dose => {
+      const status = logsByDose.get(getDoseKey(dose.medicationId, dose.scheduledAt))?.status;
+      return status === 'taken' || status === 'late';
+    }).length;
+
+    points.push({
+      label: format(day, days <= 7 ? 'EEE' : 'MMM d'),
+      date: day,
+      percent: dayDoses.length > 0 ? Math.round((adhered / dayDoses.length) * 100) : null,
+    });
+  }
+
+  return points;
+};
@@ -0,0 +1,192 @@
+import { addDays, addMinutes, format, isBefore, startOfDay } from 'date-fns';
+import type { ConsultationType } from '@/types/appointment';
+import type { DoctorSchedule, SessionConsultationType, Weekday, WorkingSession } from '@/types/schedule';
+
+export const SESSION_CONSULTATION_TYPES: SessionConsultationType[] = ['in-person', 'video'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+};
+
+// Monday first, as doctors plan their week
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+export const MIN_SLOT_MINUTES = 5;
+export const MAX_SLOT_MINUTES = 240;
+
+const fullDay = (start: string, end: string): WorkingSession[] => [
+  { start, end, consultationTypes: [...SESSION_CONSULTATION_TYPES] },
+];
+
+// Used for doctors who haven't published a schedule yet
+export const DEFAULT_DOCTOR_SCHEDULE: Omit<DoctorSchedule, 'doctorName'> = {
+  slotMinutes: 30,
+  weeklyHours: {
+    1: fullDay('09:00', '18:00'),
+    2: fullDay('09:00', '18:00'),
+    3: fullDay('09:00', '18:00'),
+    4: fullDay('09:00', '18:00'),
+    5: fullDay('09:00', '18:00'),
+    6: fullDay('09:00', '13:00'),
+  },
+  breaks: [{ weekday: null, start: '13:00', end: '14:00' }],
+  leaveDays: [],
+};
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+  available: boolean;
+  consultationTypes: SessionConsultationType[];
+}
+
+const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = startOfDay(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const overlaps = (start: Date, end: Date, window: { start: Date; end: Date }) =>
+  isBefore(start, window.end) && isBefore(window.start, end);
+
+// "HH:mm" strings compare correctly as text
+const overlapsTime = (a: { start: string; end: string }, b: { start: string; end: string }) =>
+  a.start < b.end && b.start < a.end;
+
+export const isOnLeave = (schedule: DoctorSchedule, day: Date): boolean =>
+  schedule.leaveDays.includes(format(day, 'yyyy-MM-dd'));
+
+/**
+ * The doctor's sessions on the given day in time order, or none if they aren't working.
+ */
+export const getWorkingSessions = (schedule: DoctorSchedule, day: Date): WorkingSession[] => {
+  if (isOnLeave(schedule, day)) return [];
+  return [...(schedule.weeklyHours[day.getDay() as Weekday] || [])].sort((a, b) => a.start.localeCompare(b.start));
+};
+
+/**
+ * Builds the appointment slots for a day from the doctor's schedule. Slots must fit
+ * inside a session and clear any breaks; those already booked, or starting before
+ * `now`, are returned but marked unavailable. Passing an in-person or video
+ * consultation type leaves out sessions that don't offer it.
+ */
+export const generateDaySlots = (
+  schedule: DoctorSchedule,
+  day: Date,
+  bookedSlots: Date[],
+  now: Date = new Date(),
+  consultationType?: ConsultationType
+): TimeSlot[] => {
+  const booked = new Set(bookedSlots.map(slot => slot.getTime()));
+  const breaks = schedule.breaks
+    .filter(scheduleBreak => scheduleBreak.weekday === null || scheduleBreak.weekday === day.getDay())
+    .map(scheduleBreak => ({ start: atTime(day, scheduleBreak.start), end: atTime(day, scheduleBreak.end) }));
+  const sessions = getWorkingSessions(schedule, day).filter(session =>
+    !consultationType || consultationType === 'chat' || session.consultationTypes.includes(consultationType)
+  );
+  const slots: TimeSlot[] = [];
+
+  for (const session of sessions) {
+    const close = atTime(day, session.end);
+
+    for (let start = atTime(day, session.start); ; ) {
+      const end = addMinutes(start, schedule.slotMinutes);
+      if (isBefore(close, end)) break;
+
+      // Resume straight after a break rather than at the next slot boundary
+      const clash = breaks.find(window => overlaps(start, end, window));
+      if (clash) {
+        start = clash.end;
+        continue;
+      }
+
+      slots.push({
+        start,
+        end,
+        available: isBefore(now, start) && !booked.has(start.getTime()),
+        consultationTypes: session.consultationTypes,
+      });
+      start = end;
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * The first `limit` bookable slots over `days` days from `from`, of any consultation type.
+ * `bookedSlots` should cover the whole range.
+ */
+export const findNextAvailableSlots = (
+  schedule: DoctorSchedule,
+  from: Date,
+  days: number,
+  bookedSlots: Date[],
+  limit: number,
+  now: Date = new Date()
+): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+
+  for (let offset = 0; offset < days && slots.length < limit; offset++) {
+    const daySlots = generateDaySlots(schedule, addDays(startOfDay(from), offset), bookedSlots, now);
+    slots.push(...daySlots.filter(slot => slot.available).slice(0, limit - slots.length));
+  }
+
+  return slots;
+};
+
+/**
+ * Link to the booking page for a doctor, optionally with a slot picked. The slot's
+ * consultation type is preselected too, preferring an in-person visit.
+ */
+export const getBookingPath = (doctorId: string, slot?: TimeSlot): string => {
+  const path = `/doctors/${doctorId}/book`;
+  if (!slot) return path;
+
+  const type = slot.consultationTypes.includes('in-person') ? 'in-person' : slot.consultationTypes[0];
+  const params = new URLSearchParams({ slot: slot.start.toISOString() });
+  if (type) params.set('type', type);
+  return `${path}?${params}`;
+};
+
+/**
+ * Checks a schedule before it is published. Returns an error message, or null
+ * when the schedule is valid.
+ */
+export const validateSchedule = (schedule: DoctorSchedule): string | null => {
+  if (!Number.isInteger(schedule.slotMinutes) || schedule.slotMinutes < MIN_SLOT_MINUTES || schedule.slotMinutes > MAX_SLOT_MINUTES) {
+    return `Slot length must be between ${MIN_SLOT_MINUTES} and ${MAX_SLOT_MINUTES} minutes`;
+  }
+
+  for (const weekday of WEEKDAYS) {
+    const sessions = schedule.weeklyHours[weekday] || [];
+    const label = WEEKDAY_LABELS[weekday];
+
+    for (const [index, session] of sessions.entries()) {
+      if (!session.start || !session.end || session.start >= session.end) {
+        return `${label}: each session must end after it starts`;
+      }
+      if (session.consultationTypes.length === 0) {
+        return `${label}: choose at least one consultation type for ${session.start}–${session.end}`;
+      }
+      if (sessions.slice(index + 1).some(other => overlapsTime(session, other))) {
+        return `${label}: sessions can't overlap`;
+      }
+    }
+  }
+
+  for (const scheduleBreak of schedule.breaks) {
+    if (!scheduleBreak.start || !scheduleBreak.end || scheduleBreak.start >= scheduleBreak.end) {
+      return 'Each break must end after it starts';
+    }
+  }
+
+  return null;
+};
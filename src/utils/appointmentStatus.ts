@@ -0,0 +1,75 @@
+import { isBefore } from 'date-fns';
+import type { Appointment, AppointmentStatus, ConsultationType } from '@/types/appointment';
+
+interface StatusDefinition {
+  label: string;
+  className: string;
+  // Statuses this one may move to; final statuses have none
+  next: AppointmentStatus[];
+}
+
+// Mirrors the validate_appointment_status_transition trigger in the database
+export const APPOINTMENT_STATUS_DEFINITIONS: Record<AppointmentStatus, StatusDefinition> = {
+  scheduled: { label: 'Scheduled', className: 'bg-amber-100 text-amber-800', next: ['confirmed', 'cancelled', 'no_show'] },
+  confirmed: { label: 'Confirmed', className: 'bg-blue-100 text-blue-800', next: ['completed', 'cancelled', 'no_show'] },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800', next: [] },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700', next: [] },
+  no_show: { label: 'No-show', className: 'bg-red-100 text-red-800', next: [] },
+};
+
+export const CONSULTATION_TYPE_LABELS: Record<ConsultationType, string> = {
+  'in-person': 'In-Person Visit',
+  video: 'Video Consultation',
+  chat: 'Chat Consultation',
+};
+
+const LEGACY_STATUSES: Record<string, AppointmentStatus> = {
+  upcoming: 'scheduled',
+  booked: 'scheduled',
+  pending: 'scheduled',
+  'no-show': 'no_show',
+  'no show': 'no_show',
+  missed: 'no_show',
+  canceled: 'cancelled',
+};
+
+/**
+ * Maps a stored status onto the lifecycle, accepting the free-text values
+ * written before statuses were constrained. Unknown values count as scheduled.
+ */
+export const normalizeAppointmentStatus = (status: string | null): AppointmentStatus => {
+  const value = (status || '').trim().toLowerCase();
+  if (value in APPOINTMENT_STATUS_DEFINITIONS) return value as AppointmentStatus;
+  return LEGACY_STATUSES[value] || 'scheduled';
+};
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_STATUS_DEFINITIONS[from].next.includes(to);
+
+/**
+ * Throws if an appointment may not move from `from` to `to`.
+ */
+export const assertTransition = (from: AppointmentStatus, to: AppointmentStatus) => {
+  if (!canTransition(from, to)) {
+    throw new Error(
+      `A ${APPOINTMENT_STATUS_DEFINITIONS[from].label.toLowerCase()} appointment can't be marked as ${APPOINTMENT_STATUS_DEFINITIONS[to].label.toLowerCase()}`
+    );
+  }
+};
+
+export const isFinalStatus = (status: AppointmentStatus): boolean =>
+  APPOINTMENT_STATUS_DEFINITIONS[status].next.length === 0;
+
+/**
+ * Whether the appointment is still going ahead and hasn't started yet.
+ */
+export const isUpcoming = (appointment: Appointment, now: Date = new Date()): boolean =>
+  !isFinalStatus(appointment.status) && !isBefore(new Date(appointment.appointmentDate), now);
+
+/**
+ * The soonest appointment that is still going ahead, or null.
+ */
+export const getNextAppointment = (appointments: Appointment[], now: Date = new Date()): Appointment | null =>
+  appointments
+    .filter(appointment => isUpcoming(appointment, now))
+    .sort((a, b) => new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime())[0] || null;
@@ -0,0 +1,75 @@
+import type { AttachmentType } from '@/types/messaging';
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+// Matches file_size_limit in supabase/config.toml and the bucket in add_message_attachments.sql
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+export const ATTACHMENT_TYPES: Record<AttachmentType, string> = {
+  'image/jpeg': 'JPEG image',
+  'image/png': 'PNG image',
+  'image/webp': 'WebP image',
+  'application/pdf': 'PDF',
+};
+
+// For the file picker's accept attribute
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(',');
+
+const THUMBNAIL_SIZE = 320;
+
+export const isImageAttachment = (type: string): boolean => type.startsWith('image/');
+
+/**
+ * Checks a file before it is attached to a message. Returns an error message, or null
+ * when the file can be sent.
+ */
+export const validateAttachment = (file: { name: string; type: string; size: number }): string | null => {
+  if (!(file.type in ATTACHMENT_TYPES)) {
+    return 'You can attach photos (JPEG, PNG or WebP) and PDFs';
+  }
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+/**
+ * Formats a byte count for display, e.g. "820 KB" or "12.5 MB".
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+};
+
+/**
+ * Storage path for a new attachment. Files sit under the conversation's folder, which is
+ * what the storage policies check, and get a random prefix so names never collide.
+ */
+export const getAttachmentPath = (conversationId: string, fileName: string): string => {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-100) || 'file';
+  return `${conversationId}/${crypto.randomUUID()}-${safeName}`;
+};
+
+/**
+ * Scales an image down to a small JPEG for chat previews, so the thread doesn't load
+ * full-size photos. Browser only.
+ */
+export const createImageThumbnail = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d').drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not create a preview for this image'))),
+      'image/jpeg',
+      0.8
+    );
+  });
+};
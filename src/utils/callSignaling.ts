@@ -0,0 +1,100 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { UserRole } from '@/types/profile';
+
+export type CallSignal =
+  | { type: 'offer'; description: RTCSessionDescriptionInit; restart: boolean }
+  | { type: 'answer'; description: RTCSessionDescriptionInit }
+  | { type: 'candidate'; candidate: RTCIceCandidateInit }
+  | { type: 'hangup' };
+
+export interface CallParticipant {
+  userId: string;
+  role: UserRole;
+}
+
+export interface CallSignalingHandlers {
+  onSignal: (signal: CallSignal) => void;
+  // Called again with a new presence if the other party reloads or reconnects
+  onPeerJoined: (peer: CallParticipant) => void;
+  onPeerLeft: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface CallSignaling {
+  send: (signal: CallSignal) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const SIGNAL_EVENT = 'signal';
+
+/**
+ * Realtime topic for an appointment's video call. Channel access is limited to the
+ * appointment's patient and doctor by the policies in add_video_call_channels.sql.
+ */
+export const getCallTopic = (appointmentId: string) => `video-call:${appointmentId}`;
+
+/**
+ * Joins the private Realtime channel for an appointment's video call. Offers, answers and
+ * ICE candidates are relayed as broadcasts, and presence tells each side when the other
+ * party joins or leaves.
+ */
+export const createCallSignaling = (
+  appointmentId: string,
+  self: CallParticipant,
+  handlers: CallSignalingHandlers
+): CallSignaling => {
+  // presence_ref changes whenever the peer rejoins, even under the same user id
+  let peerRef: string | null = null;
+
+  const channel: RealtimeChannel = supabase.channel(getCallTopic(appointmentId), {
+    config: {
+      private: true,
+      broadcast: { self: false },
+      presence: { key: self.userId },
+    },
+  });
+
+  channel
+    .on('broadcast', { event: SIGNAL_EVENT }, ({ payload }) => {
+      handlers.onSignal(payload as CallSignal);
+    })
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<CallParticipant>();
+      const peerKey = Object.keys(state).find(key => key !== self.userId);
+      const peer = peerKey ? state[peerKey][0] : null;
+
+      if (!peer) {
+        if (peerRef) {
+          peerRef = null;
+          handlers.onPeerLeft();
+        }
+        return;
+      }
+
+      if (peer.presence_ref !== peerRef) {
+        peerRef = peer.presence_ref;
+        handlers.onPeerJoined({ userId: peer.userId, role: peer.role });
+      }
+    })
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        channel.track(self);
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        handlers.onError(error || new Error('Could not connect to the call. Please check your connection.'));
+      }
+    });
+
+  return {
+    send: async (signal) => {
+      const result = await channel.send({ type: 'broadcast', event: SIGNAL_EVENT, payload: signal });
+      if (result !== 'ok') {
+        throw new Error('Could not reach the other participant');
+      }
+    },
+    close: async () => {
+      await channel.untrack();
+      await supabase.removeChannel(channel);
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { ConsultationChatMessage } from '@/types/consultation';
+
+// Matches the limit in log_consultation_message
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+const isChatMessage = (value: unknown): value is ConsultationChatMessage => {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.id === 'string' &&
+    (message.sender === 'doctor' || message.sender === 'patient') &&
+    typeof message.text === 'string' &&
+    message.text.length <= MAX_CHAT_MESSAGE_LENGTH &&
+    typeof message.sentAt === 'string'
+  );
+};
+
+/**
+ * Reads a message received over the call's data channel. Returns null for anything
+ * that isn't a well-formed chat message.
+ */
+export const parseChatMessage = (data: unknown): ConsultationChatMessage | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    return isChatMessage(message) ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Converts the stored transcript (snake_case, as written by the database) to messages.
+ */
+export const toChatTranscript = (transcript: Json): ConsultationChatMessage[] =>
+  (Array.isArray(transcript) ? transcript : [])
+    .map(entry => {
+      const row = entry as Record<string, unknown>;
+      return { id: row.id, sender: row.sender, text: row.text, sentAt: row.sent_at };
+    })
+    .filter(isChatMessage);
+
+/**
+ * Combines messages from several sources, dropping duplicates by id, oldest first.
+ */
+export const mergeChatMessages = (...sources: ConsultationChatMessage[][]): ConsultationChatMessage[] => {
+  const byId = new Map<string, ConsultationChatMessage>();
+  sources.flat().forEach(message => {
+    if (!byId.has(message.id)) byId.set(message.id, message);
+  });
+  return [...byId.values()].sort((a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime());
+};
+
+/**
+ * Splits message text into plain text and links, so links can be made clickable.
+ */
+export const splitMessageLinks = (text: string): { text: string; href?: string }[] =>
+  text
+    .split(URL_PATTERN)
+    .filter(Boolean)
+    .map(part => (/^https?:\/\//.test(part) ? { text: part, href: part } : { text: part }));
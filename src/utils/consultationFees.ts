@@ -0,0 +1,15 @@
+import type { ConsultationType } from '@/types/appointment';
+
+// Rupees off the in-person fee for remote consultations
+export const CONSULTATION_FEE_DISCOUNTS: Record<ConsultationType, number> = {
+  'in-person': 0,
+  video: 30,
+  chat: 50,
+};
+
+/**
+ * What a consultation of the given type costs, in whole rupees, from the doctor's
+ * in-person fee. This is the amount shown, charged and stored on the appointment.
+ */
+export const getConsultationFee = (feeAmount: number, type: ConsultationType): number =>
+  Math.max(0, feeAmount - CONSULTATION_FEE_DISCOUNTS[type]);
@@ -0,0 +1,49 @@
+import { addMinutes, format, isAfter, isBefore } from 'date-fns';
+import type { Appointment } from '@/types/appointment';
+import type { ConsultationSession } from '@/types/consultation';
+import { isFinalStatus } from '@/utils/appointmentStatus';
+
+// Mirrors the checks in join_consultation (create_consultation_sessions_table.sql)
+export const JOIN_EARLY_MINUTES = 10;
+export const JOIN_LATE_MINUTES = 60;
+
+/**
+ * The span during which either side may join an appointment's video consultation.
+ */
+export const getJoinWindow = (appointment: Appointment) => {
+  const start = new Date(appointment.appointmentDate);
+  return {
+    opensAt: addMinutes(start, -JOIN_EARLY_MINUTES),
+    closesAt: addMinutes(start, JOIN_LATE_MINUTES),
+  };
+};
+
+/**
+ * Explains why the appointment's video consultation can't be joined right now, or
+ * returns null when it can.
+ */
+export const getJoinBlockReason = (appointment: Appointment, now: Date = new Date()): string | null => {
+  if (appointment.consultationType !== 'video') return 'This appointment is not a video consultation';
+  if (isFinalStatus(appointment.status)) return 'This appointment is no longer active';
+
+  const { opensAt, closesAt } = getJoinWindow(appointment);
+  if (isBefore(now, opensAt)) return `You can join from ${format(opensAt, 'MMM d, h:mm a')}`;
+  if (isAfter(now, closesAt)) return 'The time for this consultation has passed';
+
+  return null;
+};
+
+/**
+ * Whether the patient is in the waiting room right now.
+ */
+export const isPatientWaiting = (session: ConsultationSession | null | undefined): boolean =>
+  !!session && session.status === 'waiting' && !!session.patientJoinedAt && !session.patientLeftAt;
+
+/**
+ * Formats a call length, e.g. "12 min 5 s" or "45 s".
+ */
+export const formatCallDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes} min ${rest} s` : `${rest} s`;
+};
@@ -0,0 +1,47 @@
+import { isBefore, isSameDay, isSameMonth } from 'date-fns';
+import type { Appointment } from '@/types/appointment';
+import { isFinalStatus } from '@/utils/appointmentStatus';
+
+export interface EarningsSummary {
+  // Fees from consultations completed today / this calendar month
+  today: number;
+  month: number;
+  // Fees from booked consultations that haven't happened yet
+  upcoming: number;
+}
+
+const byTime = (a: Appointment, b: Appointment) =>
+  new Date(a.appointmentDate).getTime() - new Date(b.appointmentDate).getTime();
+
+/**
+ * Today's appointments in time order, leaving out cancellations.
+ */
+export const getTodaysAppointments = (appointments: Appointment[], now: Date = new Date()): Appointment[] =>
+  appointments
+    .filter(appointment => appointment.status !== 'cancelled' && isSameDay(new Date(appointment.appointmentDate), now))
+    .sort(byTime);
+
+/**
+ * Patients still to be seen today in time order, including anyone whose slot has
+ * already started but hasn't been marked completed or a no-show.
+ */
+export const getPatientQueue = (appointments: Appointment[], now: Date = new Date()): Appointment[] =>
+  getTodaysAppointments(appointments, now).filter(appointment => !isFinalStatus(appointment.status));
+
+/**
+ * Totals consultation fees. Only completed appointments count as earned.
+ */
+export const calculateEarnings = (appointments: Appointment[], now: Date = new Date()): EarningsSummary =>
+  appointments.reduce<EarningsSummary>((summary, appointment) => {
+    const fee = appointment.feeAmount || 0;
+    const date = new Date(appointment.appointmentDate);
+
+    if (appointment.status === 'completed') {
+      if (isSameDay(date, now)) summary.today += fee;
+      if (isSameMonth(date, now)) summary.month += fee;
+    } else if (!isFinalStatus(appointment.status) && !isBefore(date, now)) {
+      summary.upcoming += fee;
+    }
+
+    return summary;
+  }, { today: 0, month: 0, upcoming: 0 });
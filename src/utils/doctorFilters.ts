@@ -0,0 +1,114 @@
+import type { DoctorFilters, DoctorGender, DoctorSearchParams, DoctorSort } from '@/types/doctor';
+import type { SessionConsultationType } from '@/types/schedule';
+
+export const DOCTOR_LANGUAGES = [
+  'English', 'Hindi', 'Bengali', 'Marathi', 'Telugu', 'Tamil',
+  'Gujarati', 'Urdu', 'Kannada', 'Odia', 'Malayalam', 'Punjabi',
+];
+
+export const DOCTOR_GENDER_LABELS: Record<DoctorGender, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+export const DOCTOR_SORT_LABELS: Record<DoctorSort, string> = {
+  rating: 'Top rated',
+  fee_asc: 'Fee: low to high',
+  fee_desc: 'Fee: high to low',
+  experience: 'Most experienced',
+  distance: 'Nearest first',
+};
+
+export const MIN_RATING_OPTIONS = [3, 3.5, 4, 4.5];
+export const MIN_EXPERIENCE_OPTIONS = [5, 10, 15, 20];
+
+export const DEFAULT_DOCTOR_SEARCH: DoctorSearchParams = {
+  query: '',
+  specialty: null,
+  minFee: null,
+  maxFee: null,
+  minRating: null,
+  minExperience: null,
+  languages: [],
+  gender: null,
+  mode: null,
+  availableToday: false,
+  sort: 'rating',
+  page: 0,
+};
+
+const SORTS = Object.keys(DOCTOR_SORT_LABELS) as DoctorSort[];
+const GENDERS = Object.keys(DOCTOR_GENDER_LABELS) as DoctorGender[];
+const MODES: SessionConsultationType[] = ['in-person', 'video'];
+
+const toNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+const oneOf = <T extends string>(value: string | null, options: T[]): T | null =>
+  options.includes(value as T) ? (value as T) : null;
+
+/**
+ * Reads a doctor search from the page URL. Unknown or malformed values fall back to
+ * the defaults, so hand-edited or outdated links still open a sensible search.
+ */
+export const parseDoctorSearch = (params: URLSearchParams): DoctorSearchParams => {
+  const page = toNumber(params.get('page'));
+
+  return {
+    query: params.get('q') || '',
+    specialty: params.get('specialty') || null,
+    minFee: toNumber(params.get('minFee')),
+    maxFee: toNumber(params.get('maxFee')),
+    minRating: toNumber(params.get('rating')),
+    minExperience: toNumber(params.get('experience')),
+    languages: (params.get('languages') || '').split(',').filter(language => DOCTOR_LANGUAGES.includes(language)),
+    gender: oneOf(params.get('gender'), GENDERS),
+    mode: oneOf(params.get('mode'), MODES),
+    availableToday: params.get('today') === '1',
+    sort: oneOf(params.get('sort'), SORTS) || DEFAULT_DOCTOR_SEARCH.sort,
+    // One-based in the URL
+    page: page && Number.isInteger(page) && page > 1 ? page - 1 : 0,
+  };
+};
+
+/**
+ * Writes a doctor search to URL parameters, leaving out anything at its default so
+ * shared links stay short.
+ */
+export const toDoctorSearchParams = (search: DoctorSearchParams): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (search.query) params.set('q', search.query);
+  if (search.specialty) params.set('specialty', search.specialty);
+  if (search.minFee !== null) params.set('minFee', String(search.minFee));
+  if (search.maxFee !== null) params.set('maxFee', String(search.maxFee));
+  if (search.minRating !== null) params.set('rating', String(search.minRating));
+  if (search.minExperience !== null) params.set('experience', String(search.minExperience));
+  if (search.languages.length > 0) params.set('languages', search.languages.join(','));
+  if (search.gender) params.set('gender', search.gender);
+  if (search.mode) params.set('mode', search.mode);
+  if (search.availableToday) params.set('today', '1');
+  if (search.sort !== DEFAULT_DOCTOR_SEARCH.sort) params.set('sort', search.sort);
+  if (search.page > 0) params.set('page', String(search.page + 1));
+
+  return params;
+};
+
+/**
+ * How many of the panel filters are set, for the badge on the filters button.
+ * The text search and specialty have their own controls and aren't counted.
+ */
+export const countActiveFilters = (filters: DoctorFilters): number =>
+  [
+    filters.minFee !== null || filters.maxFee !== null,
+    filters.minRating !== null,
+    filters.minExperience !== null,
+    filters.languages.length > 0,
+    filters.gender !== null,
+    filters.mode !== null,
+    filters.availableToday,
+  ].filter(Boolean).length;
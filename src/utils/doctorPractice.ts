@@ -0,0 +1,30 @@
+import type { DoctorPractice } from '@/types/doctor';
+
+export const MAX_EXPERIENCE_YEARS = 70;
+export const MAX_BIO_LENGTH = 2000;
+
+/**
+ * Checks a doctor's practice details before they are saved. Returns an error message,
+ * or null when the details are valid.
+ */
+export const validateDoctorPractice = (practice: DoctorPractice): string | null => {
+  if (!practice.specialty.trim()) return 'Specialty is required';
+  if (!practice.hospital.trim()) return 'Hospital or clinic is required';
+  if (!practice.city.trim()) return 'City is required';
+
+  if (!Number.isInteger(practice.feeAmount) || practice.feeAmount < 0) {
+    return 'Consultation fee must be a whole number of rupees';
+  }
+  if (!Number.isInteger(practice.experienceYears) || practice.experienceYears < 0 || practice.experienceYears > MAX_EXPERIENCE_YEARS) {
+    return `Experience must be between 0 and ${MAX_EXPERIENCE_YEARS} years`;
+  }
+  if ((practice.bio || '').trim().length > MAX_BIO_LENGTH) {
+    return `Your bio can be at most ${MAX_BIO_LENGTH} characters`;
+  }
+  if (practice.languages.length === 0) return 'Choose at least one language you consult in';
+  if (!practice.offersInPerson && !practice.offersVideo) {
+    return 'Offer at least one of in-person visits or video consultations';
+  }
+
+  return null;
+};
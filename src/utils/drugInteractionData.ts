@@ -0,0 +1,206 @@
+import type { InteractionSeverity } from '@/types/interactions';
+
+// Offline reference data for the interaction checker (see drugInteractions.ts).
+// It covers common outpatient drugs only and is not a substitute for a pharmacist's review.
+
+export interface DrugClassDefinition {
+  label: string;
+  // Extra names an allergy may be recorded under, e.g. "sulfa"
+  aliases?: string[];
+}
+
+export interface DrugDefinition {
+  classes: string[];
+  // Brand names and alternative generic names, lower case
+  aliases?: string[];
+}
+
+export interface InteractionRule {
+  // Drug names or class keys; the rule applies in either order
+  between: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface CrossReactivityRule {
+  // Class of the drug the user is allergic to
+  allergyClass: string;
+  // Class of the drug being checked
+  drugClass: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const DRUG_CLASSES: Record<string, DrugClassDefinition> = {
+  ace_inhibitor: { label: 'ACE inhibitors', aliases: ['ace inhibitor', 'ace inhibitors'] },
+  anticoagulant: { label: 'anticoagulants', aliases: ['blood thinner', 'blood thinners'] },
+  antiplatelet: { label: 'antiplatelets' },
+  antacid: { label: 'antacids' },
+  arb: { label: 'angiotensin receptor blockers', aliases: ['arb', 'arbs'] },
+  azole_antifungal: { label: 'azole antifungals', aliases: ['azole', 'azoles'] },
+  benzodiazepine: { label: 'benzodiazepines', aliases: ['benzodiazepine', 'benzodiazepines', 'benzos'] },
+  beta_lactam: { label: 'beta-lactam antibiotics', aliases: ['beta-lactam', 'beta lactam'] },
+  biguanide: { label: 'biguanides' },
+  calcium_channel_blocker: { label: 'calcium channel blockers' },
+  calcium_supplement: { label: 'calcium supplements' },
+  cardiac_glycoside: { label: 'cardiac glycosides' },
+  cephalosporin: { label: 'cephalosporins', aliases: ['cephalosporin', 'cephalosporins'] },
+  cyp3a4_inhibitor: { label: 'strong CYP3A4 inhibitors' },
+  fluoroquinolone: { label: 'fluoroquinolones', aliases: ['fluoroquinolone', 'fluoroquinolones', 'quinolone', 'quinolones'] },
+  insulin: { label: 'insulins' },
+  loop_diuretic: { label: 'loop diuretics' },
+  macrolide: { label: 'macrolide antibiotics', aliases: ['macrolide', 'macrolides'] },
+  nitrate: { label: 'nitrates', aliases: ['nitrate', 'nitrates'] },
+  nsaid: { label: 'NSAIDs', aliases: ['nsaid', 'nsaids', 'anti-inflammatory', 'anti-inflammatories'] },
+  opioid: { label: 'opioids', aliases: ['opioid', 'opioids', 'opiate', 'opiates'] },
+  pde5_inhibitor: { label: 'PDE5 inhibitors' },
+  penicillin: { label: 'penicillins', aliases: ['penicillin', 'penicillins'] },
+  potassium_sparing_diuretic: { label: 'potassium-sparing diuretics' },
+  potassium_supplement: { label: 'potassium supplements' },
+  ppi: { label: 'proton pump inhibitors', aliases: ['ppi', 'ppis'] },
+  ssri: { label: 'SSRIs', aliases: ['ssri', 'ssris'] },
+  statin: { label: 'statins', aliases: ['statin', 'statins'] },
+  sulfonamide: { label: 'sulfonamides', aliases: ['sulfa', 'sulpha', 'sulfa drugs', 'sulfonamide', 'sulfonamides'] },
+  sulfonylurea: { label: 'sulfonylureas' },
+  thiazide_diuretic: { label: 'thiazide diuretics' },
+  thyroid_hormone: { label: 'thyroid hormones' },
+};
+
+export const DRUGS: Record<string, DrugDefinition> = {
+  // Pain relief and anti-inflammatories
+  aspirin: { classes: ['nsaid', 'antiplatelet'], aliases: ['acetylsalicylic acid', 'ecosprin', 'disprin'] },
+  ibuprofen: { classes: ['nsaid'], aliases: ['advil', 'motrin', 'brufen', 'nurofen'] },
+  naproxen: { classes: ['nsaid'], aliases: ['aleve', 'naprosyn'] },
+  diclofenac: { classes: ['nsaid'], aliases: ['voltaren', 'voveran'] },
+  paracetamol: { classes: [], aliases: ['acetaminophen', 'tylenol', 'crocin', 'dolo', 'calpol'] },
+  tramadol: { classes: ['opioid'], aliases: ['ultram'] },
+  codeine: { classes: ['opioid'] },
+  morphine: { classes: ['opioid'] },
+
+  // Blood thinners
+  warfarin: { classes: ['anticoagulant'], aliases: ['coumadin', 'jantoven'] },
+  apixaban: { classes: ['anticoagulant'], aliases: ['eliquis'] },
+  rivaroxaban: { classes: ['anticoagulant'], aliases: ['xarelto'] },
+  clopidogrel: { classes: ['antiplatelet'], aliases: ['plavix'] },
+
+  // Diabetes
+  metformin: { classes: ['biguanide'], aliases: ['glucophage', 'glycomet'] },
+  glimepiride: { classes: ['sulfonylurea'], aliases: ['amaryl'] },
+  gliclazide: { classes: ['sulfonylurea'], aliases: ['diamicron'] },
+  insulin: { classes: ['insulin'], aliases: ['lantus', 'humalog', 'novorapid', 'insulin glargine'] },
+
+  // Blood pressure and heart
+  lisinopril: { classes: ['ace_inhibitor'], aliases: ['zestril', 'prinivil'] },
+  enalapril: { classes: ['ace_inhibitor'], aliases: ['vasotec'] },
+  ramipril: { classes: ['ace_inhibitor'], aliases: ['altace'] },
+  losartan: { classes: ['arb'], aliases: ['cozaar'] },
+  telmisartan: { classes: ['arb'], aliases: ['micardis', 'telma'] },
+  amlodipine: { classes: ['calcium_channel_blocker'], aliases: ['norvasc'] },
+  spironolactone: { classes: ['potassium_sparing_diuretic'], aliases: ['aldactone'] },
+  hydrochlorothiazide: { classes: ['thiazide_diuretic'], aliases: ['hctz'] },
+  furosemide: { classes: ['loop_diuretic'], aliases: ['lasix'] },
+  digoxin: { classes: ['cardiac_glycoside'], aliases: ['lanoxin'] },
+  nitroglycerin: { classes: ['nitrate'], aliases: ['glyceryl trinitrate', 'gtn'] },
+  'isosorbide mononitrate': { classes: ['nitrate'], aliases: ['imdur'] },
+  atorvastatin: { classes: ['statin'], aliases: ['lipitor'] },
+  simvastatin: { classes: ['statin'], aliases: ['zocor'] },
+  rosuvastatin: { classes: ['statin'], aliases: ['crestor'] },
+
+  // Antibiotics and antifungals
+  'penicillin v': { classes: ['penicillin', 'beta_lactam'], aliases: ['penicillin', 'phenoxymethylpenicillin', 'pen vk'] },
+  amoxicillin: { classes: ['penicillin', 'beta_lactam'], aliases: ['amoxil', 'augmentin', 'co-amoxiclav'] },
+  ampicillin: { classes: ['penicillin', 'beta_lactam'] },
+  cephalexin: { classes: ['cephalosporin', 'beta_lactam'], aliases: ['cefalexin', 'keflex'] },
+  ceftriaxone: { classes: ['cephalosporin', 'beta_lactam'], aliases: ['rocephin'] },
+  azithromycin: { classes: ['macrolide'], aliases: ['zithromax', 'azithral'] },
+  clarithromycin: { classes: ['macrolide', 'cyp3a4_inhibitor'], aliases: ['biaxin'] },
+  erythromycin: { classes: ['macrolide', 'cyp3a4_inhibitor'] },
+  ciprofloxacin: { classes: ['fluoroquinolone'], aliases: ['cipro', 'ciplox'] },
+  levofloxacin: { classes: ['fluoroquinolone'], aliases: ['levaquin'] },
+  sulfamethoxazole: { classes: ['sulfonamide'], aliases: ['bactrim', 'septra', 'co-trimoxazole', 'cotrimoxazole'] },
+  fluconazole: { classes: ['azole_antifungal'], aliases: ['diflucan'] },
+  ketoconazole: { classes: ['azole_antifungal', 'cyp3a4_inhibitor'] },
+
+  // Mental health and sleep
+  sertraline: { classes: ['ssri'], aliases: ['zoloft'] },
+  fluoxetine: { classes: ['ssri'], aliases: ['prozac'] },
+  escitalopram: { classes: ['ssri'], aliases: ['lexapro', 'cipralex'] },
+  alprazolam: { classes: ['benzodiazepine'], aliases: ['xanax'] },
+  diazepam: { classes: ['benzodiazepine'], aliases: ['valium'] },
+  lithium: { classes: [] },
+
+  // Other
+  methotrexate: { classes: [] },
+  sildenafil: { classes: ['pde5_inhibitor'], aliases: ['viagra'] },
+  tadalafil: { classes: ['pde5_inhibitor'], aliases: ['cialis'] },
+  levothyroxine: { classes: ['thyroid_hormone'], aliases: ['synthroid', 'thyronorm', 'eltroxin'] },
+  omeprazole: { classes: ['ppi'], aliases: ['prilosec', 'omez'] },
+  pantoprazole: { classes: ['ppi'], aliases: ['protonix', 'pan'] },
+  'calcium carbonate': { classes: ['calcium_supplement', 'antacid'], aliases: ['tums', 'shelcal'] },
+  'potassium chloride': { classes: ['potassium_supplement'], aliases: ['k-dur', 'klor-con'] },
+};
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  // Bleeding
+  { between: ['anticoagulant', 'nsaid'], severity: 'major', description: 'Greatly increases the risk of serious bleeding.' },
+  { between: ['anticoagulant', 'antiplatelet'], severity: 'major', description: 'Greatly increases the risk of serious bleeding.' },
+  { between: ['anticoagulant', 'ssri'], severity: 'moderate', description: 'Increases the risk of bleeding.' },
+  { between: ['ssri', 'nsaid'], severity: 'moderate', description: 'Increases the risk of stomach bleeding.' },
+  { between: ['warfarin', 'azole_antifungal'], severity: 'major', description: 'Raises warfarin levels and the risk of bleeding; INR needs close monitoring.' },
+  { between: ['warfarin', 'sulfamethoxazole'], severity: 'major', description: 'Raises warfarin levels and the risk of bleeding; INR needs close monitoring.' },
+  { between: ['warfarin', 'fluoroquinolone'], severity: 'moderate', description: 'May raise warfarin levels; INR should be checked.' },
+  { between: ['warfarin', 'macrolide'], severity: 'moderate', description: 'May raise warfarin levels; INR should be checked.' },
+  { between: ['clopidogrel', 'omeprazole'], severity: 'moderate', description: 'Omeprazole can make clopidogrel less effective.' },
+
+  // Kidneys, potassium and blood pressure
+  { between: ['ace_inhibitor', 'potassium_sparing_diuretic'], severity: 'major', description: 'Can cause dangerously high potassium levels.' },
+  { between: ['arb', 'potassium_sparing_diuretic'], severity: 'major', description: 'Can cause dangerously high potassium levels.' },
+  { between: ['ace_inhibitor', 'potassium_supplement'], severity: 'moderate', description: 'May raise potassium levels; blood tests are usually needed.' },
+  { between: ['arb', 'potassium_supplement'], severity: 'moderate', description: 'May raise potassium levels; blood tests are usually needed.' },
+  { between: ['ace_inhibitor', 'arb'], severity: 'moderate', description: 'Combining them raises the risk of kidney problems and high potassium.' },
+  { between: ['ace_inhibitor', 'nsaid'], severity: 'moderate', description: 'NSAIDs can weaken the blood pressure effect and strain the kidneys.' },
+  { between: ['arb', 'nsaid'], severity: 'moderate', description: 'NSAIDs can weaken the blood pressure effect and strain the kidneys.' },
+  { between: ['pde5_inhibitor', 'nitrate'], severity: 'major', description: 'Can cause a sudden, dangerous drop in blood pressure.' },
+  { between: ['digoxin', 'loop_diuretic'], severity: 'moderate', description: 'Low potassium from the diuretic increases the risk of digoxin toxicity.' },
+  { between: ['digoxin', 'thiazide_diuretic'], severity: 'moderate', description: 'Low potassium from the diuretic increases the risk of digoxin toxicity.' },
+  { between: ['digoxin', 'clarithromycin'], severity: 'moderate', description: 'Can raise digoxin to toxic levels.' },
+  { between: ['lithium', 'nsaid'], severity: 'major', description: 'Raises lithium levels and the risk of lithium toxicity.' },
+  { between: ['lithium', 'ace_inhibitor'], severity: 'moderate', description: 'May raise lithium levels.' },
+  { between: ['lithium', 'thiazide_diuretic'], severity: 'major', description: 'Raises lithium levels and the risk of lithium toxicity.' },
+  { between: ['methotrexate', 'nsaid'], severity: 'major', description: 'Can raise methotrexate to toxic levels.' },
+  { between: ['methotrexate', 'sulfamethoxazole'], severity: 'major', description: 'Increases the risk of serious bone marrow suppression.' },
+
+  // Statins
+  { between: ['simvastatin', 'cyp3a4_inhibitor'], severity: 'major', description: 'Greatly increases the risk of muscle damage (rhabdomyolysis).' },
+  { between: ['atorvastatin', 'cyp3a4_inhibitor'], severity: 'moderate', description: 'Increases the risk of muscle pain and damage.' },
+  { between: ['simvastatin', 'amlodipine'], severity: 'minor', description: 'Amlodipine raises simvastatin levels; doses above 20mg are not recommended together.' },
+
+  // Nervous system
+  { between: ['opioid', 'benzodiazepine'], severity: 'major', description: 'Can cause severe drowsiness and slowed or stopped breathing.' },
+  { between: ['ssri', 'tramadol'], severity: 'major', description: 'Increases the risk of serotonin syndrome and seizures.' },
+
+  // Blood sugar
+  { between: ['insulin', 'sulfonylurea'], severity: 'moderate', description: 'Increases the risk of low blood sugar.' },
+  { between: ['sulfonylurea', 'fluoroquinolone'], severity: 'moderate', description: 'Can cause unpredictable swings in blood sugar.' },
+
+  // Absorption
+  { between: ['levothyroxine', 'calcium_supplement'], severity: 'minor', description: 'Calcium reduces levothyroxine absorption; take them at least 4 hours apart.' },
+  { between: ['levothyroxine', 'ppi'], severity: 'minor', description: 'May reduce levothyroxine absorption over time.' },
+  { between: ['fluoroquinolone', 'antacid'], severity: 'minor', description: 'Antacids reduce antibiotic absorption; take the antibiotic 2 hours before.' },
+
+  // Doubling up
+  { between: ['nsaid', 'nsaid'], severity: 'moderate', description: 'Taking two NSAIDs adds side effects without extra benefit.' },
+  { between: ['ssri', 'ssri'], severity: 'major', description: 'Taking two SSRIs increases the risk of serotonin syndrome.' },
+];
+
+export const ALLERGY_CROSS_REACTIVITY: CrossReactivityRule[] = [
+  { allergyClass: 'penicillin', drugClass: 'penicillin', severity: 'major', description: 'People allergic to one penicillin are usually allergic to all of them.' },
+  { allergyClass: 'penicillin', drugClass: 'cephalosporin', severity: 'moderate', description: 'A small number of people allergic to penicillins also react to cephalosporins.' },
+  { allergyClass: 'cephalosporin', drugClass: 'cephalosporin', severity: 'major', description: 'People allergic to one cephalosporin often react to others.' },
+  { allergyClass: 'cephalosporin', drugClass: 'penicillin', severity: 'moderate', description: 'A small number of people allergic to cephalosporins also react to penicillins.' },
+  { allergyClass: 'sulfonamide', drugClass: 'sulfonamide', severity: 'major', description: 'Sulfonamide antibiotics commonly cross-react with each other.' },
+  { allergyClass: 'nsaid', drugClass: 'nsaid', severity: 'moderate', description: 'People who react to one NSAID often react to others.' },
+  { allergyClass: 'fluoroquinolone', drugClass: 'fluoroquinolone', severity: 'major', description: 'Fluoroquinolones commonly cross-react with each other.' },
+  { allergyClass: 'macrolide', drugClass: 'macrolide', severity: 'moderate', description: 'Macrolide antibiotics may cross-react with each other.' },
+  { allergyClass: 'opioid', drugClass: 'opioid', severity: 'moderate', description: 'Reactions to one opioid may occur with others.' },
+];
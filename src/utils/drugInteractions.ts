@@ -0,0 +1,148 @@
+import type { InteractionSeverity, InteractionWarning } from '@/types/interactions';
+import type { Medication } from '@/types/medication';
+import type { Allergy } from '@/types/profile';
+import {
+  ALLERGY_CROSS_REACTIVITY, DRUG_CLASSES, DRUG_INTERACTIONS, DRUGS
+} from '@/utils/drugInteractionData';
+import { isMedicationActive } from '@/utils/medicationSchedule';
+
+export const SEVERITY_ORDER: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+// Words people add around allergy names, e.g. "Penicillin Allergy" or "allergic to sulfa"
+const ALLERGY_FILLER_WORDS = /\b(allergy|allergies|allergic|to|sensitivity|intolerance|reaction|interaction)\b/g;
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const buildLookup = (entries: [string, string[] | undefined][]) => {
+  const lookup = new Map<string, string>();
+  entries.forEach(([key, aliases]) => {
+    [key.replace(/_/g, ' '), ...(aliases || [])].forEach(name => lookup.set(name, key));
+  });
+  return lookup;
+};
+
+const DRUG_LOOKUP = buildLookup(Object.entries(DRUGS).map(([name, drug]) => [name, drug.aliases]));
+const CLASS_LOOKUP = buildLookup(Object.entries(DRUG_CLASSES).map(([key, drugClass]) => [key, drugClass.aliases]));
+
+// Tries the whole text, then word pairs, then single words, so "Amoxicillin 500mg"
+// and "isosorbide mononitrate SR" both resolve
+const findInLookup = (text: string, lookup: Map<string, string>): string | null => {
+  const normalized = normalize(text);
+  if (lookup.has(normalized)) return lookup.get(normalized);
+
+  const words = normalized.split(' ');
+  for (let i = 0; i < words.length - 1; i++) {
+    const pair = `${words[i]} ${words[i + 1]}`;
+    if (lookup.has(pair)) return lookup.get(pair);
+  }
+
+  return words.map(word => lookup.get(word)).find(Boolean) || null;
+};
+
+/**
+ * Resolves a medication name (generic or brand, optionally with a strength) to the
+ * dataset's generic name, or null if the drug isn't in the dataset.
+ */
+export const resolveDrug = (name: string): string | null => findInLookup(name, DRUG_LOOKUP);
+
+export const isKnownDrug = (name: string): boolean => resolveDrug(name) !== null;
+
+// The drug itself plus every class it belongs to
+const getConcepts = (drug: string): string[] => [drug, ...DRUGS[drug].classes];
+
+const describeConcept = (concept: string): string =>
+  DRUG_CLASSES[concept]?.label || concept;
+
+const findInteraction = (drug: string, otherDrug: string) => {
+  const concepts = getConcepts(drug);
+  const otherConcepts = getConcepts(otherDrug);
+
+  return DRUG_INTERACTIONS
+    .filter(({ between: [a, b] }) =>
+      (concepts.includes(a) && otherConcepts.includes(b)) ||
+      (concepts.includes(b) && otherConcepts.includes(a))
+    )
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])[0];
+};
+
+const checkAllergy = (drug: string, allergy: Allergy): InteractionWarning | null => {
+  const allergen = allergy.name.toLowerCase().replace(ALLERGY_FILLER_WORDS, ' ');
+  const allergenClass = findInLookup(allergen, CLASS_LOOKUP);
+  const allergenDrug = allergenClass ? null : resolveDrug(allergen);
+  if (!allergenClass && !allergenDrug) return null;
+
+  const concepts = getConcepts(drug);
+  const directMatch = allergenClass || allergenDrug;
+
+  if (concepts.includes(directMatch)) {
+    return {
+      severity: 'major',
+      type: 'allergy',
+      conflictsWith: allergy.name,
+      description: directMatch === drug
+        ? 'You have a recorded allergy to this medication.'
+        : `This medication is one of the ${describeConcept(directMatch)}, which you have a recorded allergy to.`,
+    };
+  }
+
+  const allergenClasses = allergenClass ? [allergenClass] : DRUGS[allergenDrug].classes;
+  const rule = ALLERGY_CROSS_REACTIVITY
+    .filter(({ allergyClass, drugClass }) => allergenClasses.includes(allergyClass) && concepts.includes(drugClass))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])[0];
+
+  return rule
+    ? { severity: rule.severity, type: 'allergy', conflictsWith: allergy.name, description: rule.description }
+    : null;
+};
+
+/**
+ * Checks a medication against the user's other active medications and recorded
+ * allergies. Returns at most one warning per conflicting medication or allergy,
+ * most severe first. Drugs missing from the offline dataset produce no warnings.
+ */
+export const checkMedication = (
+  name: string,
+  { medications, allergies, excludeId }: { medications: Medication[]; allergies: Allergy[]; excludeId?: string },
+  now: Date = new Date()
+): InteractionWarning[] => {
+  const drug = resolveDrug(name);
+  if (!drug) return [];
+
+  const warnings: InteractionWarning[] = [];
+
+  medications
+    .filter(medication => medication.id !== excludeId && isMedicationActive(medication, now))
+    .forEach(medication => {
+      const otherDrug = resolveDrug(medication.name);
+      if (!otherDrug) return;
+
+      if (otherDrug === drug) {
+        warnings.push({
+          severity: 'moderate',
+          type: 'drug',
+          conflictsWith: medication.name,
+          description: 'This is the same medicine as one you already take; check you are not doubling the dose.',
+        });
+        return;
+      }
+
+      const rule = findInteraction(drug, otherDrug);
+      if (rule) {
+        warnings.push({ severity: rule.severity, type: 'drug', conflictsWith: medication.name, description: rule.description });
+      }
+    });
+
+  allergies.forEach(allergy => {
+    const warning = checkAllergy(drug, allergy);
+    if (warning) warnings.push(warning);
+  });
+
+  return warnings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
@@ -0,0 +1,44 @@
+import type { Coordinates } from '@/types/doctor';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * A latitude/longitude box that contains every point within `radiusKm` of `center`,
+ * for narrowing a query before measuring exact distances.
+ */
+export const getBoundingBox = (center: Coordinates, radiusKm: number) => {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(toRadians(center.lat)), 0.01));
+
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta,
+  };
+};
+
+/**
+ * A Google Maps search for hospitals near the given point, or near wherever Maps thinks
+ * the user is when their location isn't available.
+ */
+export const getNearbyHospitalsUrl = (coords?: Coordinates | null): string => {
+  const query = coords ? `hospital near ${coords.lat},${coords.lng}` : 'hospital near me';
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+};
@@ -0,0 +1,129 @@
+import { supabase, SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from '@/integrations/supabase/client';
+
+export type HealthChatTurn = {
+  role: 'user' | 'bot';
+  content: string;
+};
+
+export type EmergencyContact = {
+  label: string;
+  number: string;
+};
+
+// Sent instead of a model answer when the edge function's triage spots red-flag symptoms
+export type EmergencyAlert = {
+  // Null if the escalation couldn't be logged
+  escalationId: string | null;
+  category: string;
+  title: string;
+  advice: string;
+  contacts: EmergencyContact[];
+};
+
+export type HealthChatEvent = {
+  event: string;
+  data: Record<string, unknown>;
+};
+
+type StreamHealthChatOptions = {
+  prompt: string;
+  previousMessages: HealthChatTurn[];
+  // Links any escalation log entry to the chat session
+  sessionId?: string;
+  // Called with each new piece of the answer as it arrives
+  onText: (text: string) => void;
+  onEmergency?: (alert: EmergencyAlert) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Splits complete Server-Sent Events off the front of the buffer. Returns the parsed events
+ * and whatever is left over (a partial event still being received).
+ */
+export const parseEvents = (buffer: string): { events: HealthChatEvent[]; rest: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+  const events: HealthChatEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: JSON.parse(data.join('\n')) });
+    }
+  }
+
+  return { events, rest };
+};
+
+/**
+ * Asks MedAssist a question and streams the answer from the gemini-health-chat edge function.
+ * Resolves with the full text once the answer is complete, or with what arrived so far if
+ * the signal aborts, which also cancels the request if the answer hasn't started yet.
+ */
+export const streamHealthChat = async ({
+  prompt, previousMessages, sessionId, onText, onEmergency, signal
+}: StreamHealthChatOptions) => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  // Called directly because functions.invoke can't be aborted
+  let response: Response;
+  try {
+    response = await fetch(`${SUPABASE_URL}/functions/v1/gemini-health-chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+        // Guests send the anon key, which the function treats as no user
+        Authorization: `Bearer ${session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      body: JSON.stringify({ prompt, previousMessages, sessionId }),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) return '';
+    throw error;
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to get response from Gemini API');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const { events, rest } = parseEvents(buffer + value);
+      buffer = rest;
+
+      for (const { event, data: payload } of events) {
+        if (event === 'error') {
+          throw new Error(String(payload.error));
+        }
+        if (event === 'emergency') {
+          onEmergency?.(payload as EmergencyAlert);
+        }
+        if (event === 'text') {
+          text += payload.text;
+          onText(String(payload.text));
+        }
+      }
+    }
+  } catch (error) {
+    // Aborting fails the read; keep the part of the answer that already arrived
+    if (!signal?.aborted) throw error;
+  }
+
+  return text;
+};
@@ -0,0 +1,170 @@
+import {
+  addDays, addMonths, addWeeks, format, isBefore,
+  parseISO, startOfDay, startOfMonth, startOfWeek, subDays, subMonths, subWeeks
+} from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TimeRange = 'week' | 'month' | 'year';
+
+export type FitnessRow = Tables<'fitness_data'>;
+
+// One point on a metrics chart. Values are null when there is no data for the bucket,
+// so Recharts leaves a gap instead of drawing a misleading zero.
+export interface MetricBucket {
+  label: string;
+  start: Date;
+  steps: number | null;
+  heartRate: number | null;
+}
+
+export const DAILY_STEP_GOAL = 10000;
+
+/**
+ * Returns the first day included in the given time range (inclusive).
+ * Week covers the last 7 days, month the last 4 weeks and year the last 12 months.
+ */
+export const getRangeStart = (timeRange: TimeRange, now: Date = new Date()): Date => {
+  switch (timeRange) {
+    case 'week':
+      return startOfDay(subDays(now, 6));
+    case 'month':
+      return startOfWeek(subWeeks(now, 3), { weekStartsOn: 1 });
+    case 'year':
+      return startOfMonth(subMonths(now, 11));
+  }
+};
+
+// Build the empty buckets for a range so every day/week/month shows on the axis
+const createBuckets = (timeRange: TimeRange, now: Date): MetricBucket[] => {
+  const buckets: MetricBucket[] = [];
+  let cursor = getRangeStart(timeRange, now);
+
+  while (!isBefore(now, cursor)) {
+    const label = timeRange === 'week'
+      ? format(cursor, 'EEE')
+      : timeRange === 'month'
+        ? format(cursor, 'MMM d')
+        : format(cursor, 'MMM');
+
+    buckets.push({ label, start: cursor, steps: null, heartRate: null });
+
+    cursor = timeRange === 'week'
+      ? addDays(cursor, 1)
+      : timeRange === 'month'
+        ? addWeeks(cursor, 1)
+        : addMonths(cursor, 1);
+  }
+
+  return buckets;
+};
+
+const average = (values: number[], decimals = 0): number | null => {
+  if (values.length === 0) return null;
+  const factor = 10 ** decimals;
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * factor) / factor;
+};
+
+/**
+ * Groups raw fitness_data rows into chart buckets for the selected range.
+ *
+ * Rows are first collapsed into calendar days (steps are summed, heart rate readings are kept),
+ * then each bucket reports the average daily steps and the average heart rate of its days.
+ * For the week range every bucket is a single day, so steps are that day's total.
+ */
+export const groupFitnessData = (
+  rows: FitnessRow[],
+  timeRange: TimeRange,
+  now: Date = new Date()
+): MetricBucket[] => {
+  const days = new Map<string, { date: Date; steps: number | null; heartRates: number[] }>();
+
+  rows.forEach(row => {
+    const date = startOfDay(parseISO(row.date));
+    const key = format(date, 'yyyy-MM-dd');
+    const day = days.get(key) || { date, steps: null, heartRates: [] };
+
+    if (row.steps !== null && row.steps !== undefined) {
+      day.steps = (day.steps || 0) + row.steps;
+    }
+    if (row.heart_rate !== null && row.heart_rate !== undefined) {
+      day.heartRates.push(row.heart_rate);
+    }
+
+    days.set(key, day);
+  });
+
+  const buckets = createBuckets(timeRange, now);
+
+  return buckets.map((bucket, index) => {
+    const next = buckets[index + 1]?.start;
+    const bucketDays = Array.from(days.values()).filter(day =>
+      !isBefore(day.date, bucket.start) && (!next || isBefore(day.date, next))
+    );
+
+    return {
+      ...bucket,
+      steps: average(bucketDays.filter(day => day.steps !== null).map(day => day.steps as number)),
+      heartRate: average(bucketDays.flatMap(day => day.heartRates)),
+    };
+  });
+};
+
+export interface ReadingBucket {
+  label: string;
+  start: Date;
+  value: number | null;
+}
+
+/**
+ * Groups timestamped readings (e.g. logged weight or sleep) into the same buckets as
+ * groupFitnessData, averaging the readings that fall into each bucket.
+ */
+export const groupReadings = (
+  readings: { recordedAt: string; value: number }[],
+  timeRange: TimeRange,
+  now: Date = new Date(),
+  decimals = 1
+): ReadingBucket[] => {
+  const buckets = createBuckets(timeRange, now);
+
+  return buckets.map((bucket, index) => {
+    const next = buckets[index + 1]?.start;
+    const values = readings
+      .filter(reading => {
+        const date = parseISO(reading.recordedAt);
+        return !isBefore(date, bucket.start) && (!next || isBefore(date, next));
+      })
+      .map(reading => reading.value);
+
+    return { label: bucket.label, start: bucket.start, value: average(values, decimals) };
+  });
+};
+
+/**
+ * Summary figures shown above the charts, calculated from the grouped buckets.
+ */
+export const summarizeBuckets = (buckets: MetricBucket[]) => {
+  const withSteps = buckets.filter(bucket => bucket.steps !== null);
+  const withHeartRate = buckets.filter(bucket => bucket.heartRate !== null);
+
+  const averageSteps = average(withSteps.map(bucket => bucket.steps as number));
+  const averageHeartRate = average(withHeartRate.map(bucket => bucket.heartRate as number));
+
+  return {
+    averageSteps,
+    averageHeartRate,
+    latestHeartRate: withHeartRate.length > 0 ? withHeartRate[withHeartRate.length - 1].heartRate : null,
+    stepGoalPercent: averageSteps !== null ? Math.round((averageSteps / DAILY_STEP_GOAL) * 100) : null,
+    hasData: withSteps.length > 0 || withHeartRate.length > 0,
+  };
+};
+
+/**
+ * Describes whether a resting heart rate is in the typical adult range (60-100 bpm).
+ */
+export const describeHeartRate = (bpm: number | null): { text: string; healthy: boolean } => {
+  if (bpm === null) return { text: 'No readings yet', healthy: true };
+  if (bpm < 60) return { text: 'Below typical resting range', healthy: false };
+  if (bpm > 100) return { text: 'Above typical resting range', healthy: false };
+  return { text: 'Within healthy range', healthy: true };
+};
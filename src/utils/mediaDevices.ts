@@ -0,0 +1,23 @@
+import type { MediaDeviceSelection } from '@/types/consultation';
+
+/**
+ * getUserMedia constraints for the chosen camera and microphone. Falls back to the
+ * browser's default device for anything not chosen.
+ */
+export const getMediaConstraints = (selection?: MediaDeviceSelection | null): MediaStreamConstraints => ({
+  video: selection?.videoDeviceId ? { deviceId: { exact: selection.videoDeviceId } } : true,
+  audio: selection?.audioDeviceId ? { deviceId: { exact: selection.audioDeviceId } } : true,
+});
+
+/**
+ * Loudness of the latest audio frame from 0 to 100, for a microphone level meter.
+ */
+export const getAudioLevel = (samples: Uint8Array): number => {
+  let sum = 0;
+  for (const sample of samples) {
+    const centred = (sample - 128) / 128;
+    sum += centred * centred;
+  }
+  // RMS of speech rarely goes above ~0.3, so scale it up to fill the meter
+  return Math.min(100, Math.round(Math.sqrt(sum / samples.length) * 300));
+};
@@ -0,0 +1,179 @@
+import {
+  addDays, differenceInCalendarDays, endOfDay, format, isAfter, isBefore, parseISO, startOfDay
+} from 'date-fns';
+import type { DoseEvent, Medication, MedicationFrequency, MedicationStatus } from '@/types/medication';
+
+interface FrequencyDefinition {
+  label: string;
+  defaultTimes: string[];
+}
+
+export const FREQUENCY_DEFINITIONS: Record<MedicationFrequency, FrequencyDefinition> = {
+  once_daily: { label: 'Once daily', defaultTimes: ['08:00'] },
+  twice_daily: { label: 'Twice daily', defaultTimes: ['08:00', '20:00'] },
+  three_times_daily: { label: 'Three times daily', defaultTimes: ['08:00', '14:00', '20:00'] },
+  four_times_daily: { label: 'Four times daily', defaultTimes: ['08:00', '12:00', '16:00', '20:00'] },
+  weekly: { label: 'Once weekly', defaultTimes: ['08:00'] },
+  as_needed: { label: 'As needed', defaultTimes: [] },
+};
+
+export const FREQUENCIES = Object.keys(FREQUENCY_DEFINITIONS) as MedicationFrequency[];
+
+export interface ParsedRegimen {
+  dosage?: string;
+  frequency?: MedicationFrequency;
+  durationDays?: number;
+}
+
+// Checked in order, so the more specific phrases come before plain "daily"
+const FREQUENCY_PATTERNS: [RegExp, MedicationFrequency][] = [
+  [/\b(as needed|when needed|when required|prn|sos)\b/i, 'as_needed'],
+  [/\b(four times|4 times|4x|qid)\b/i, 'four_times_daily'],
+  [/\b(three times|3 times|3x|thrice|tds|tid)\b/i, 'three_times_daily'],
+  [/\b(twice|two times|2 times|2x|bd|bid)\b/i, 'twice_daily'],
+  [/\b(weekly|once a week|every week)\b/i, 'weekly'],
+  [/\b(once|daily|every day|od|qd)\b/i, 'once_daily'],
+];
+
+const DOSAGE_PATTERN = /(\d+(?:\.\d+)?\s*(?:mg|mcg|µg|g|ml|iu|units?|tablets?|tabs?|capsules?|caps?|drops?|puffs?))\b/i;
+const DURATION_PATTERN = /\bfor\s+(\d+)\s*(day|week|month)s?\b/i;
+const DAYS_PER_UNIT = { day: 1, week: 7, month: 30 };
+
+/**
+ * Extracts dosage, frequency and duration from a free-text regimen such as
+ * "500mg twice daily, for 30 days". Parts that cannot be recognised are left undefined.
+ */
+export const parseRegimen = (text: string): ParsedRegimen => {
+  const result: ParsedRegimen = {};
+
+  const dosageMatch = text.match(DOSAGE_PATTERN);
+  if (dosageMatch) {
+    result.dosage = dosageMatch[1].replace(/\s+/g, ' ').trim();
+  }
+
+  const frequencyMatch = FREQUENCY_PATTERNS.find(([pattern]) => pattern.test(text));
+  if (frequencyMatch) {
+    result.frequency = frequencyMatch[1];
+  }
+
+  const durationMatch = text.match(DURATION_PATTERN);
+  if (durationMatch) {
+    const unit = durationMatch[2].toLowerCase() as keyof typeof DAYS_PER_UNIT;
+    result.durationDays = parseInt(durationMatch[1], 10) * DAYS_PER_UNIT[unit];
+  }
+
+  return result;
+};
+
+/**
+ * Returns the inclusive end date ("yyyy-MM-dd") for a course starting on startDate.
+ */
+export const getEndDateForDuration = (startDate: string, durationDays: number): string =>
+  format(addDays(parseISO(startDate), durationDays - 1), 'yyyy-MM-dd');
+
+/**
+ * Whether the medication's course covers the given calendar day, ignoring its status.
+ */
+export const isWithinCourse = (medication: Medication, day: Date): boolean => {
+  const date = startOfDay(day);
+  if (isBefore(date, parseISO(medication.startDate))) return false;
+  if (medication.endDate && isAfter(date, parseISO(medication.endDate))) return false;
+  return true;
+};
+
+/**
+ * Whether the medication was paused at the given moment.
+ */
+export const isPausedAt = (medication: Medication, at: Date): boolean =>
+  medication.pausedPeriods.some(period =>
+    !isBefore(at, parseISO(period.from)) && (!period.to || isBefore(at, parseISO(period.to)))
+  );
+
+/**
+ * Whether a medication should be shown as currently being taken.
+ */
+export const isMedicationActive = (medication: Medication, now: Date = new Date()): boolean =>
+  medication.status === 'active' &&
+  (!medication.endDate || !isAfter(startOfDay(now), parseISO(medication.endDate)));
+
+const isDoseDay = (medication: Medication, day: Date): boolean => {
+  if (!isWithinCourse(medication, day)) return false;
+  if (medication.frequency === 'weekly') {
+    return differenceInCalendarDays(day, parseISO(medication.startDate)) % 7 === 0;
+  }
+  return true;
+};
+
+const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+/**
+ * Expands medication regimens into individual dose events between `from` and `to`
+ * (inclusive), sorted by time. By default only active medications are expanded;
+ * pass other statuses to include them (e.g. ended courses when looking at history).
+ * As-needed medications never produce events.
+ */
+export const expandDoses = (
+  medications: Medication[],
+  from: Date,
+  to: Date,
+  statuses: MedicationStatus[] = ['active']
+): DoseEvent[] => {
+  const events: DoseEvent[] = [];
+
+  medications
+    .filter(medication => statuses.includes(medication.status) && medication.frequency !== 'as_needed')
+    .forEach(medication => {
+      for (let day = startOfDay(from); !isAfter(day, to); day = addDays(day, 1)) {
+        if (!isDoseDay(medication, day)) continue;
+
+        medication.doseTimes.forEach(time => {
+          const scheduledAt = atTime(day, time);
+          if (isBefore(scheduledAt, from) || isAfter(scheduledAt, to)) return;
+
+          events.push({
+            medicationId: medication.id,
+            medicationName: medication.name,
+            dosage: medication.dosage,
+            scheduledAt,
+          });
+        });
+      }
+    });
+
+  return events.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+};
+
+/**
+ * All dose events scheduled for the calendar day containing `now`.
+ */
+export const getDosesForDay = (medications: Medication[], now: Date = new Date()): DoseEvent[] =>
+  expandDoses(medications, startOfDay(now), endOfDay(now));
+
+/**
+ * The next dose due at or after `now`, looking up to a week ahead for weekly regimens.
+ */
+export const getNextDose = (medications: Medication[], now: Date = new Date()): DoseEvent | null =>
+  expandDoses(medications, now, endOfDay(addDays(now, 7)))[0] || null;
+
+/**
+ * Key identifying a single scheduled dose, used to match dose events with their logs.
+ */
+export const getDoseKey = (medicationId: string, scheduledAt: Date | string): string =>
+  `${medicationId}|${new Date(scheduledAt).toISOString()}`;
+
+/**
+ * Human readable summary of a regimen, e.g. "500mg - Twice daily".
+ */
+export const describeRegimen = (medication: Pick<Medication, 'dosage' | 'frequency'>): string =>
+  `${medication.dosage} - ${FREQUENCY_DEFINITIONS[medication.frequency].label}`;
+
+/**
+ * Formats a "HH:mm" dose time as "8:00 AM".
+ */
+export const formatDoseTime = (time: string | Date): string =>
+  format(typeof time === 'string' ? atTime(new Date(), time) : time, 'h:mm a');
@@ -0,0 +1,19 @@
+import type { Conversation } from '@/types/messaging';
+import type { UserRole } from '@/types/profile';
+
+// Matches the check on conversation_messages.body
+export const MAX_MESSAGE_LENGTH = 4000;
+
+/**
+ * Who the current user is talking to in a thread: the doctor for a patient, and
+ * the patient for a doctor.
+ */
+export const getConversationPeer = (conversation: Conversation, role: UserRole) =>
+  role === 'doctor'
+    ? { name: conversation.patientName || 'Patient', imageUrl: null }
+    : { name: conversation.doctorName, imageUrl: conversation.doctorImageUrl };
+
+/**
+ * Caps a sidebar badge count, e.g. 120 -> "99+".
+ */
+export const formatUnreadCount = (count: number): string => (count > 99 ? '99+' : String(count));
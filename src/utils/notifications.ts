@@ -0,0 +1,38 @@
+import type { DoseEvent } from '@/types/medication';
+import { formatDoseTime, getDoseKey } from '@/utils/medicationSchedule';
+
+const REMINDER_WORKER_URL = '/reminder-sw.js';
+
+export const isNotificationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+/**
+ * Asks for notification permission if it hasn't been decided yet.
+ * Resolves to whether notifications may be shown.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Registers the reminder service worker (a no-op if it is already registered).
+ */
+export const registerReminderWorker = (): Promise<ServiceWorkerRegistration> =>
+  navigator.serviceWorker.register(REMINDER_WORKER_URL);
+
+/**
+ * Shows a reminder for a dose. Notifications are tagged by dose, so a reminder
+ * shown by several open tabs only appears once.
+ */
+export const showDoseReminder = async (registration: ServiceWorkerRegistration, dose: DoseEvent) => {
+  await registration.showNotification(`Time to take ${dose.medicationName}`, {
+    body: `${dose.dosage} scheduled for ${formatDoseTime(dose.scheduledAt)}`,
+    tag: getDoseKey(dose.medicationId, dose.scheduledAt),
+    icon: '/favicon.ico',
+    data: { url: '/medications' },
+  });
+};
@@ -1,4 +1,6 @@
 
+import { supabase } from '@/integrations/supabase/client';
+
 /**
  * Utility function to load the Razorpay script dynamically
  */
@@ -17,6 +19,19 @@ export const loadRazorpay = (): Promise<any> => {
   });
 };
 
+/**
+ * Records a completed payment through the record-payment edge function, which confirms it
+ * with Razorpay. Pass the appointment it paid for, or leave it out when the booking failed
+ * so the payment is kept on record for a refund.
+ */
+export const recordPayment = async (paymentId: string, appointmentId?: string) => {
+  const { error } = await supabase.functions.invoke('record-payment', {
+    body: { paymentId, appointmentId },
+  });
+
+  if (error) throw error;
+};
+
 // Extend the Window interface to include Razorpay
 declare global {
   interface Window {
@@ -0,0 +1,63 @@
+import { differenceInMinutes } from 'date-fns';
+import type { Appointment } from '@/types/appointment';
+
+export interface RefundPolicy {
+  // Cancelling at least this many hours before the start refunds the whole fee
+  fullRefundHoursBefore: number;
+  // Share of the fee refunded when cancelling later than that but before the start
+  partialRefundPercent: number;
+}
+
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  fullRefundHoursBefore: 24,
+  partialRefundPercent: 50,
+};
+
+export type RefundTier = 'full' | 'partial' | 'none';
+
+export interface RefundQuote {
+  tier: RefundTier;
+  percent: number;
+  // Whole rupees, rounded down
+  amount: number;
+  description: string;
+}
+
+/**
+ * Works out how much of the fee is refunded if the appointment is cancelled at `now`.
+ * Only paid appointments with a payment reference can be refunded. This is the quote shown
+ * before cancelling; the cancel_appointment database function applies the same default
+ * policy when it records the refund.
+ */
+export const calculateRefund = (
+  appointment: Pick<Appointment, 'appointmentDate' | 'feeAmount' | 'paymentStatus' | 'paymentId'>,
+  now: Date = new Date(),
+  policy: RefundPolicy = DEFAULT_REFUND_POLICY
+): RefundQuote => {
+  if (appointment.paymentStatus !== 'paid' || !appointment.paymentId || !appointment.feeAmount) {
+    return { tier: 'none', percent: 0, amount: 0, description: 'No payment was taken for this appointment.' };
+  }
+
+  const minutesUntilStart = differenceInMinutes(new Date(appointment.appointmentDate), now);
+
+  if (minutesUntilStart <= 0) {
+    return { tier: 'none', percent: 0, amount: 0, description: 'The appointment has already started, so no refund is due.' };
+  }
+
+  if (minutesUntilStart >= policy.fullRefundHoursBefore * 60) {
+    return {
+      tier: 'full',
+      percent: 100,
+      amount: appointment.feeAmount,
+      description: `Cancelled more than ${policy.fullRefundHoursBefore} hours ahead, so the full fee is refunded.`,
+    };
+  }
+
+  const amount = Math.floor((appointment.feeAmount * policy.partialRefundPercent) / 100);
+  return {
+    tier: amount > 0 ? 'partial' : 'none',
+    percent: amount > 0 ? policy.partialRefundPercent : 0,
+    amount,
+    description: `Cancelled within ${policy.fullRefundHoursBefore} hours of the start, so ${policy.partialRefundPercent}% of the fee is refunded.`,
+  };
+};
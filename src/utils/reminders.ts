@@ -0,0 +1,53 @@
+import { addHours } from 'date-fns';
+import type { DoseEvent, Medication } from '@/types/medication';
+import type { NotificationPreferences } from '@/types/notifications';
+import { expandDoses } from '@/utils/medicationSchedule';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  medicationReminders: false,
+  appointmentAlerts: false,
+  healthUpdates: false,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+};
+
+// How far ahead reminders are scheduled; the scheduler re-plans well before this runs out
+export const REMINDER_HORIZON_HOURS = 24;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `date` falls inside the quiet hours. The start is inclusive and the end
+ * exclusive, and a start later than the end means the range runs overnight.
+ */
+export const isWithinQuietHours = (date: Date, preferences: NotificationPreferences): boolean => {
+  if (!preferences.quietHoursEnabled) return false;
+
+  const start = toMinutes(preferences.quietHoursStart);
+  const end = toMinutes(preferences.quietHoursEnd);
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+};
+
+/**
+ * Doses that should trigger a reminder between now and the reminder horizon,
+ * soonest first. Doses inside the quiet hours are left out.
+ */
+export const getUpcomingReminders = (
+  medications: Medication[],
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): DoseEvent[] => {
+  if (!preferences.medicationReminders) return [];
+
+  return expandDoses(medications, now, addHours(now, REMINDER_HORIZON_HOURS))
+    .filter(dose => !isWithinQuietHours(dose.scheduledAt, preferences));
+};
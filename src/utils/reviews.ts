@@ -0,0 +1,48 @@
+import type { Appointment } from '@/types/appointment';
+import type { DoctorReview, ReviewInput } from '@/types/review';
+
+export const MAX_REVIEW_LENGTH = 2000;
+
+export const RATING_LABELS: Record<number, string> = {
+  1: 'Poor',
+  2: 'Fair',
+  3: 'Good',
+  4: 'Very good',
+  5: 'Excellent',
+};
+
+// Patients can only review a consultation that actually took place
+export const canReview = (appointment: Appointment): boolean => appointment.status === 'completed';
+
+/**
+ * Checks a review before it is submitted. Returns an error message, or null when
+ * the review is valid.
+ */
+export const validateReview = (review: ReviewInput): string | null => {
+  if (!Number.isInteger(review.rating) || review.rating < 1 || review.rating > 5) {
+    return 'Choose a rating from 1 to 5 stars';
+  }
+  if (review.comment.trim().length > MAX_REVIEW_LENGTH) {
+    return `Reviews can be at most ${MAX_REVIEW_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Shortens a full name for display on a public review: "Priya Sharma" becomes "Priya S.".
+ */
+export const toReviewerName = (fullName: string | null | undefined): string | null => {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return parts[0];
+  return `${parts[0]} ${parts[parts.length - 1][0].toUpperCase()}.`;
+};
+
+/**
+ * How many reviews gave each star rating, from 5 stars down to 1.
+ */
+export const getRatingBreakdown = (reviews: DoctorReview[]): { stars: number; count: number }[] =>
+  [5, 4, 3, 2, 1].map(stars => ({
+    stars,
+    count: reviews.filter(review => review.rating === stars).length,
+  }));
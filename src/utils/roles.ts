@@ -0,0 +1,7 @@
+import type { UserRole } from '@/types/profile';
+
+// Where each role lands after signing in, and is sent back to from the other role's pages
+export const ROLE_HOME_PATHS: Record<UserRole, string> = {
+  patient: '/dashboard',
+  doctor: '/doctor',
+};
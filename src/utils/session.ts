@@ -0,0 +1,21 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * The signed-in user's session. Throws `message` when nobody is signed in, so each caller
+ * can say what the user needs to sign in for.
+ */
+export const requireSession = async (message: string): Promise<Session> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error(message);
+  }
+
+  return session;
+};
+
+/**
+ * The signed-in user's id, or throws `message` when nobody is signed in.
+ */
+export const requireUserId = async (message: string) => (await requireSession(message)).user.id;
@@ -0,0 +1,58 @@
+-- Stops two active bookings landing on the same doctor and time, and lets patients see
+-- which slots are taken without seeing other patients' appointments. Run after
+-- create_appointment_refunds_table.sql.
+
+-- Bookings made before slots came from doctors' schedules could share a time, which would
+-- stop the unique index below from being created. The earliest booking for each slot is
+-- kept and the rest are cancelled. Those with a recorded payment get a full refund request;
+-- older paid ones are marked refund_requested for support to settle against payment_id.
+WITH ranked AS (
+  SELECT id, row_number() OVER (PARTITION BY doctor_name, appointment_date ORDER BY created_at, id) AS position
+  FROM public.appointments
+  WHERE status IN ('scheduled', 'confirmed')
+), cancelled AS (
+  UPDATE public.appointments a
+  SET status = 'cancelled',
+      payment_status = CASE WHEN a.payment_status = 'paid' THEN 'refund_requested' ELSE a.payment_status END
+  FROM ranked
+  WHERE a.id = ranked.id AND ranked.position > 1
+  RETURNING a.id, a.user_id
+)
+INSERT INTO public.appointment_refunds (appointment_id, user_id, payment_id, amount, percent, policy_tier)
+SELECT cancelled.id, cancelled.user_id, p.razorpay_payment_id, p.amount, 100, 'full'
+FROM cancelled
+JOIN public.payments p ON p.appointment_id = cancelled.id
+ON CONFLICT (appointment_id) DO NOTHING;
+
+-- A doctor can't have two active bookings in the same slot
+CREATE UNIQUE INDEX IF NOT EXISTS appointments_doctor_slot_unique
+  ON public.appointments (doctor_name, appointment_date)
+  WHERE status IN ('scheduled', 'confirmed');
+
+-- Slot checks need to see other patients' bookings, which row level security hides,
+-- so they run as the table owner and only reveal whether slots are taken.
+CREATE OR REPLACE FUNCTION public.get_booked_slots(p_doctor_name TEXT, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS SETOF TIMESTAMPTZ
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT appointment_date FROM public.appointments
+  WHERE doctor_name = p_doctor_name
+    AND appointment_date >= p_from
+    AND appointment_date < p_to
+    AND status IN ('scheduled', 'confirmed');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_appointment_slot_available(
+  p_doctor_name TEXT,
+  p_slot TIMESTAMPTZ,
+  p_exclude_appointment_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE doctor_name = p_doctor_name
+      AND appointment_date = p_slot
+      AND status IN ('scheduled', 'confirmed')
+      AND (p_exclude_appointment_id IS NULL OR id <> p_exclude_appointment_id)
+  );
+$$;
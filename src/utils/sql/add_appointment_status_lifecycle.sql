@@ -0,0 +1,63 @@
+
+-- Restrict appointment status to the lifecycle used by the app:
+--   scheduled -> confirmed -> completed / cancelled / no_show
+--   scheduled -> cancelled / no_show
+-- completed, cancelled and no_show are final. Only the appointment's doctor can confirm,
+-- complete or mark a no-show; doctor_id and current_doctor_id() come from
+-- create_doctors_table.sql.
+
+-- Map free-text statuses written before this migration onto the lifecycle
+UPDATE public.appointments SET status = lower(trim(status));
+UPDATE public.appointments SET status = 'scheduled' WHERE status IN ('upcoming', 'booked', 'pending');
+UPDATE public.appointments SET status = 'no_show' WHERE status IN ('no-show', 'no show', 'missed');
+UPDATE public.appointments SET status = 'cancelled' WHERE status = 'canceled';
+UPDATE public.appointments SET status = 'scheduled'
+  WHERE status NOT IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show');
+
+ALTER TABLE public.appointments
+  ALTER COLUMN status SET DEFAULT 'scheduled',
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+ALTER TABLE public.appointments
+  DROP CONSTRAINT IF EXISTS appointments_status_check;
+
+ALTER TABLE public.appointments
+  ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show'));
+
+-- Reject status changes that skip or reverse the lifecycle, whoever makes them
+CREATE OR REPLACE FUNCTION public.validate_appointment_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'scheduled' AND NEW.status IN ('confirmed', 'cancelled', 'no_show')) OR
+    (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled', 'no_show'))
+  ) THEN
+    RAISE EXCEPTION 'Appointment cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  -- Patients can only cancel. Confirming, completing and marking a no-show is the doctor's
+  -- call (a completed appointment is what lets the patient review them). Server-side
+  -- updates without a signed-in user are left alone.
+  IF NEW.status IN ('confirmed', 'completed', 'no_show')
+    AND auth.uid() IS NOT NULL
+    AND NEW.doctor_id IS DISTINCT FROM public.current_doctor_id()
+  THEN
+    RAISE EXCEPTION 'Only the doctor can mark this appointment as %', NEW.status;
+  END IF;
+
+  NEW.status_changed_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS appointments_status_transition ON public.appointments;
+
+CREATE TRIGGER appointments_status_transition
+  BEFORE UPDATE OF status ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_appointment_status_transition();
@@ -0,0 +1,40 @@
+
+-- In-call chat runs peer to peer over a WebRTC data channel. Each side also logs the messages
+-- it sends here so the transcript stays with the consultation record.
+ALTER TABLE public.consultation_sessions
+  ADD COLUMN IF NOT EXISTS chat_transcript JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Appends one of the caller's messages to the transcript. The sender and time are set here,
+-- and a message id that's already logged is ignored so retries are safe.
+CREATE OR REPLACE FUNCTION public.log_consultation_message(p_session_id UUID, p_message_id UUID, p_text TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF char_length(btrim(p_text)) = 0 OR char_length(p_text) > 2000 THEN
+    RAISE EXCEPTION 'Messages must be between 1 and 2000 characters';
+  END IF;
+
+  UPDATE public.consultation_sessions s
+  SET chat_transcript = s.chat_transcript || jsonb_build_array(jsonb_build_object(
+        'id', p_message_id,
+        'sender', CASE WHEN a.user_id = auth.uid() THEN 'patient' ELSE 'doctor' END,
+        'text', p_text,
+        'sent_at', now()
+      )),
+      updated_at = now()
+  FROM public.appointments a
+  WHERE s.id = p_session_id
+    AND a.id = s.appointment_id
+    AND public.is_appointment_participant(a.id)
+    AND s.status = 'in_progress'
+    AND NOT s.chat_transcript @> jsonb_build_array(jsonb_build_object('id', p_message_id));
+
+  IF NOT FOUND AND NOT EXISTS (
+    SELECT 1 FROM public.consultation_sessions
+    WHERE id = p_session_id
+      AND chat_transcript @> jsonb_build_array(jsonb_build_object('id', p_message_id))
+  ) THEN
+    RAISE EXCEPTION 'Messages can only be sent during an open consultation';
+  END IF;
+END;
+$$;
@@ -0,0 +1,10 @@
+
+-- Details shown on a doctor's public profile page
+ALTER TABLE public.doctors
+  ADD COLUMN IF NOT EXISTS bio TEXT CHECK (char_length(bio) <= 2000),
+  -- Degrees and certifications, e.g. "MBBS, AIIMS Delhi", one per entry
+  ADD COLUMN IF NOT EXISTS qualifications TEXT[] NOT NULL DEFAULT '{}',
+  -- Street address of the clinic; hospital and city stay in their own columns
+  ADD COLUMN IF NOT EXISTS clinic_address TEXT;
+
+GRANT UPDATE (bio, qualifications, clinic_address) ON public.doctors TO authenticated;
@@ -0,0 +1,39 @@
+
+-- Let doctors manage their own schedule, and split each working day into sessions
+-- that offer specific consultation types.
+--   weekly_hours: {"1": [{"start": "09:00", "end": "13:00", "consultation_types": ["in-person"]},
+--                        {"start": "17:00", "end": "20:00", "consultation_types": ["video"]}]}
+
+-- Existing single windows become one session offering both types
+UPDATE public.doctor_schedules
+SET weekly_hours = (
+  SELECT COALESCE(jsonb_object_agg(
+    day,
+    CASE
+      WHEN jsonb_typeof(hours) = 'array' THEN hours
+      ELSE jsonb_build_array(hours || '{"consultation_types": ["in-person", "video"]}')
+    END
+  ), '{}')
+  FROM jsonb_each(weekly_hours) AS days(day, hours)
+);
+
+ALTER TABLE public.doctor_schedules
+  ALTER COLUMN weekly_hours SET DEFAULT '{
+    "1": [{"start": "09:00", "end": "18:00", "consultation_types": ["in-person", "video"]}],
+    "2": [{"start": "09:00", "end": "18:00", "consultation_types": ["in-person", "video"]}],
+    "3": [{"start": "09:00", "end": "18:00", "consultation_types": ["in-person", "video"]}],
+    "4": [{"start": "09:00", "end": "18:00", "consultation_types": ["in-person", "video"]}],
+    "5": [{"start": "09:00", "end": "18:00", "consultation_types": ["in-person", "video"]}],
+    "6": [{"start": "09:00", "end": "13:00", "consultation_types": ["in-person", "video"]}]
+  }';
+
+-- Verified doctors can publish and change the schedule for their own listing
+CREATE POLICY "Doctors can insert their own schedule" ON public.doctor_schedules
+  FOR INSERT WITH CHECK (
+    doctor_name = (SELECT name FROM public.doctors WHERE id = public.current_doctor_id())
+  );
+
+CREATE POLICY "Doctors can update their own schedule" ON public.doctor_schedules
+  FOR UPDATE USING (
+    doctor_name = (SELECT name FROM public.doctors WHERE id = public.current_doctor_id())
+  );
@@ -0,0 +1,140 @@
+
+-- Details patients filter the directory by, and server-side search with filters,
+-- sorting and pagination in one call.
+ALTER TABLE public.doctors
+  ADD COLUMN IF NOT EXISTS languages TEXT[] NOT NULL DEFAULT '{English}',
+  -- Self-reported by the doctor; left unset until they fill it in
+  ADD COLUMN IF NOT EXISTS gender TEXT CHECK (gender IN ('female', 'male', 'other')),
+  ADD COLUMN IF NOT EXISTS offers_in_person BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS doctors_languages_idx ON public.doctors USING GIN (languages);
+
+-- Doctors edit their own practice details, but the name appointments are booked under,
+-- the account link, ratings and location stay out of their reach
+REVOKE UPDATE ON public.doctors FROM authenticated;
+GRANT UPDATE (
+  specialty, experience_years, hospital, city, fee_amount,
+  languages, gender, offers_in_person, offers_video, updated_at
+) ON public.doctors TO authenticated;
+
+-- Whether a doctor sees patients on the given date: a working weekday in their schedule
+-- (or the default Monday to Saturday week if they have none) that isn't a leave day
+CREATE OR REPLACE FUNCTION public.is_doctor_working_on(p_doctor_name TEXT, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(
+    (
+      SELECT jsonb_array_length(COALESCE(s.weekly_hours -> EXTRACT(DOW FROM p_date)::TEXT, '[]')) > 0
+        AND NOT (p_date = ANY (s.leave_days))
+      FROM public.doctor_schedules s
+      WHERE s.doctor_name = p_doctor_name
+    ),
+    EXTRACT(DOW FROM p_date) BETWEEN 1 AND 6
+  );
+$$;
+
+-- Every filter except specialty, shared by the search and the specialty facet.
+-- NULL or empty arguments don't filter.
+CREATE OR REPLACE FUNCTION public.filter_doctors(
+  p_query TEXT DEFAULT NULL,
+  p_min_fee INTEGER DEFAULT NULL,
+  p_max_fee INTEGER DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_min_experience INTEGER DEFAULT NULL,
+  p_languages TEXT[] DEFAULT NULL,
+  p_gender TEXT DEFAULT NULL,
+  p_mode TEXT DEFAULT NULL,
+  p_available_on DATE DEFAULT NULL
+)
+RETURNS SETOF public.doctors
+LANGUAGE sql STABLE AS $$
+  SELECT * FROM public.doctors d
+  WHERE (p_query IS NULL OR p_query = ''
+      OR d.name ILIKE '%' || p_query || '%'
+      OR d.specialty ILIKE '%' || p_query || '%'
+      OR d.city ILIKE '%' || p_query || '%'
+      OR d.hospital ILIKE '%' || p_query || '%')
+    AND (p_min_fee IS NULL OR d.fee_amount >= p_min_fee)
+    AND (p_max_fee IS NULL OR d.fee_amount <= p_max_fee)
+    AND (p_min_rating IS NULL OR d.rating >= p_min_rating)
+    AND (p_min_experience IS NULL OR d.experience_years >= p_min_experience)
+    -- Speaks any of the chosen languages
+    AND (p_languages IS NULL OR cardinality(p_languages) = 0 OR d.languages && p_languages)
+    AND (p_gender IS NULL OR d.gender = p_gender)
+    AND (p_mode IS NULL
+      OR (p_mode = 'in-person' AND d.offers_in_person)
+      OR (p_mode = 'video' AND d.offers_video))
+    AND (p_available_on IS NULL OR public.is_doctor_working_on(d.name, p_available_on));
+$$;
+
+-- One page of matching doctors. total_count is the number of matches across all pages.
+-- Sorting by distance needs p_lat and p_lng; doctors without coordinates come last.
+CREATE OR REPLACE FUNCTION public.search_doctors(
+  p_query TEXT DEFAULT NULL,
+  p_specialty TEXT DEFAULT NULL,
+  p_min_fee INTEGER DEFAULT NULL,
+  p_max_fee INTEGER DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_min_experience INTEGER DEFAULT NULL,
+  p_languages TEXT[] DEFAULT NULL,
+  p_gender TEXT DEFAULT NULL,
+  p_mode TEXT DEFAULT NULL,
+  p_available_on DATE DEFAULT NULL,
+  p_sort TEXT DEFAULT 'rating',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (doctor public.doctors, distance_km DOUBLE PRECISION, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH matches AS (
+    SELECT
+      d AS doctor,
+      CASE WHEN p_lat IS NOT NULL AND p_lng IS NOT NULL AND d.latitude IS NOT NULL AND d.longitude IS NOT NULL
+        THEN 6371 * 2 * asin(sqrt(
+          power(sin(radians(d.latitude - p_lat) / 2), 2) +
+          cos(radians(p_lat)) * cos(radians(d.latitude)) * power(sin(radians(d.longitude - p_lng) / 2), 2)
+        ))
+      END AS distance_km
+    FROM public.filter_doctors(
+      p_query, p_min_fee, p_max_fee, p_min_rating, p_min_experience, p_languages, p_gender, p_mode, p_available_on
+    ) d
+    WHERE p_specialty IS NULL OR d.specialty = p_specialty
+  )
+  SELECT doctor, distance_km, count(*) OVER () AS total_count
+  FROM matches
+  ORDER BY
+    CASE WHEN p_sort = 'fee_asc' THEN (doctor).fee_amount END ASC,
+    CASE WHEN p_sort = 'fee_desc' THEN (doctor).fee_amount END DESC,
+    CASE WHEN p_sort = 'experience' THEN (doctor).experience_years END DESC,
+    CASE WHEN p_sort = 'distance' THEN distance_km END ASC NULLS LAST,
+    (doctor).rating DESC,
+    (doctor).review_count DESC,
+    (doctor).name
+  LIMIT p_limit OFFSET p_offset;
+$$;
+
+-- The specialty facet now counts doctors matching all the other filters
+DROP FUNCTION IF EXISTS public.get_doctor_specialties(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_doctor_specialties(
+  p_query TEXT DEFAULT NULL,
+  p_min_fee INTEGER DEFAULT NULL,
+  p_max_fee INTEGER DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_min_experience INTEGER DEFAULT NULL,
+  p_languages TEXT[] DEFAULT NULL,
+  p_gender TEXT DEFAULT NULL,
+  p_mode TEXT DEFAULT NULL,
+  p_available_on DATE DEFAULT NULL
+)
+RETURNS TABLE (specialty TEXT, doctor_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  SELECT specialty, count(*) AS doctor_count
+  FROM public.filter_doctors(
+    p_query, p_min_fee, p_max_fee, p_min_rating, p_min_experience, p_languages, p_gender, p_mode, p_available_on
+  )
+  GROUP BY specialty
+  ORDER BY specialty;
+$$;
@@ -0,0 +1,97 @@
+
+-- Photos and PDFs attached to doctor chat messages. Files live in the private
+-- chat-attachments bucket under "<conversation id>/", so only the conversation's patient
+-- and doctor can upload or fetch them. The size limit matches file_size_limit in
+-- supabase/config.toml and the types match src/utils/attachments.ts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  52428800,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- CASE keeps malformed folder names from reaching the UUID cast
+CREATE POLICY "Conversation participants can view attachments" ON storage.objects
+  FOR SELECT TO authenticated USING (
+    bucket_id = 'chat-attachments'
+    AND CASE WHEN (storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$'
+      THEN public.is_conversation_participant(((storage.foldername(name))[1])::UUID)
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Conversation participants can upload attachments" ON storage.objects
+  FOR INSERT TO authenticated WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND CASE WHEN (storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$'
+      THEN public.is_conversation_participant(((storage.foldername(name))[1])::UUID)
+      ELSE false
+    END
+  );
+
+-- Uploaders can clean up a file if sending the message fails
+CREATE POLICY "Users can delete their own attachments" ON storage.objects
+  FOR DELETE TO authenticated USING (
+    bucket_id = 'chat-attachments'
+    AND owner = auth.uid()
+  );
+
+ALTER TABLE public.conversation_messages
+  ADD COLUMN IF NOT EXISTS attachment_path TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_name TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_type TEXT,
+  ADD COLUMN IF NOT EXISTS attachment_size BIGINT,
+  -- Small JPEG preview, made in the browser for images
+  ADD COLUMN IF NOT EXISTS attachment_thumbnail_path TEXT;
+
+-- A message may now be just an attachment
+ALTER TABLE public.conversation_messages
+  DROP CONSTRAINT IF EXISTS conversation_messages_body_check;
+
+ALTER TABLE public.conversation_messages
+  ADD CONSTRAINT conversation_messages_body_check CHECK (
+    char_length(body) <= 4000
+    AND (char_length(btrim(body)) > 0 OR attachment_path IS NOT NULL)
+  ),
+  -- Attachments must come from the message's own conversation folder
+  ADD CONSTRAINT conversation_messages_attachment_check CHECK (
+    attachment_path IS NULL OR (
+      attachment_path LIKE conversation_id::TEXT || '/%'
+      AND (attachment_thumbnail_path IS NULL OR attachment_thumbnail_path LIKE conversation_id::TEXT || '/%')
+      AND attachment_name IS NOT NULL
+      AND attachment_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')
+      AND attachment_size BETWEEN 1 AND 52428800
+    )
+  );
+
+ALTER TABLE public.conversation_messages ALTER COLUMN body SET DEFAULT '';
+
+GRANT INSERT (attachment_path, attachment_name, attachment_type, attachment_size, attachment_thumbnail_path)
+  ON public.conversation_messages TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_conversation_message_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  SELECT CASE WHEN c.patient_id = NEW.sender_id THEN 'patient' ELSE 'doctor' END
+  INTO NEW.sender_role
+  FROM public.conversations c
+  WHERE c.id = NEW.conversation_id;
+
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at,
+      last_message_preview = CASE
+        WHEN btrim(NEW.body) = '' THEN 'Attachment: ' || NEW.attachment_name
+        ELSE left(NEW.body, 140)
+      END
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,34 @@
+
+-- Video call signaling runs over private Realtime channels named "video-call:<appointment id>".
+-- Only the patient who booked the appointment and the doctor it's with can join one.
+CREATE OR REPLACE FUNCTION public.is_appointment_participant(p_appointment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.appointments a
+    WHERE a.id = p_appointment_id
+      AND (
+        a.user_id = auth.uid()
+        OR a.doctor_id = public.current_doctor_id()
+      )
+  );
+$$;
+
+-- CASE keeps malformed topics from reaching the UUID cast
+CREATE POLICY "Appointment participants can receive call signals" ON realtime.messages
+  FOR SELECT TO authenticated USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND CASE WHEN realtime.topic() ~ '^video-call:[0-9a-f-]{36}$'
+      THEN public.is_appointment_participant(substring(realtime.topic() FROM 12)::UUID)
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Appointment participants can send call signals" ON realtime.messages
+  FOR INSERT TO authenticated WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND CASE WHEN realtime.topic() ~ '^video-call:[0-9a-f-]{36}$'
+      THEN public.is_appointment_participant(substring(realtime.topic() FROM 12)::UUID)
+      ELSE false
+    END
+  );
@@ -0,0 +1,28 @@
+
+-- Allergies and sensitivities recorded on the Profile page.
+-- New medications are checked against these for drug-allergy warnings.
+CREATE TABLE IF NOT EXISTS public.allergies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('high', 'medium', 'low')),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS allergies_user_idx
+  ON public.allergies (user_id);
+
+-- Users can only see and change their own allergies
+ALTER TABLE public.allergies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own allergies" ON public.allergies
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own allergies" ON public.allergies
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own allergies" ON public.allergies
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own allergies" ON public.allergies
+  FOR DELETE USING (auth.uid() = user_id);
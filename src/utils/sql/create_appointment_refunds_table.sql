@@ -0,0 +1,107 @@
+
+-- Refund intents recorded when an appointment is cancelled.
+-- Rows start as 'requested' and are settled against payment_id by the payment backend.
+CREATE TABLE IF NOT EXISTS public.appointment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payment_id TEXT NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  percent INTEGER NOT NULL CHECK (percent > 0 AND percent <= 100),
+  policy_tier TEXT NOT NULL CHECK (policy_tier IN ('full', 'partial')),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'processed', 'failed')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT appointment_refunds_one_per_appointment UNIQUE (appointment_id)
+);
+
+-- Users can see refunds for their own appointments. They're only requested through
+-- cancel_appointment below, and settled server-side.
+ALTER TABLE public.appointment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own appointment refunds" ON public.appointment_refunds
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own appointment refunds" ON public.appointment_refunds;
+
+REVOKE INSERT ON public.appointment_refunds FROM authenticated;
+
+-- Payments confirmed with Razorpay by the record-payment edge function, which is the only
+-- writer. Refunds are worked out from these rather than from the appointment row, which the
+-- patient writes. appointment_id stays null when the payment went through but the booking
+-- didn't, so support can refund it.
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  razorpay_payment_id TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  appointment_id UUID UNIQUE REFERENCES public.appointments(id) ON DELETE SET NULL,
+  -- Whole rupees, as reported by Razorpay
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments" ON public.payments
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Patients only move their own appointments to a new time directly. Cancelling, status and
+-- payment changes all go through functions, so the fee and payment columns can't be edited
+-- to inflate a refund.
+REVOKE UPDATE ON public.appointments FROM authenticated;
+GRANT UPDATE (appointment_date) ON public.appointments TO authenticated;
+
+-- Cancels the signed-in patient's appointment and requests any refund due, together. The
+-- refund is worked out here from the recorded payment and the start time, following
+-- DEFAULT_REFUND_POLICY in src/utils/refundPolicy.ts: the whole fee at least 24 hours
+-- ahead, half of it (rounded down) after that, and nothing once the appointment has started.
+-- Returns the refund in whole rupees.
+CREATE OR REPLACE FUNCTION public.cancel_appointment(p_appointment_id UUID, p_from_status TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_appointment public.appointments;
+  v_payment public.payments;
+  v_percent INTEGER := 0;
+  v_amount INTEGER := 0;
+BEGIN
+  SELECT * INTO v_appointment
+  FROM public.appointments
+  WHERE id = p_appointment_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only cancel your own appointments';
+  END IF;
+
+  IF v_appointment.status <> p_from_status THEN
+    RAISE EXCEPTION 'This appointment was updated elsewhere. Please refresh and try again.';
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE appointment_id = p_appointment_id;
+
+  IF FOUND AND v_appointment.appointment_date > now() THEN
+    v_percent := CASE WHEN v_appointment.appointment_date - now() >= INTERVAL '24 hours' THEN 100 ELSE 50 END;
+    v_amount := v_payment.amount * v_percent / 100;
+  END IF;
+
+  -- appointments_status_transition checks the move and stamps status_changed_at
+  UPDATE public.appointments
+  SET status = 'cancelled',
+      payment_status = CASE WHEN v_amount > 0 THEN 'refund_requested' ELSE payment_status END
+  WHERE id = p_appointment_id;
+
+  IF v_amount > 0 THEN
+    INSERT INTO public.appointment_refunds (appointment_id, user_id, payment_id, amount, percent, policy_tier)
+    VALUES (
+      p_appointment_id,
+      v_appointment.user_id,
+      v_payment.razorpay_payment_id,
+      v_amount,
+      v_percent,
+      CASE WHEN v_percent = 100 THEN 'full' ELSE 'partial' END
+    );
+  END IF;
+
+  RETURN v_amount;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Whether the user lets MedAssist read their health record. The gemini-health-chat edge
+-- function checks this before summarising conditions, allergies, medications and vitals
+-- into the chatbot's context. Off until the user turns it on.
+CREATE TABLE IF NOT EXISTS public.assistant_consents (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  share_health_record BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Users can only see and change their own consent
+ALTER TABLE public.assistant_consents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assistant consent" ON public.assistant_consents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own assistant consent" ON public.assistant_consents
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assistant consent" ON public.assistant_consents
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,210 @@
+
+-- One consultation session per video appointment. The patient waits in the waiting room
+-- until the doctor admits them; the call runs from admission until the doctor ends it.
+-- Joining is only allowed from 10 minutes before the appointment until 60 minutes after it
+-- starts (mirrors src/utils/consultationWindow.ts).
+CREATE TABLE IF NOT EXISTS public.consultation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL UNIQUE REFERENCES public.appointments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'in_progress', 'ended')),
+  -- First time each side joined, and when they last left (cleared when they rejoin)
+  patient_joined_at TIMESTAMPTZ,
+  patient_left_at TIMESTAMPTZ,
+  doctor_joined_at TIMESTAMPTZ,
+  doctor_left_at TIMESTAMPTZ,
+  admitted_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  -- Time from admission to the end of the consultation
+  duration_seconds INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.consultation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Appointment participants can view their consultation" ON public.consultation_sessions
+  FOR SELECT USING (public.is_appointment_participant(appointment_id));
+
+-- Sessions only change through the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.consultation_sessions FROM authenticated;
+
+-- The patient is told they've been admitted by watching their session row
+ALTER PUBLICATION supabase_realtime ADD TABLE public.consultation_sessions;
+
+-- Opens (or rejoins) the consultation for an appointment and records the join time.
+CREATE OR REPLACE FUNCTION public.join_consultation(p_appointment_id UUID)
+RETURNS public.consultation_sessions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_appointment public.appointments;
+  v_is_doctor BOOLEAN;
+  v_session public.consultation_sessions;
+BEGIN
+  SELECT * INTO v_appointment FROM public.appointments WHERE id = p_appointment_id;
+
+  IF NOT FOUND OR NOT public.is_appointment_participant(p_appointment_id) THEN
+    RAISE EXCEPTION 'You are not part of this appointment';
+  END IF;
+  IF v_appointment.consultation_type <> 'video' THEN
+    RAISE EXCEPTION 'This appointment is not a video consultation';
+  END IF;
+  IF v_appointment.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'This appointment is %', replace(v_appointment.status, '_', '-');
+  END IF;
+  IF now() < v_appointment.appointment_date - INTERVAL '10 minutes' THEN
+    RAISE EXCEPTION 'You can join from 10 minutes before the appointment';
+  END IF;
+  IF now() > v_appointment.appointment_date + INTERVAL '60 minutes' THEN
+    RAISE EXCEPTION 'The time for this consultation has passed';
+  END IF;
+
+  v_is_doctor := v_appointment.user_id IS DISTINCT FROM auth.uid();
+
+  INSERT INTO public.consultation_sessions (appointment_id)
+  VALUES (p_appointment_id)
+  ON CONFLICT (appointment_id) DO NOTHING;
+
+  SELECT * INTO v_session FROM public.consultation_sessions
+  WHERE appointment_id = p_appointment_id
+  FOR UPDATE;
+
+  IF v_session.status = 'ended' THEN
+    RAISE EXCEPTION 'This consultation has ended';
+  END IF;
+
+  IF v_is_doctor THEN
+    UPDATE public.consultation_sessions
+    SET doctor_joined_at = COALESCE(doctor_joined_at, now()),
+        doctor_left_at = NULL,
+        updated_at = now()
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  ELSE
+    UPDATE public.consultation_sessions
+    SET patient_joined_at = COALESCE(patient_joined_at, now()),
+        patient_left_at = NULL,
+        updated_at = now()
+    WHERE id = v_session.id
+    RETURNING * INTO v_session;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Lets the waiting patient into the call. Doctor only.
+CREATE OR REPLACE FUNCTION public.admit_consultation_patient(p_session_id UUID)
+RETURNS public.consultation_sessions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_session public.consultation_sessions;
+BEGIN
+  UPDATE public.consultation_sessions s
+  SET status = 'in_progress',
+      admitted_at = COALESCE(s.admitted_at, now()),
+      updated_at = now()
+  FROM public.appointments a
+  WHERE s.id = p_session_id
+    AND a.id = s.appointment_id
+    AND a.user_id IS DISTINCT FROM auth.uid()
+    AND public.is_appointment_participant(a.id)
+    AND s.status = 'waiting'
+    AND s.patient_joined_at IS NOT NULL
+    AND s.patient_left_at IS NULL
+  RETURNING s.* INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is no patient waiting to be admitted';
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Records that the caller left. The session stays open so they can rejoin.
+CREATE OR REPLACE FUNCTION public.leave_consultation(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.consultation_sessions s
+  SET patient_left_at = CASE WHEN a.user_id = auth.uid() THEN now() ELSE s.patient_left_at END,
+      doctor_left_at = CASE WHEN a.user_id = auth.uid() THEN s.doctor_left_at ELSE now() END,
+      updated_at = now()
+  FROM public.appointments a
+  WHERE s.id = p_session_id
+    AND a.id = s.appointment_id
+    AND public.is_appointment_participant(a.id)
+    AND s.status <> 'ended';
+END;
+$$;
+
+-- Closes the consultation for both sides and records its duration. Doctor only.
+CREATE OR REPLACE FUNCTION public.end_consultation(p_session_id UUID)
+RETURNS public.consultation_sessions
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_session public.consultation_sessions;
+BEGIN
+  UPDATE public.consultation_sessions s
+  SET status = 'ended',
+      ended_at = now(),
+      doctor_left_at = COALESCE(s.doctor_left_at, now()),
+      patient_left_at = CASE WHEN s.patient_joined_at IS NULL THEN NULL ELSE COALESCE(s.patient_left_at, now()) END,
+      duration_seconds = CASE
+        WHEN s.admitted_at IS NULL THEN 0
+        ELSE floor(extract(EPOCH FROM now() - s.admitted_at))::INTEGER
+      END,
+      updated_at = now()
+  FROM public.appointments a
+  WHERE s.id = p_session_id
+    AND a.id = s.appointment_id
+    AND a.user_id IS DISTINCT FROM auth.uid()
+    AND public.is_appointment_participant(a.id)
+    AND s.status <> 'ended'
+  RETURNING s.* INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the doctor can end an open consultation';
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Video call channels now follow the session: the doctor can open the channel once they've
+-- joined, the patient only after being admitted.
+CREATE OR REPLACE FUNCTION public.can_join_video_call(p_appointment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.consultation_sessions s
+    JOIN public.appointments a ON a.id = s.appointment_id
+    WHERE s.appointment_id = p_appointment_id
+      AND public.is_appointment_participant(a.id)
+      AND (
+        (a.user_id = auth.uid() AND s.status = 'in_progress')
+        OR (a.user_id IS DISTINCT FROM auth.uid() AND s.status <> 'ended')
+      )
+  );
+$$;
+
+DROP POLICY IF EXISTS "Appointment participants can receive call signals" ON realtime.messages;
+DROP POLICY IF EXISTS "Appointment participants can send call signals" ON realtime.messages;
+
+CREATE POLICY "Appointment participants can receive call signals" ON realtime.messages
+  FOR SELECT TO authenticated USING (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND CASE WHEN realtime.topic() ~ '^video-call:[0-9a-f-]{36}$'
+      THEN public.can_join_video_call(substring(realtime.topic() FROM 12)::UUID)
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Appointment participants can send call signals" ON realtime.messages
+  FOR INSERT TO authenticated WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence')
+    AND CASE WHEN realtime.topic() ~ '^video-call:[0-9a-f-]{36}$'
+      THEN public.can_join_video_call(substring(realtime.topic() FROM 12)::UUID)
+      ELSE false
+    END
+  );
@@ -0,0 +1,182 @@
+
+-- Message threads between a patient and a doctor, one per pair. Patients start threads from
+-- the directory or their appointments; doctors answer them from their inbox.
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  -- Name the patient signed up with, shown in the doctor's inbox
+  patient_name TEXT,
+  last_message_at TIMESTAMPTZ,
+  last_message_preview TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT conversations_one_per_pair UNIQUE (patient_id, doctor_id)
+);
+
+CREATE INDEX IF NOT EXISTS conversations_doctor_idx ON public.conversations (doctor_id, last_message_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Set from the conversation by the on_conversation_message_insert trigger
+  sender_role TEXT NOT NULL DEFAULT 'patient' CHECK (sender_role IN ('patient', 'doctor')),
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 4000),
+  -- When the other participant first saw the message
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS conversation_messages_conversation_idx
+  ON public.conversation_messages (conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS conversation_messages_unread_idx
+  ON public.conversation_messages (conversation_id) WHERE read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations c
+    JOIN public.doctors d ON d.id = c.doctor_id
+    WHERE c.id = p_conversation_id
+      AND (c.patient_id = auth.uid() OR d.user_id = auth.uid())
+  );
+$$;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their conversations" ON public.conversations
+  FOR SELECT USING (public.is_conversation_participant(id));
+
+CREATE POLICY "Participants can view their messages" ON public.conversation_messages
+  FOR SELECT USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages" ON public.conversation_messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND public.is_conversation_participant(conversation_id)
+  );
+
+-- Threads are opened with start_conversation and read receipts set with mark_conversation_read
+REVOKE INSERT, UPDATE, DELETE ON public.conversations FROM authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.conversation_messages FROM authenticated;
+GRANT INSERT (conversation_id, sender_id, body) ON public.conversation_messages TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_conversation_message_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  SELECT CASE WHEN c.patient_id = NEW.sender_id THEN 'patient' ELSE 'doctor' END
+  INTO NEW.sender_role
+  FROM public.conversations c
+  WHERE c.id = NEW.conversation_id;
+
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at,
+      last_message_preview = left(NEW.body, 140)
+  WHERE id = NEW.conversation_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_conversation_message_insert ON public.conversation_messages;
+
+CREATE TRIGGER on_conversation_message_insert
+  BEFORE INSERT ON public.conversation_messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_conversation_message_insert();
+
+-- Opens the signed-in patient's thread with a doctor, creating it the first time.
+DROP FUNCTION IF EXISTS public.start_conversation(TEXT);
+
+CREATE OR REPLACE FUNCTION public.start_conversation(p_doctor_id UUID)
+RETURNS public.conversations
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_doctor public.doctors;
+  v_conversation public.conversations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to message a doctor';
+  END IF;
+
+  SELECT * INTO v_doctor FROM public.doctors WHERE id = p_doctor_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This doctor is no longer listed, so they can''t be messaged';
+  END IF;
+  IF v_doctor.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t message yourself';
+  END IF;
+
+  INSERT INTO public.conversations (patient_id, doctor_id, patient_name)
+  SELECT auth.uid(), v_doctor.id, u.raw_user_meta_data ->> 'full_name'
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+  ON CONFLICT (patient_id, doctor_id) DO NOTHING;
+
+  SELECT * INTO v_conversation FROM public.conversations
+  WHERE patient_id = auth.uid() AND doctor_id = v_doctor.id;
+
+  RETURN v_conversation;
+END;
+$$;
+
+-- Marks the other participant's messages in a thread as read by the caller.
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(p_conversation_id) THEN
+    RAISE EXCEPTION 'You are not part of this conversation';
+  END IF;
+
+  UPDATE public.conversation_messages
+  SET read_at = now()
+  WHERE conversation_id = p_conversation_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+END;
+$$;
+
+-- The caller's threads, most recent first, with the doctor's details and unread counts.
+CREATE OR REPLACE FUNCTION public.get_conversations()
+RETURNS TABLE (
+  conversation public.conversations,
+  doctor_name TEXT,
+  doctor_image_url TEXT,
+  unread_count INTEGER
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT
+    c,
+    d.name,
+    d.image_url,
+    (
+      SELECT count(*)::INTEGER FROM public.conversation_messages m
+      WHERE m.conversation_id = c.id
+        AND m.sender_id <> auth.uid()
+        AND m.read_at IS NULL
+    )
+  FROM public.conversations c
+  JOIN public.doctors d ON d.id = c.doctor_id
+  WHERE c.patient_id = auth.uid() OR d.user_id = auth.uid()
+  ORDER BY COALESCE(c.last_message_at, c.created_at) DESC;
+$$;
+
+-- Unread messages across all of the caller's threads, for the sidebar badge.
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT count(*)::INTEGER
+  FROM public.conversation_messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  JOIN public.doctors d ON d.id = c.doctor_id
+  WHERE (c.patient_id = auth.uid() OR d.user_id = auth.uid())
+    AND m.sender_id <> auth.uid()
+    AND m.read_at IS NULL;
+$$;
+
+-- New messages and read receipts are delivered live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_messages;
@@ -0,0 +1,136 @@
+-- Patient reviews of doctors, one per completed appointment.
+-- Reviews go live straight away. Anyone signed in can flag one for moderation, but it
+-- stays up until a moderator hides it, so doctors can't bury bad reviews by flagging them.
+CREATE TABLE IF NOT EXISTS public.doctor_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  doctor_id UUID NOT NULL REFERENCES public.doctors(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Shortened display name, e.g. "Priya S."
+  reviewer_name TEXT,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 2000),
+  doctor_response TEXT CHECK (char_length(doctor_response) <= 2000),
+  responded_at TIMESTAMPTZ,
+  moderation_status TEXT NOT NULL DEFAULT 'published' CHECK (moderation_status IN ('published', 'flagged', 'hidden')),
+  flag_reason TEXT,
+  flagged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  flagged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT doctor_reviews_one_per_appointment UNIQUE (appointment_id)
+);
+
+CREATE INDEX IF NOT EXISTS doctor_reviews_doctor_idx ON public.doctor_reviews (doctor_id, created_at DESC);
+
+ALTER TABLE public.doctor_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view visible reviews" ON public.doctor_reviews
+  FOR SELECT USING (moderation_status <> 'hidden');
+
+CREATE POLICY "Users can view their own reviews" ON public.doctor_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Only for the patient's own completed appointment, and against the doctor they saw
+CREATE POLICY "Users can review their own completed appointments" ON public.doctor_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.id = appointment_id
+        AND a.user_id = auth.uid()
+        AND a.status = 'completed'
+        AND a.doctor_id = doctor_reviews.doctor_id
+    )
+  );
+
+CREATE POLICY "Users can update their own reviews" ON public.doctor_reviews
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Patients write the review itself; responses and moderation go through the functions below
+REVOKE INSERT, UPDATE ON public.doctor_reviews FROM authenticated;
+GRANT INSERT (appointment_id, doctor_id, user_id, reviewer_name, rating, comment)
+  ON public.doctor_reviews TO authenticated;
+GRANT UPDATE (rating, comment, updated_at) ON public.doctor_reviews TO authenticated;
+
+-- The doctor's reply, shown under the review. An empty response removes it.
+CREATE OR REPLACE FUNCTION public.respond_to_doctor_review(p_review_id UUID, p_response TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.doctor_reviews r
+  SET doctor_response = NULLIF(btrim(p_response), ''),
+      responded_at = CASE WHEN NULLIF(btrim(p_response), '') IS NULL THEN NULL ELSE now() END
+  FROM public.doctors d
+  WHERE r.id = p_review_id
+    AND d.id = r.doctor_id
+    AND d.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only respond to reviews of your own practice';
+  END IF;
+END;
+$$;
+
+-- Reports a review to moderators. Reviews already flagged or hidden are left as they are.
+CREATE OR REPLACE FUNCTION public.flag_doctor_review(p_review_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to report a review';
+  END IF;
+
+  UPDATE public.doctor_reviews
+  SET moderation_status = 'flagged',
+      flag_reason = NULLIF(btrim(p_reason), ''),
+      flagged_by = auth.uid(),
+      flagged_at = now()
+  WHERE id = p_review_id
+    AND moderation_status = 'published';
+END;
+$$;
+
+-- Keeps doctors.rating and doctors.review_count in step with the reviews that are up
+CREATE OR REPLACE FUNCTION public.refresh_doctor_rating(p_doctor_id UUID)
+RETURNS VOID
+LANGUAGE sql SECURITY DEFINER SET search_path = public AS $$
+  UPDATE public.doctors d
+  SET rating = COALESCE(stats.average, 0),
+      review_count = stats.total
+  FROM (
+    SELECT round(avg(rating), 1) AS average, count(*) AS total
+    FROM public.doctor_reviews
+    WHERE doctor_id = p_doctor_id
+      AND moderation_status <> 'hidden'
+  ) stats
+  WHERE d.id = p_doctor_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_doctor_review_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_doctor_rating(OLD.doctor_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.doctor_id <> OLD.doctor_id) THEN
+    PERFORM public.refresh_doctor_rating(NEW.doctor_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_doctor_review_change ON public.doctor_reviews;
+
+CREATE TRIGGER on_doctor_review_change
+  AFTER INSERT OR UPDATE OF rating, moderation_status, doctor_id OR DELETE ON public.doctor_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_doctor_review_change();
+
+-- Not for clients to call directly
+REVOKE EXECUTE ON FUNCTION public.refresh_doctor_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The seeded ratings were placeholders; from now on they come from real reviews
+UPDATE public.doctors d
+SET rating = 0, review_count = 0
+WHERE NOT EXISTS (SELECT 1 FROM public.doctor_reviews r WHERE r.doctor_id = d.id);
@@ -0,0 +1,28 @@
+
+-- Weekly availability for each doctor, used to build bookable appointment slots.
+-- Keyed by doctor_name to match appointments.doctor_name.
+--   weekly_hours: working hours per weekday, keyed "0" (Sunday) to "6" (Saturday),
+--                 e.g. {"1": {"start": "09:00", "end": "18:00"}}; missing days are closed
+--   breaks:       [{"weekday": 1 | null, "start": "13:00", "end": "14:00"}]; null means every day
+--   leave_days:   dates with no appointments at all
+CREATE TABLE IF NOT EXISTS public.doctor_schedules (
+  doctor_name TEXT PRIMARY KEY,
+  slot_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_minutes BETWEEN 5 AND 240),
+  weekly_hours JSONB NOT NULL DEFAULT '{
+    "1": {"start": "09:00", "end": "18:00"},
+    "2": {"start": "09:00", "end": "18:00"},
+    "3": {"start": "09:00", "end": "18:00"},
+    "4": {"start": "09:00", "end": "18:00"},
+    "5": {"start": "09:00", "end": "18:00"},
+    "6": {"start": "09:00", "end": "13:00"}
+  }',
+  breaks JSONB NOT NULL DEFAULT '[{"weekday": null, "start": "13:00", "end": "14:00"}]',
+  leave_days DATE[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Anyone browsing doctors can see their availability
+ALTER TABLE public.doctor_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view doctor schedules" ON public.doctor_schedules
+  FOR SELECT USING (true);
@@ -0,0 +1,213 @@
+
+-- Public directory of doctors patients can search and book.
+-- Patients book by name (appointments.doctor_name), and each appointment is pinned to the
+-- listing by doctor_id. user_id links the listing to the doctor's account once an admin has
+-- verified them with verify_doctor; doctors' access to their appointments goes through it.
+CREATE TABLE IF NOT EXISTS public.doctors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL UNIQUE,
+  specialty TEXT NOT NULL,
+  experience_years INTEGER NOT NULL DEFAULT 0 CHECK (experience_years >= 0),
+  hospital TEXT NOT NULL DEFAULT '',
+  city TEXT NOT NULL DEFAULT '',
+  -- In-person consultation fee in whole rupees
+  fee_amount INTEGER NOT NULL DEFAULT 0 CHECK (fee_amount >= 0),
+  rating NUMERIC(2, 1) NOT NULL DEFAULT 0 CHECK (rating BETWEEN 0 AND 5),
+  review_count INTEGER NOT NULL DEFAULT 0 CHECK (review_count >= 0),
+  image_url TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  offers_video BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS doctors_specialty_idx ON public.doctors (specialty);
+CREATE INDEX IF NOT EXISTS doctors_city_idx ON public.doctors (city);
+
+-- Anyone can browse the directory; doctors can edit their own listing
+ALTER TABLE public.doctors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view doctors" ON public.doctors
+  FOR SELECT USING (true);
+
+CREATE POLICY "Doctors can update their own listing" ON public.doctors
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- The name appointments are booked under, the account link, ratings and location stay
+-- out of doctors' reach; only their practice details are editable
+REVOKE UPDATE ON public.doctors FROM authenticated;
+GRANT UPDATE (
+  specialty, experience_years, hospital, city, fee_amount, offers_video, updated_at
+) ON public.doctors TO authenticated;
+
+-- Listings are only linked to an account by an admin who has verified the doctor, never by
+-- matching names: anyone can sign up under a doctor's name. Pass the seeded listing to hand
+-- it over, or leave it out to create one from the account's sign-up details. Run from the
+-- SQL editor or with the service role.
+DROP TRIGGER IF EXISTS on_doctor_role_created ON public.user_roles;
+DROP FUNCTION IF EXISTS public.handle_new_doctor_listing();
+
+CREATE OR REPLACE FUNCTION public.verify_doctor(p_user_id UUID, p_doctor_id UUID DEFAULT NULL)
+RETURNS public.doctors
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_metadata JSONB;
+  v_doctor public.doctors;
+BEGIN
+  SELECT raw_user_meta_data INTO v_metadata FROM auth.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account with id %', p_user_id;
+  END IF;
+
+  IF p_doctor_id IS NULL THEN
+    IF NULLIF(trim(v_metadata ->> 'full_name'), '') IS NULL THEN
+      RAISE EXCEPTION 'The account has no name to list the doctor under';
+    END IF;
+
+    INSERT INTO public.doctors (user_id, name, specialty, hospital)
+    VALUES (
+      p_user_id,
+      trim(v_metadata ->> 'full_name'),
+      COALESCE(NULLIF(v_metadata ->> 'specialty', ''), 'General Physician'),
+      COALESCE(v_metadata ->> 'hospital', '')
+    )
+    RETURNING * INTO v_doctor;
+  ELSE
+    UPDATE public.doctors
+    SET user_id = p_user_id, updated_at = now()
+    WHERE id = p_doctor_id AND (user_id IS NULL OR user_id = p_user_id)
+    RETURNING * INTO v_doctor;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Listing % does not exist or belongs to another account', p_doctor_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (p_user_id, 'doctor')
+  ON CONFLICT (user_id) DO UPDATE SET role = 'doctor';
+
+  RETURN v_doctor;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_doctor(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The listing linked to the signed-in account, or null for anyone who isn't a verified doctor
+CREATE OR REPLACE FUNCTION public.current_doctor_id()
+RETURNS UUID
+LANGUAGE sql STABLE AS $$
+  SELECT id FROM public.doctors WHERE user_id = auth.uid();
+$$;
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS doctor_id UUID REFERENCES public.doctors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS appointments_doctor_id_idx ON public.appointments (doctor_id, appointment_date);
+
+-- Always derived from the name the patient booked, so it can't be pointed at another doctor
+CREATE OR REPLACE FUNCTION public.set_appointment_doctor_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.doctor_id := (SELECT id FROM public.doctors WHERE name = NEW.doctor_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS appointments_set_doctor_id ON public.appointments;
+
+CREATE TRIGGER appointments_set_doctor_id
+  BEFORE INSERT OR UPDATE OF doctor_name, doctor_id ON public.appointments
+  FOR EACH ROW EXECUTE FUNCTION public.set_appointment_doctor_id();
+
+-- Existing appointments
+UPDATE public.appointments a
+SET doctor_id = d.id
+FROM public.doctors d
+WHERE d.name = a.doctor_name AND a.doctor_id IS DISTINCT FROM d.id;
+
+-- Doctors can see the appointments booked with them, but can't edit them directly
+DROP POLICY IF EXISTS "Doctors can view appointments booked with them" ON public.appointments;
+DROP POLICY IF EXISTS "Doctors can update appointments booked with them" ON public.appointments;
+
+CREATE POLICY "Doctors can view appointments booked with them" ON public.appointments
+  FOR SELECT USING (doctor_id = public.current_doctor_id());
+
+-- How doctors move their appointments along the lifecycle. Only the status changes, and
+-- only if nobody else has changed it since the doctor loaded the appointment. The
+-- appointments_status_transition trigger still checks the move itself.
+CREATE OR REPLACE FUNCTION public.update_appointment_status(
+  p_appointment_id UUID,
+  p_from_status TEXT,
+  p_status TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.appointments
+    WHERE id = p_appointment_id AND doctor_id = public.current_doctor_id()
+  ) THEN
+    RAISE EXCEPTION 'You can only update appointments booked with you';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = p_status
+  WHERE id = p_appointment_id AND status = p_from_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This appointment was updated elsewhere. Please refresh and try again.';
+  END IF;
+END;
+$$;
+
+-- Specialty facet for the directory, counting doctors that match the same text search
+-- the client runs against the table
+CREATE OR REPLACE FUNCTION public.get_doctor_specialties(p_query TEXT DEFAULT NULL)
+RETURNS TABLE (specialty TEXT, doctor_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  SELECT specialty, count(*) AS doctor_count
+  FROM public.doctors
+  WHERE p_query IS NULL OR p_query = ''
+    OR name ILIKE '%' || p_query || '%'
+    OR specialty ILIKE '%' || p_query || '%'
+    OR city ILIKE '%' || p_query || '%'
+    OR hospital ILIKE '%' || p_query || '%'
+  GROUP BY specialty
+  ORDER BY specialty;
+$$;
+
+-- The directory that used to be hard-coded in the app
+INSERT INTO public.doctors
+  (name, specialty, experience_years, hospital, city, fee_amount, rating, review_count, image_url, latitude, longitude, offers_video)
+VALUES
+  ('Dr. Neha Sharma', 'Cardiologist', 15, 'Apollo Hospital', 'Mumbai', 1200, 4.8, 127, 'https://images.unsplash.com/photo-1559839734-2b71ea197ec2?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 19.076, 72.8777, false),
+  ('Dr. Amit Patel', 'Dermatologist', 12, 'SkinCare Clinic', 'Delhi', 900, 4.6, 95, 'https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 28.6139, 77.209, true),
+  ('Dr. Deepa Gupta', 'Gynecologist', 10, 'Women''s Health Center', 'Chennai', 950, 4.7, 110, 'https://images.unsplash.com/photo-1588173454394-29842817ae78?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 13.0826, 80.2707, false),
+  ('Dr. Vivek Agarwal', 'Pediatrician', 8, 'Children''s Hospital', 'Kolkata', 800, 4.9, 142, 'https://images.unsplash.com/photo-1628592737646-999419db23c5?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 22.5726, 88.3639, true),
+  ('Dr. Kavita Reddy', 'Orthopedic', 14, 'Orthopedic Clinic', 'Hyderabad', 1100, 4.5, 88, 'https://images.unsplash.com/photo-1591604029549-92755189876a?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 17.385, 78.4867, false),
+  ('Dr. Rahul Mehta', 'Neurologist', 11, 'NeuroCare Center', 'Bangalore', 1000, 4.7, 105, 'https://images.unsplash.com/photo-1505751172876-9aba583c2bf6?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 12.9716, 77.5946, true),
+  ('Dr. Pooja Desai', 'Cardiologist', 9, 'Heart Health Clinic', 'Pune', 950, 4.6, 92, 'https://images.unsplash.com/photo-1532938314630-e96f17bb43e3?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 18.5204, 73.8567, false),
+  ('Dr. Rohan Singhania', 'Ophthalmologist', 13, 'EyeCare Institute', 'Hyderabad', 900, 4.8, 120, 'https://images.unsplash.com/photo-1583324113626-70df0f4deaab?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 17.385, 78.4867, true),
+  ('Dr. Ananya Iyer', 'Psychiatrist', 10, 'Mental Health Clinic', 'Bangalore', 850, 4.7, 108, 'https://images.unsplash.com/photo-1628890923662-2cb23c2e3cfe?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 12.9716, 77.5946, false),
+  ('Dr. Sanjay Joshi', 'Endocrinologist', 12, 'Diabetes & Hormone Center', 'Mumbai', 950, 4.9, 135, 'https://images.unsplash.com/photo-1537368910025-703dfdb6a5de?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 19.076, 72.8777, true),
+  ('Dr. Sneha Mukherjee', 'Allergist', 8, 'Allergy & Asthma Clinic', 'Delhi', 850, 4.6, 85, 'https://images.unsplash.com/photo-1532938314630-e96f17bb43e3?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 28.6139, 77.209, false),
+  ('Dr. Karthik Venkatesh', 'Urologist', 14, 'Urology Associates', 'Chennai', 1000, 4.7, 112, 'https://images.unsplash.com/photo-1505751172876-9aba583c2bf6?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 13.0826, 80.2707, true),
+  ('Dr. Ritu Malhotra', 'Oncologist', 11, 'Cancer Treatment Center', 'Bangalore', 1100, 4.8, 128, 'https://images.unsplash.com/photo-1591604029549-92755189876a?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 12.9716, 77.5946, false),
+  ('Dr. Satish Nair', 'Rheumatologist', 9, 'Arthritis & Joint Clinic', 'Pune', 950, 4.5, 90, 'https://images.unsplash.com/photo-1583324113626-70df0f4deaab?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 18.5204, 73.8567, true),
+  ('Dr. Maya Chatterjee', 'Hematologist', 13, 'Blood Disorder Center', 'Mumbai', 1000, 4.9, 145, 'https://images.unsplash.com/photo-1537368910025-703dfdb6a5de?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 19.076, 72.8777, false),
+  ('Dr. Rajesh Sharma', 'Neurologist', 14, 'AIIMS Brain Center', 'Bangalore', 1200, 4.7, 118, 'https://images.unsplash.com/photo-1622902046580-2b47f47f5471?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 12.9716, 77.5946, true),
+  ('Dr. Priya Patel', 'Dermatologist', 9, 'Skin Health Clinic', 'Chennai', 1000, 4.5, 92, 'https://images.unsplash.com/photo-1594824476811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 13.0827, 80.2707, false),
+  ('Dr. Anil Kapoor', 'Cardiologist', 22, 'Heart & Vascular Institute', 'Hyderabad', 1500, 4.9, 231, 'https://images.unsplash.com/photo-1622253692010-333f2da6031d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 17.385, 78.4867, true),
+  ('Dr. Meena Gupta', 'Psychiatrist', 11, 'Mental Wellness Center', 'Kolkata', 1200, 4.8, 104, 'https://images.unsplash.com/photo-1594824476811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 22.5726, 88.3639, false),
+  ('Dr. Vikram Singh', 'Orthopedic', 17, 'Sports Medicine & Orthopedics', 'Pune', 1300, 4.7, 138, 'https://images.unsplash.com/photo-1612349317150-e413f6a5b16d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 18.5204, 73.8567, true),
+  ('Dr. Anjali Desai', 'Endocrinologist', 13, 'Diabetes & Hormone Center', 'Ahmedabad', 1100, 4.6, 87, 'https://images.unsplash.com/photo-1594824476811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 23.0225, 72.5714, false),
+  ('Dr. Suresh Kumar', 'Ophthalmologist', 19, 'Vision Care Institute', 'Jaipur', 1000, 4.9, 189, 'https://images.unsplash.com/photo-1622902046580-2b47f47f5471?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 26.9124, 75.7873, true),
+  ('Dr. Nandini Reddy', 'Pediatrician', 12, 'Children''s Health Center', 'Lucknow', 900, 4.8, 152, 'https://images.unsplash.com/photo-1594824476811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 26.8467, 80.9462, false),
+  ('Dr. Arjun Khanna', 'Allergist', 8, 'Allergy & Asthma Specialists', 'Bhopal', 950, 4.5, 76, 'https://images.unsplash.com/photo-1622253692010-333f2da6031d?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 23.2599, 77.4126, true),
+  ('Dr. Sunita Verma', 'Rheumatologist', 16, 'Arthritis Treatment Center', 'Chandigarh', 1100, 4.7, 124, 'https://images.unsplash.com/photo-1594824476811-b90baee60c1f?w=800&auto=format&fit=crop&q=60&ixlib=rb-4.0.3', 30.7333, 76.7794, false)
+ON CONFLICT (name) DO NOTHING;
+
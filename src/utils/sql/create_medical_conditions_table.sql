@@ -0,0 +1,29 @@
+
+-- Medical history recorded on the Profile page.
+-- diagnosed_year is kept as text so approximate entries like "2018" or "Childhood" are allowed.
+CREATE TABLE IF NOT EXISTS public.medical_conditions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  condition TEXT NOT NULL,
+  diagnosed_year TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'Active',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS medical_conditions_user_idx
+  ON public.medical_conditions (user_id);
+
+-- Users can only see and change their own medical history
+ALTER TABLE public.medical_conditions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own medical conditions" ON public.medical_conditions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own medical conditions" ON public.medical_conditions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own medical conditions" ON public.medical_conditions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medical conditions" ON public.medical_conditions
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,63 @@
+
+-- One row per dose the user has acted on (taken, skipped or taken late).
+-- Doses without a row are treated as missed once their scheduled time has passed.
+CREATE TABLE IF NOT EXISTS public.medication_dose_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('taken', 'skipped', 'late')),
+  logged_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT medication_dose_logs_unique_dose UNIQUE (medication_id, scheduled_at)
+);
+
+CREATE INDEX IF NOT EXISTS medication_dose_logs_user_scheduled_idx
+  ON public.medication_dose_logs (user_id, scheduled_at DESC);
+
+ALTER TABLE public.medication_dose_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dose logs" ON public.medication_dose_logs
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dose logs" ON public.medication_dose_logs
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dose logs" ON public.medication_dose_logs
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dose logs" ON public.medication_dose_logs
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- When each medication was paused, so adherence leaves out only the doses that fell while it
+-- was paused. Written by the trigger below whenever the status moves in or out of 'paused':
+--   [{"from": "2025-03-01T08:00:00+00:00", "to": "2025-03-05T09:30:00+00:00"}, {"from": "...", "to": null}]
+ALTER TABLE public.medications
+  ADD COLUMN IF NOT EXISTS paused_periods JSONB NOT NULL DEFAULT '[]';
+
+CREATE OR REPLACE FUNCTION public.record_medication_pause()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Built from OLD so the history can't be rewritten in the same update
+  IF NEW.status = 'paused' AND OLD.status <> 'paused' THEN
+    NEW.paused_periods := OLD.paused_periods || jsonb_build_array(jsonb_build_object('from', now(), 'to', NULL));
+  ELSIF OLD.status = 'paused' AND NEW.status <> 'paused' THEN
+    NEW.paused_periods := jsonb_set(OLD.paused_periods, '{-1,to}', to_jsonb(now()));
+  ELSE
+    NEW.paused_periods := OLD.paused_periods;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS medications_record_pause ON public.medications;
+
+-- Medications already paused: the last update is the best guess at when that happened
+UPDATE public.medications
+SET paused_periods = jsonb_build_array(jsonb_build_object('from', COALESCE(updated_at, created_at, now()), 'to', NULL))
+WHERE status = 'paused' AND paused_periods = '[]';
+
+CREATE TRIGGER medications_record_pause
+  BEFORE UPDATE ON public.medications
+  FOR EACH ROW EXECUTE FUNCTION public.record_medication_pause();
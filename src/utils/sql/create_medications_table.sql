@@ -0,0 +1,35 @@
+
+-- Medication regimens. Each row describes how a drug is taken; individual dose events
+-- are expanded from it on the client (see src/utils/medicationSchedule.ts).
+CREATE TABLE IF NOT EXISTS public.medications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  dosage TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('once_daily', 'twice_daily', 'three_times_daily', 'four_times_daily', 'weekly', 'as_needed')),
+  dose_times TEXT[] NOT NULL DEFAULT '{}',
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  instructions TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT medications_end_after_start CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS medications_user_status_idx
+  ON public.medications (user_id, status);
+
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own medications" ON public.medications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own medications" ON public.medications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own medications" ON public.medications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own medications" ON public.medications
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+
+-- Per-user notification settings edited on the Settings page.
+-- Quiet hours are local "HH:mm" times and may wrap past midnight (e.g. 22:00 to 07:00).
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  medication_reminders BOOLEAN NOT NULL DEFAULT false,
+  appointment_alerts BOOLEAN NOT NULL DEFAULT false,
+  health_updates BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TEXT NOT NULL DEFAULT '22:00' CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_end TEXT NOT NULL DEFAULT '07:00' CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Users can only see and change their own preferences
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences" ON public.notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Emergencies flagged by MedAssist's red-flag triage (see
+-- supabase/functions/gemini-health-chat/triage.ts). Rows are written by the edge function
+-- with the service role, including for guests, so there is no insert policy.
+CREATE TABLE IF NOT EXISTS public.triage_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Null for guests
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- The chatbot session the message came from
+  session_id TEXT,
+  category TEXT NOT NULL CHECK (category IN ('cardiac', 'stroke', 'breathing', 'suicide', 'unconscious', 'bleeding', 'poisoning')),
+  -- The phrase that triggered the rule, not the whole message
+  matched_text TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS triage_escalations_created_idx ON public.triage_escalations (created_at DESC);
+
+ALTER TABLE public.triage_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own escalations" ON public.triage_escalations
+  FOR SELECT USING (auth.uid() = user_id);
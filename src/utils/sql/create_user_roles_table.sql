@@ -0,0 +1,44 @@
+
+-- Whether each account is a patient or a doctor. Every account starts as a patient;
+-- verify_doctor (create_doctors_table.sql) makes it a doctor once an admin has checked them.
+-- user_metadata can be edited by the user, so access rules never read roles from it.
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'patient' CHECK (role IN ('patient', 'doctor')),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Users can read their own role; only the sign-up trigger and verify_doctor write it
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role" ON public.user_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id)
+  VALUES (NEW.id)
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_role ON auth.users;
+
+CREATE TRIGGER on_auth_user_created_role
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_role();
+
+-- Existing accounts
+INSERT INTO public.user_roles (user_id)
+SELECT id FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Doctors see who booked them without needing access to patient profiles
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS patient_name TEXT;
+
+-- Doctors' access to their appointments is keyed on their verified listing, so it lives
+-- with the doctors table in create_doctors_table.sql
@@ -0,0 +1,34 @@
+
+-- Manually logged vitals (weight, blood pressure, temperature, glucose, sleep).
+-- Values are stored in canonical units: kg, mmHg, °C, mg/dL and hours.
+-- Blood pressure keeps systolic in value and diastolic in secondary_value.
+CREATE TABLE IF NOT EXISTS public.vitals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('weight', 'blood_pressure', 'temperature', 'glucose', 'sleep')),
+  value NUMERIC NOT NULL,
+  secondary_value NUMERIC,
+  unit TEXT NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT vitals_blood_pressure_diastolic CHECK (type <> 'blood_pressure' OR secondary_value IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS vitals_user_type_recorded_idx
+  ON public.vitals (user_id, type, recorded_at DESC);
+
+-- Users can only see and change their own readings
+ALTER TABLE public.vitals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own vitals" ON public.vitals
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own vitals" ON public.vitals
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own vitals" ON public.vitals
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own vitals" ON public.vitals
+  FOR DELETE USING (auth.uid() = user_id);
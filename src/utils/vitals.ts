@@ -0,0 +1,139 @@
+import type { Vital, VitalType, VitalUnit } from '@/types/vitals';
+
+interface VitalDefinition {
+  label: string;
+  canonicalUnit: VitalUnit;
+  units: VitalUnit[];
+  // Plausible range in the canonical unit, used to catch typos before saving
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const VITAL_DEFINITIONS: Record<VitalType, VitalDefinition> = {
+  weight: { label: 'Weight', canonicalUnit: 'kg', units: ['kg', 'lb'], min: 1, max: 400, step: 0.1 },
+  blood_pressure: { label: 'Blood Pressure', canonicalUnit: 'mmHg', units: ['mmHg'], min: 30, max: 300, step: 1 },
+  temperature: { label: 'Temperature', canonicalUnit: '°C', units: ['°C', '°F'], min: 30, max: 45, step: 0.1 },
+  glucose: { label: 'Blood Glucose', canonicalUnit: 'mg/dL', units: ['mg/dL', 'mmol/L'], min: 10, max: 1000, step: 1 },
+  sleep: { label: 'Sleep', canonicalUnit: 'hours', units: ['hours'], min: 0, max: 24, step: 0.25 },
+};
+
+export const VITAL_TYPES = Object.keys(VITAL_DEFINITIONS) as VitalType[];
+
+const LB_PER_KG = 2.20462;
+const MG_DL_PER_MMOL_L = 18.0182;
+
+/**
+ * Converts a value entered in `unit` into the canonical unit stored in the database.
+ */
+export const toCanonical = (value: number, unit: VitalUnit): number => {
+  switch (unit) {
+    case 'lb':
+      return value / LB_PER_KG;
+    case '°F':
+      return (value - 32) * 5 / 9;
+    case 'mmol/L':
+      return value * MG_DL_PER_MMOL_L;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Converts a canonical value into the requested display unit.
+ */
+export const fromCanonical = (value: number, unit: VitalUnit): number => {
+  switch (unit) {
+    case 'lb':
+      return value * LB_PER_KG;
+    case '°F':
+      return value * 9 / 5 + 32;
+    case 'mmol/L':
+      return value / MG_DL_PER_MMOL_L;
+    default:
+      return value;
+  }
+};
+
+const round = (value: number, unit: VitalUnit) => {
+  const decimals = unit === 'mmHg' || unit === 'mg/dL' ? 0 : 1;
+  return Number(value.toFixed(decimals));
+};
+
+const UNIT_PREFERENCES_KEY = 'vital_unit_preferences';
+
+/**
+ * Returns the unit the user last chose for a vital type, falling back to the canonical unit.
+ */
+export const getPreferredUnit = (type: VitalType): VitalUnit => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(UNIT_PREFERENCES_KEY) || '{}');
+    if (VITAL_DEFINITIONS[type].units.includes(stored[type])) {
+      return stored[type];
+    }
+  } catch (error) {
+    console.error('Error reading unit preferences:', error);
+  }
+  return VITAL_DEFINITIONS[type].canonicalUnit;
+};
+
+export const setPreferredUnit = (type: VitalType, unit: VitalUnit) => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(UNIT_PREFERENCES_KEY) || '{}');
+    localStorage.setItem(UNIT_PREFERENCES_KEY, JSON.stringify({ ...stored, [type]: unit }));
+  } catch (error) {
+    console.error('Error saving unit preferences:', error);
+  }
+};
+
+/**
+ * Converts a canonical value to the given unit and rounds it for display or form inputs.
+ */
+export const displayValue = (value: number, unit: VitalUnit): number => round(fromCanonical(value, unit), unit);
+
+/**
+ * Formats a reading for display in the user's preferred unit, e.g. "68.5 kg" or "120/80 mmHg".
+ */
+export const formatVital = (vital: Pick<Vital, 'type' | 'value' | 'secondaryValue'>): string => {
+  const unit = getPreferredUnit(vital.type);
+
+  if (vital.type === 'blood_pressure') {
+    return `${Math.round(vital.value)}/${Math.round(vital.secondaryValue ?? 0)} ${unit}`;
+  }
+
+  const value = displayValue(vital.value, unit);
+  return unit === '°C' || unit === '°F' ? `${value}${unit}` : `${value} ${unit}`;
+};
+
+/**
+ * Checks a reading entered in `unit` against the plausible range for its type.
+ * Returns an error message, or null when the reading is valid.
+ */
+export const validateVital = (
+  type: VitalType,
+  value: number,
+  unit: VitalUnit,
+  secondaryValue?: number | null
+): string | null => {
+  const definition = VITAL_DEFINITIONS[type];
+
+  if (Number.isNaN(value)) {
+    return `Please enter a value for ${definition.label.toLowerCase()}`;
+  }
+
+  const canonical = toCanonical(value, unit);
+  if (canonical < definition.min || canonical > definition.max) {
+    return `${definition.label} must be between ${displayValue(definition.min, unit)} and ${displayValue(definition.max, unit)} ${unit}`;
+  }
+
+  if (type === 'blood_pressure') {
+    if (secondaryValue === null || secondaryValue === undefined || Number.isNaN(secondaryValue)) {
+      return 'Please enter the diastolic pressure';
+    }
+    if (secondaryValue < 20 || secondaryValue >= value) {
+      return 'Diastolic pressure must be lower than systolic pressure';
+    }
+  }
+
+  return null;
+};
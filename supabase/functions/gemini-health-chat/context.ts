@@ -0,0 +1,117 @@
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Only vitals from the last month are summarised
+const RECENT_VITALS_DAYS = 30;
+
+const VITAL_LABELS: Record<string, string> = {
+  weight: 'Weight',
+  blood_pressure: 'Blood pressure',
+  temperature: 'Temperature',
+  glucose: 'Blood glucose',
+  sleep: 'Sleep',
+};
+
+type Vital = {
+  type: string;
+  value: number;
+  secondary_value: number | null;
+  unit: string;
+  recorded_at: string;
+};
+
+const formatList = (items: string[]) => (items.length > 0 ? items.join('; ') : 'None recorded');
+
+const formatVital = ({ type, value, secondary_value, unit, recorded_at }: Vital) => {
+  const round = (reading: number) => Math.round(reading * 10) / 10;
+  const reading = secondary_value !== null ? `${round(value)}/${round(secondary_value)}` : `${round(value)}`;
+  return `${VITAL_LABELS[type] ?? type} ${reading} ${unit} (${recorded_at.slice(0, 10)})`;
+};
+
+export type RequestUser = {
+  // Acts as the user, so row level security limits it to their own rows
+  supabase: SupabaseClient;
+  user: User;
+};
+
+/**
+ * The signed-in user making the request, with their JWT verified, or null for guests
+ * (who send the anon key, which has no user).
+ */
+export const getRequestUser = async (req: Request): Promise<RequestUser | null> => {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') || '',
+    Deno.env.get('SUPABASE_ANON_KEY') || '',
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const jwt = authHeader.replace('Bearer ', '');
+  const { data: { user }, error: jwtError } = await supabase.auth.getUser(jwt);
+  if (jwtError || !user) return null;
+
+  return { supabase, user };
+};
+
+/**
+ * Summarises the user's health record for MedAssist, or returns null if they haven't
+ * consented to sharing it.
+ */
+export const buildHealthContext = async ({ supabase, user }: RequestUser): Promise<string | null> => {
+  const { data: consent, error: consentError } = await supabase
+    .from('assistant_consents')
+    .select('share_health_record')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (consentError) throw consentError;
+  if (!consent?.share_health_record) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const vitalsSince = new Date(Date.now() - RECENT_VITALS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [conditions, allergies, medications, vitals] = await Promise.all([
+    supabase.from('medical_conditions').select('condition, diagnosed_year, status').eq('user_id', user.id),
+    supabase.from('allergies').select('name, severity').eq('user_id', user.id),
+    supabase
+      .from('medications')
+      .select('name, dosage, frequency, end_date')
+      .eq('user_id', user.id)
+      .eq('status', 'active'),
+    supabase
+      .from('vitals')
+      .select('type, value, secondary_value, unit, recorded_at')
+      .eq('user_id', user.id)
+      .gte('recorded_at', vitalsSince)
+      .order('recorded_at', { ascending: false }),
+  ]);
+
+  for (const result of [conditions, allergies, medications, vitals]) {
+    if (result.error) throw result.error;
+  }
+
+  // The latest reading of each type
+  const latestVitals = new Map<string, Vital>();
+  for (const vital of vitals.data as Vital[]) {
+    if (!latestVitals.has(vital.type)) latestVitals.set(vital.type, vital);
+  }
+
+  const conditionList = conditions.data
+    .filter(({ status }) => status !== 'Resolved')
+    .map(({ condition, diagnosed_year, status }) =>
+      `${condition} (${status}${diagnosed_year ? `, since ${diagnosed_year}` : ''})`
+    );
+  const allergyList = allergies.data.map(({ name, severity }) => `${name} (${severity} severity)`);
+  const medicationList = medications.data
+    .filter(({ end_date }) => !end_date || end_date >= today)
+    .map(({ name, dosage, frequency }) => `${name} ${dosage}, ${frequency.replace(/_/g, ' ')}`);
+
+  return `The user has chosen to share their health record with you. Take it into account in your answer: check any medicine they ask about against their conditions, allergies and current medications, and point out relevant interactions or risks.
+
+Health record summary:
+- Conditions: ${formatList(conditionList)}
+- Allergies: ${formatList(allergyList)}
+- Current medications: ${formatList(medicationList)}
+- Recent vitals: ${formatList([...latestVitals.values()].map(formatVital))}`;
+};
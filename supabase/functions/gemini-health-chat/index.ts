@@ -1,14 +1,65 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildHealthContext, getRequestUser } from "./context.ts";
+import { getChatProvider } from "./providers/index.ts";
+import { classifyEmergency, type TriageResult } from "./triage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const encoder = new TextEncoder();
+
+// One Server-Sent Event; the client reads these in src/utils/healthChatStream.ts
+const formatEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+const eventStreamHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+// Records a red-flag escalation; the service role can write guests' events too
+const logEscalation = async (emergency: TriageResult, userId: string | null, sessionId: string | null) => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') || '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+  );
+
+  const { data, error } = await supabase
+    .from('triage_escalations')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      category: emergency.category,
+      matched_text: emergency.matched,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return data.id as string;
+};
+
+const systemPrompt = `You are a helpful, knowledgeable health assistant named MedAssist focused on Indian healthcare. You provide accurate, concise information about health, diseases, symptoms, and medicines available in India. Keep your responses brief and to the point - ideally 2-3 sentences per response unless more detail is specifically needed.
+
+When asked about symptoms, provide information and suggest which type of doctor would be most appropriate to consult in India (e.g., cardiologist for heart issues, dermatologist for skin problems).
+
+When suggesting emergency services, always use Indian emergency numbers (102 for ambulance, 108 for medical emergencies) and refer to AIIMS, Apollo, Fortis, Max, or other major Indian hospital chains when relevant.
+
+You can provide general information about medications and treatments available in India, but always include a disclaimer that the patient should consult with a healthcare professional before starting any treatment.
+
+When mentioning specialists or medical practices, refer to Indian medical systems like MBBS, MD, AYUSH, Ayurveda, and homeopathy as appropriate.
+
+Be conversational and ask follow-up questions when appropriate to better understand the user's health concern.
+
+Your goal is to provide helpful information that gives users peace of mind while ensuring they understand the importance of professional medical care. Avoid saying phrases like "I cannot provide medical advice" - instead, provide information and emphasize the importance of consulting a doctor.`;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -16,100 +67,88 @@ serve(async (req) => {
   }
 
   try {
-    const { prompt, previousMessages = [] } = await req.json();
-
-    // Create a context from previous messages
-    let contextText = "";
-    if (previousMessages.length > 0) {
-      contextText = "Previous conversation context:\n";
-      previousMessages.forEach((msg: { role: string; content: string }) => {
-        contextText += `${msg.role === 'bot' ? 'MedAssist' : 'User'}: ${msg.content}\n`;
+    const { prompt, previousMessages = [], sessionId = null } = await req.json();
+
+    // Guests and failed lookups just chat without a user
+    const requestUser = await getRequestUser(req).catch((error) => {
+      console.error('Error verifying user:', error);
+      return null;
+    });
+
+    // Red-flag symptoms get a fixed emergency answer instead of the model's
+    const emergency = classifyEmergency(prompt);
+    if (emergency) {
+      const escalationId = await logEscalation(emergency, requestUser?.user.id ?? null, sessionId).catch((error) => {
+        console.error('Error logging escalation:', error);
+        return null;
       });
-      contextText += "\nBased on this conversation context, please respond to the user's current message:\n";
+      console.log(`Escalated ${emergency.category} emergency`, escalationId);
+
+      const { category, title, advice, contacts } = emergency;
+      const events = [
+        formatEvent("emergency", { escalationId, category, title, advice, contacts }),
+        formatEvent("text", { text: advice }),
+        formatEvent("done", {}),
+      ];
+
+      return new Response(new Blob(events).stream(), { headers: eventStreamHeaders });
     }
 
-    // Updated API endpoint to use the Gemini API v1 instead of v1beta
-    const response = await fetch('https://generativelanguage.googleapis.com/v1/models/gemini-1.5-pro:generateContent?key=' + geminiApiKey, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are a helpful, knowledgeable health assistant named MedAssist focused on Indian healthcare. You provide accurate, concise information about health, diseases, symptoms, and medicines available in India. Keep your responses brief and to the point - ideally 2-3 sentences per response unless more detail is specifically needed.
-
-                When asked about symptoms, provide information and suggest which type of doctor would be most appropriate to consult in India (e.g., cardiologist for heart issues, dermatologist for skin problems).
-                
-                When suggesting emergency services, always use Indian emergency numbers (102 for ambulance, 108 for medical emergencies) and refer to AIIMS, Apollo, Fortis, Max, or other major Indian hospital chains when relevant.
-                
-                You can provide general information about medications and treatments available in India, but always include a disclaimer that the patient should consult with a healthcare professional before starting any treatment.
-                
-                When mentioning specialists or medical practices, refer to Indian medical systems like MBBS, MD, AYUSH, Ayurveda, and homeopathy as appropriate.
-                
-                Be conversational and ask follow-up questions when appropriate to better understand the user's health concern.
-                
-                Your goal is to provide helpful information that gives users peace of mind while ensuring they understand the importance of professional medical care. Avoid saying phrases like "I cannot provide medical advice" - instead, provide information and emphasize the importance of consulting a doctor.
-                
-                ${contextText}
-                
-                User query: ${prompt}`
-              }
-            ]
+    const provider = getChatProvider();
+
+    // Only present for signed-in users who have consented; the chat works without it
+    const healthContext = requestUser
+      ? await buildHealthContext(requestUser).catch((error) => {
+          console.error('Error building health context:', error);
+          return null;
+        })
+      : null;
+
+    // Aborted when the user stops generation and the client drops the stream
+    const upstream = new AbortController();
+    const chunks = provider.streamChat({
+      systemPrompt: healthContext ? `${systemPrompt}\n\n${healthContext}` : systemPrompt,
+      history: previousMessages,
+      prompt,
+    }, upstream.signal);
+
+    // Wait for the first piece so provider errors still come back as a 500
+    const first = await chunks.next();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let length = 0;
+
+        try {
+          if (!first.done) {
+            length += first.value.length;
+            controller.enqueue(formatEvent("text", { text: first.value }));
           }
-        ],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
+
+          for await (const text of chunks) {
+            length += text.length;
+            controller.enqueue(formatEvent("text", { text }));
           }
-        ]
-      }),
-    });
 
-    const data = await response.json();
-    
-    // Updated to handle the response format of the v1 Gemini API
-    let generatedText = "";
-    try {
-      // Extract the generated text from the v1 API response format
-      generatedText = data.candidates?.[0]?.content?.parts?.[0]?.text || 
-                      "I'm sorry, I couldn't process your request at this time.";
-      
-      console.log("Successfully generated response:", generatedText.substring(0, 100) + "...");
-    } catch (e) {
-      console.error("Error parsing Gemini response:", e);
-      console.error("Response data:", JSON.stringify(data, null, 2));
-      
-      if (data.error) {
-        throw new Error(`Gemini API Error: ${data.error.message || JSON.stringify(data.error)}`);
-      }
-      throw new Error("Unexpected response format from Gemini API");
-    }
+          if (length === 0) {
+            controller.enqueue(formatEvent("text", { text: "I'm sorry, I couldn't process your request at this time." }));
+          }
+          console.log(`Streamed ${length} characters from ${provider.name}`);
+          controller.enqueue(formatEvent("done", {}));
+        } catch (e) {
+          if (upstream.signal.aborted) return;
 
-    return new Response(JSON.stringify({ generatedText }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          console.error(`Error streaming ${provider.name} response:`, e);
+          controller.enqueue(formatEvent("error", { error: "The response was interrupted" }));
+        }
+        controller.close();
+      },
+      cancel() {
+        upstream.abort();
+      },
     });
+
+    return new Response(stream, { headers: eventStreamHeaders });
   } catch (error) {
     console.error('Error in gemini-health-chat function:', error);
     return new Response(JSON.stringify({ 
@@ -0,0 +1,89 @@
+import { readEventData, getErrorMessage } from "./sse.ts";
+import type { ChatProvider, ChatRequest } from "./types.ts";
+
+type GeminiConfig = {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+};
+
+type GeminiChunk = {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+};
+
+// Gemini takes the instructions, earlier turns and question as a single prompt
+const buildPrompt = ({ systemPrompt, history, prompt }: ChatRequest) => {
+  let contextText = "";
+  if (history.length > 0) {
+    contextText = "Previous conversation context:\n";
+    history.forEach((msg) => {
+      contextText += `${msg.role === 'bot' ? 'MedAssist' : 'User'}: ${msg.content}\n`;
+    });
+    contextText += "\nBased on this conversation context, please respond to the user's current message:\n";
+  }
+
+  return `${systemPrompt}
+
+${contextText}
+
+User query: ${prompt}`;
+};
+
+export const createGeminiProvider = ({ apiKey, model, baseUrl }: GeminiConfig): ChatProvider => ({
+  name: 'gemini',
+  async *streamChat(request, signal) {
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not set");
+    }
+
+    // alt=sse makes Gemini stream the answer as Server-Sent Events
+    const response = await fetch(`${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [{ text: buildPrompt(request) }]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.7,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 1024,
+        },
+        safetySettings: [
+          {
+            category: "HARM_CATEGORY_HARASSMENT",
+            threshold: "BLOCK_MEDIUM_AND_ABOVE"
+          },
+          {
+            category: "HARM_CATEGORY_HATE_SPEECH",
+            threshold: "BLOCK_MEDIUM_AND_ABOVE"
+          },
+          {
+            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+            threshold: "BLOCK_MEDIUM_AND_ABOVE"
+          },
+          {
+            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+            threshold: "BLOCK_MEDIUM_AND_ABOVE"
+          }
+        ]
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Gemini API Error: ${await getErrorMessage(response)}`);
+    }
+
+    for await (const data of readEventData(response.body)) {
+      const chunk: GeminiChunk = JSON.parse(data);
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+      if (text) yield text;
+    }
+  },
+});
@@ -0,0 +1,35 @@
+import { createGeminiProvider } from "./gemini.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import type { ChatProvider } from "./types.ts";
+
+export type { ChatProvider, ChatRequest, ChatTurn } from "./types.ts";
+
+/**
+ * Picks the model backend from the CHAT_PROVIDER secret:
+ * - "gemini" (default): GEMINI_API_KEY, optional GEMINI_MODEL and GEMINI_API_URL
+ * - "openai": any OpenAI-compatible server; OPENAI_BASE_URL, OPENAI_MODEL, optional OPENAI_API_KEY
+ * - "mock": canned answers with no network access, for local development and tests
+ */
+export const getChatProvider = (env: { get(key: string): string | undefined } = Deno.env): ChatProvider => {
+  const provider = env.get('CHAT_PROVIDER') || 'gemini';
+
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: env.get('GEMINI_API_KEY') ?? '',
+        model: env.get('GEMINI_MODEL') || 'gemini-1.5-pro',
+        baseUrl: env.get('GEMINI_API_URL') || 'https://generativelanguage.googleapis.com/v1',
+      });
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.get('OPENAI_API_KEY') ?? '',
+        model: env.get('OPENAI_MODEL') || 'gpt-4o-mini',
+        baseUrl: env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown CHAT_PROVIDER "${provider}". Use gemini, openai or mock.`);
+  }
+};
@@ -0,0 +1,35 @@
+import type { ChatProvider } from "./types.ts";
+
+// Canned answers picked by keyword, so the chatbot can be tried and tested offline
+const mockAnswers: { keywords: string[]; answer: string }[] = [
+  {
+    keywords: ['chest pain', 'heart'],
+    answer: "Chest discomfort can have many causes. A cardiologist is the right specialist to consult. If the pain is severe or spreading, call 108 right away.",
+  },
+  {
+    keywords: ['skin', 'rash', 'itch'],
+    answer: "Skin concerns like rashes are best seen by a dermatologist. Keep the area clean and avoid new creams until a doctor has looked at it.",
+  },
+  {
+    keywords: ['fever', 'dengue'],
+    answer: "Dengue usually starts with high fever, headache, body ache and sometimes a rash. Drink plenty of fluids and consult a general physician for a blood test.",
+  },
+];
+
+const defaultAnswer = (prompt: string) =>
+  `This is a mock MedAssist answer to: "${prompt.trim()}". Please consult a qualified doctor for advice about your health.`;
+
+export const createMockProvider = (): ChatProvider => ({
+  name: 'mock',
+  async *streamChat({ prompt }, signal) {
+    const question = prompt.toLowerCase();
+    const answer = mockAnswers.find(({ keywords }) => keywords.some(keyword => question.includes(keyword)))
+      ?.answer ?? defaultAnswer(prompt);
+
+    // Stream word by word like a real model would
+    for (const word of answer.split(/(?<=\s)/)) {
+      if (signal.aborted) return;
+      yield word;
+    }
+  },
+});
@@ -0,0 +1,55 @@
+import { readEventData, getErrorMessage } from "./sse.ts";
+import type { ChatProvider } from "./types.ts";
+
+type OpenAIConfig = {
+  apiKey: string;
+  model: string;
+  // Any server implementing the OpenAI chat completions API, e.g. a local model server
+  baseUrl: string;
+};
+
+type OpenAIChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+export const createOpenAIProvider = ({ apiKey, model, baseUrl }: OpenAIConfig): ChatProvider => ({
+  name: 'openai',
+  async *streamChat({ systemPrompt, history, prompt }, signal) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        // Self-hosted servers often run without a key
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream: true,
+        temperature: 0.7,
+        top_p: 0.95,
+        max_tokens: 1024,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          ...history.map(msg => ({
+            role: msg.role === 'bot' ? 'assistant' : 'user',
+            content: msg.content,
+          })),
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible API Error: ${await getErrorMessage(response)}`);
+    }
+
+    for await (const data of readEventData(response.body)) {
+      if (data === '[DONE]') break;
+
+      const chunk: OpenAIChunk = JSON.parse(data);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+});
@@ -0,0 +1,31 @@
+// Yields the data field of each Server-Sent Event in a streamed HTTP response
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.startsWith("data:")) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Reads the error message out of a failed provider response
+export const getErrorMessage = async (response: Response) => {
+  const data = await response.json().catch(() => ({}));
+  console.error("Provider error:", JSON.stringify(data, null, 2));
+  return data.error?.message || response.statusText;
+};
@@ -0,0 +1,21 @@
+export type ChatTurn = {
+  role: 'user' | 'bot';
+  content: string;
+};
+
+export type ChatRequest = {
+  // Instructions describing MedAssist's role and tone
+  systemPrompt: string;
+  // Earlier turns of the conversation, oldest first
+  history: ChatTurn[];
+  prompt: string;
+};
+
+/**
+ * A language model backend for MedAssist. Implementations stream the answer as plain text
+ * pieces and stop when the signal aborts.
+ */
+export interface ChatProvider {
+  name: string;
+  streamChat(request: ChatRequest, signal: AbortSignal): AsyncGenerator<string>;
+}
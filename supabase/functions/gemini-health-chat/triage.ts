@@ -0,0 +1,156 @@
+export type EmergencyContact = {
+  label: string;
+  number: string;
+};
+
+export type TriageCategory = 'cardiac' | 'stroke' | 'breathing' | 'suicide' | 'unconscious' | 'bleeding' | 'poisoning';
+
+export type TriageResult = {
+  category: TriageCategory;
+  title: string;
+  advice: string;
+  // The phrase that triggered the rule, kept in the escalation log
+  matched: string;
+  contacts: EmergencyContact[];
+};
+
+type TriageRule = {
+  category: TriageCategory;
+  title: string;
+  advice: string;
+  patterns: RegExp[];
+  contacts?: EmergencyContact[];
+};
+
+const EMERGENCY_CONTACTS: EmergencyContact[] = [
+  { label: 'Ambulance', number: '102' },
+  { label: 'Medical emergency', number: '108' },
+];
+
+const CRISIS_CONTACTS: EmergencyContact[] = [
+  { label: 'Tele-MANAS mental health helpline', number: '14416' },
+  { label: 'Emergency', number: '112' },
+];
+
+// Checked in order; the first rule that matches wins
+const TRIAGE_RULES: TriageRule[] = [
+  {
+    category: 'suicide',
+    title: 'You deserve support right now',
+    advice: "If you are thinking about ending your life or hurting yourself, please call a helpline now or reach out to someone you trust. You don't have to go through this alone.",
+    patterns: [
+      /\b(kill|hurt|harm)(ing)? myself\b/,
+      /\bsuicid(e|al)\b/,
+      /\b(end|take) my (own )?life\b/,
+      /\b(want|wish) to die\b/,
+      /\bbetter off dead\b/,
+      /\bno reason to live\b/,
+      /\bself[- ]harm/,
+    ],
+    contacts: CRISIS_CONTACTS,
+  },
+  {
+    category: 'cardiac',
+    title: 'Possible heart emergency',
+    advice: "Chest pain or pressure can be a sign of a heart attack. Call an ambulance now, stop any activity and sit or lie down while you wait. Don't drive yourself to hospital.",
+    patterns: [
+      /\bchest (pain|pressure|tightness|discomfort)\b/,
+      /\bpain in (my|the) chest\b/,
+      /\b(having|had) a heart attack\b/,
+      /\bpain (spreading|radiating) (to|down) (my )?(left )?(arm|jaw)\b/,
+    ],
+  },
+  {
+    category: 'stroke',
+    title: 'Possible stroke',
+    advice: 'Sudden face drooping, arm weakness or slurred speech may be a stroke. Call an ambulance now and note the time the symptoms started; every minute matters.',
+    patterns: [
+      /\b(face|mouth|smile) (is )?(drooping|droops|drooped)\b/,
+      /\bslurred speech\b/,
+      /\bslurring\b/,
+      /\b(having|had) a stroke\b/,
+      /\bsudden(ly)? (numbness|weakness)\b/,
+      /\b(can'?t|cannot|unable to) (move|feel) (my |one )?(arm|leg|side)\b/,
+    ],
+  },
+  {
+    category: 'breathing',
+    title: 'Severe breathing difficulty',
+    advice: 'Serious trouble breathing needs urgent care. Call an ambulance now, sit upright and loosen tight clothing. Use a prescribed inhaler or adrenaline pen if you have one.',
+    patterns: [
+      /\b(can'?t|cannot|unable to) breathe\b/,
+      /\bstruggling to breathe\b/,
+      /\b(lips|face) (are |is |turning )?(blue|bluish)\b/,
+      /\bthroat (is )?(closing|swelling)\b/,
+      /\b(having|in) anaphyla/,
+      /\bchoking\b/,
+    ],
+  },
+  {
+    category: 'unconscious',
+    title: 'Someone may be unresponsive',
+    advice: 'If someone has collapsed, is unconscious or is having a seizure, call an ambulance now. Keep them safe from injury and lay them on their side once any seizure stops.',
+    patterns: [
+      /\b(unconscious|unresponsive)\b/,
+      /\bcollapsed\b/,
+      /\b(won'?t|will not|can'?t) wake (him |her |them )?up\b/,
+      /\b(not|isn'?t) breathing\b/,
+      /\b(having|had) a (seizure|fit)\b/,
+      /\b(seizing|convulsing)\b/,
+    ],
+  },
+  {
+    category: 'bleeding',
+    title: 'Severe bleeding',
+    advice: "Heavy bleeding needs urgent care. Call an ambulance now and press firmly on the wound with a clean cloth; don't remove it if blood soaks through, add more on top.",
+    patterns: [
+      /\b(won'?t|will not|can'?t) stop bleeding\b/,
+      /\b(heavy|severe|uncontrolled) bleeding\b/,
+      /\b(vomiting|coughing) (up )?blood\b/,
+    ],
+  },
+  {
+    category: 'poisoning',
+    title: 'Possible poisoning or overdose',
+    advice: "Call an ambulance now. Don't try to make the person vomit, and keep the packet or bottle to show the medical team.",
+    patterns: [
+      /\b(overdosed|took an overdose)\b/,
+      /\btook too many (pills|tablets)\b/,
+      /\b(swallowed|drank|ate) (poison|bleach|pesticide|rat poison|kerosene)\b/,
+      /\bbeen poisoned\b/,
+    ],
+  },
+];
+
+// "no chest pain" or "never had a stroke" shouldn't raise an alarm. The negation has to govern
+// the symptom directly, with at most a few of these words between them, so "no relief from
+// chest pain" or "not sure but chest pain" still does.
+const NEGATION = /\b(no|not|never|without|denies|denied|don'?t|doesn'?t|didn'?t)\s+((any|more|new|further|real|significant|severe|sudden|have|having|had|felt|feel|feeling|experienced|experiencing)\s+){0,2}$/;
+
+const isNegated = (text: string, index: number) => NEGATION.test(text.slice(0, index));
+
+/**
+ * Looks for red-flag symptoms in a chat message. Runs before the language model so that an
+ * emergency always gets the same clear answer, whatever the model would have said.
+ */
+export const classifyEmergency = (message: string): TriageResult | null => {
+  const text = message.toLowerCase().replace(/[’]/g, "'");
+
+  for (const rule of TRIAGE_RULES) {
+    for (const pattern of rule.patterns) {
+      // Every mention counts: "no chest pain yesterday but now chest pain" still raises one
+      const match = [...text.matchAll(new RegExp(pattern, 'g'))].find(({ index }) => !isNegated(text, index));
+      if (!match) continue;
+
+      return {
+        category: rule.category,
+        title: rule.title,
+        advice: rule.advice,
+        matched: match[0],
+        contacts: rule.contacts ?? EMERGENCY_CONTACTS,
+      };
+    }
+  }
+
+  return null;
+};
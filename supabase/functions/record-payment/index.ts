@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Payments in these states have gone through and can be refunded
+const PAID_STATUSES = ['authorized', 'captured'];
+
+class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Looks the payment up with Razorpay, so amounts never come from the browser
+const fetchRazorpayPayment = async (paymentId: string): Promise<{ amount: number; status: string }> => {
+  const keyId = Deno.env.get('RAZORPAY_KEY_ID');
+  const keySecret = Deno.env.get('RAZORPAY_KEY_SECRET');
+  if (!keyId || !keySecret) {
+    throw new Error('RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set');
+  }
+
+  const response = await fetch(`https://api.razorpay.com/v1/payments/${encodeURIComponent(paymentId)}`, {
+    headers: { Authorization: `Basic ${btoa(`${keyId}:${keySecret}`)}` },
+  });
+
+  if (response.status === 400 || response.status === 404) {
+    throw new RequestError('Payment not found', 404);
+  }
+  if (!response.ok) {
+    throw new Error(`Razorpay returned ${response.status}`);
+  }
+
+  return response.json();
+};
+
+/**
+ * Records a Razorpay payment for the signed-in patient, confirmed with Razorpay, and links it
+ * to their appointment when the booking went through. Without an appointment the payment is
+ * kept unlinked so it can be refunded. cancel_appointment refunds from these records.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The service role writes payments and appointment payment details, which patients can't
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const jwt = (req.headers.get('Authorization') || '').replace('Bearer ', '');
+    const { data: { user }, error: jwtError } = await supabase.auth.getUser(jwt);
+    if (jwtError || !user) {
+      throw new RequestError('Please sign in to record a payment', 401);
+    }
+
+    const { paymentId, appointmentId } = await req.json();
+    if (typeof paymentId !== 'string' || !paymentId) {
+      throw new RequestError('paymentId is required', 400);
+    }
+
+    const payment = await fetchRazorpayPayment(paymentId);
+    if (!PAID_STATUSES.includes(payment.status)) {
+      throw new RequestError('This payment has not gone through', 400);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('payments')
+      .select('user_id, appointment_id')
+      .eq('razorpay_payment_id', paymentId)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing && existing.user_id !== user.id) {
+      throw new RequestError('This payment belongs to another account', 403);
+    }
+
+    let linkedAppointmentId: string | null = existing?.appointment_id ?? null;
+
+    if (appointmentId && appointmentId !== linkedAppointmentId) {
+      // A payment pays for one booking only
+      if (linkedAppointmentId) {
+        throw new RequestError('This payment is already linked to another appointment', 409);
+      }
+
+      const { data: appointment, error: appointmentError } = await supabase
+        .from('appointments')
+        .select('id, payment_id')
+        .eq('id', appointmentId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (appointmentError) throw appointmentError;
+      if (!appointment || appointment.payment_id !== paymentId) {
+        throw new RequestError('This payment was not made for that appointment', 400);
+      }
+
+      linkedAppointmentId = appointment.id;
+    }
+
+    const { error: paymentError } = await supabase
+      .from('payments')
+      .upsert({
+        razorpay_payment_id: paymentId,
+        user_id: user.id,
+        appointment_id: linkedAppointmentId,
+        amount: Math.floor(payment.amount / 100),
+      }, { onConflict: 'razorpay_payment_id' });
+
+    if (paymentError) throw paymentError;
+
+    if (linkedAppointmentId) {
+      const { error: appointmentError } = await supabase
+        .from('appointments')
+        .update({ payment_status: 'paid' })
+        .eq('id', linkedAppointmentId);
+
+      if (appointmentError) throw appointmentError;
+    }
+
+    return jsonResponse({ recorded: true, appointmentId: linkedAppointmentId });
+  } catch (error) {
+    console.error('Error in record-payment function:', error);
+    return jsonResponse({ error: error.message }, error instanceof RequestError ? error.status : 500);
+  }
+});